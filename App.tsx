@@ -1,47 +1,121 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { Plus, MessageSquare, List, Loader2 } from 'lucide-react';
-import { Location, Coordinate, PlaceType } from './types';
-import { MOCK_LOCATIONS, INITIAL_VIEW_STATE } from './constants';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Plus, MessageSquare, List, Loader2, Layers } from 'lucide-react';
+import { Location, Coordinate, ExternalRating, MapViewState, Bounds, GemSignals } from './types';
+import { INITIAL_VIEW_STATE } from './constants';
 import { MapBoard } from './components/MapBoard';
-import { SearchBar, SearchSuggestion } from './components/SearchBar';
+import { SearchBar } from './components/SearchBar';
 import { LocationCard } from './components/LocationCard';
 import { AddLocationModal } from './components/AddLocationModal';
 import { AIChatModal } from './components/AIChatModal';
 import { ListView } from './components/ListView';
-import { GoogleGenAI, Type } from "@google/genai";
+import { Route } from './services/routing';
+import { GeocodeResult, geocodePlace } from './services/geocoding';
+import { generate, isQuotaError, parseJsonResponse } from './services/ai';
+import { StorageIssueBanner } from './components/StorageIssueBanner';
+import { UndoToast } from './components/UndoToast';
+import { NetworkBanner } from './components/NetworkBanner';
+import { OfflineAreasModal } from './components/OfflineAreasModal';
+import { SharedListPanel } from './components/SharedListPanel';
+import { GemScoreControl } from './components/GemScoreControl';
+import { usePersistedLocations } from './hooks/usePersistedLocations';
+import { useGeolocation } from './hooks/useGeolocation';
+import { useCommandHistory } from './hooks/useCommandHistory';
+import { useNetworkStatus } from './hooks/useNetworkStatus';
+import { useUrlSync } from './hooks/useUrlSync';
+import { useSharedList } from './hooks/useSharedList';
+import { useGemThreshold } from './hooks/useGemThreshold';
+import { haversineDistance, isSamePlace } from './utils/geo';
+import { AREA_SEARCH_PAGE_SIZE, searchAreaPlaces } from './services/overpass';
+import { recategorize, rescoreLocation, scoreLocation } from './services/gemScore';
+import { parseUrlState } from './services/sharing';
+import { ChatPinLayer } from './services/chat';
+import { ListFilters } from './services/listFilters';
+import { findDuplicate } from './services/exchange';
+import { createVisit, isBlankVisit, matchLocation, searchLocations, todayIsoDate } from './services/journal';
+import {
+  createCollection,
+  getCollectionLocations,
+  toggleCollectionMembership,
+} from './services/collections';
+import {
+  addLocationsCommand,
+  importLocationsCommand,
+  removeLocationCommand,
+  reorderCollectionCommand,
+  reorderLocationsCommand,
+  updateLocationCommand,
+} from './services/commands';
+import { Type } from "@google/genai";
 
 const App = () => {
-  // Initialize locations from localStorage to persist data
-  const [locations, setLocations] = useState<Location[]>(() => {
-    try {
-      const saved = localStorage.getItem('hidden_gems_locations');
-      return saved ? JSON.parse(saved) : MOCK_LOCATIONS;
-    } catch (error) {
-      console.error('Error loading locations from localStorage:', error);
-      return MOCK_LOCATIONS;
-    }
-  });
+  // Saved locations live in IndexedDB (or localStorage as a fallback), see services/storage
+  const { locations, setLocations, collections, setCollections, isLoaded, issues: storageIssues, dismissIssues } = usePersistedLocations();
+  const { position: userPosition, status: geolocationStatus, error: geolocationError, start: startGeolocation } = useGeolocation();
+  // Every change to the saved list goes through here so it can be undone
+  const { execute, undo, redo, syncLocations, syncCollections, notice: historyNotice, dismissNotice } = useCommandHistory(locations, collections, setLocations, setCollections);
+  const networkStatus = useNetworkStatus();
+  // Selection, map view and filters start from the URL so links and reloads land in the same spot
+  const [initialUrlState] = useState(() => parseUrlState(window.location.search));
+  const { list: sharedList, error: sharedListError, close: closeSharedList } = useSharedList();
 
   const [suggestedLocations, setSuggestedLocations] = useState<Location[]>([]);
-  const [selectedLocationId, setSelectedLocationId] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [pendingSuggestions, setPendingSuggestions] = useState<Location[]>([]); // Later pages of the last area search
+  const [pendingAreas, setPendingAreas] = useState<Bounds[]>([]); // Parts of the last searched area not queried yet
+  const [suggestionsTruncated, setSuggestionsTruncated] = useState(false);
+  const [colorPinsByScore, setColorPinsByScore] = useState(false);
+  const [selectedLocationId, setSelectedLocationId] = useState<string | null>(initialUrlState.placeId);
+  const [searchQuery, setSearchQuery] = useState(initialUrlState.query);
   const [searchResult, setSearchResult] = useState<Location | null>(null);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const [chatPins, setChatPins] = useState<ChatPinLayer | null>(null);
+  const [chatFocus, setChatFocus] = useState<Pick<ChatPinLayer, 'conversationId' | 'messageId'> | null>(null); // Reply to scroll to when the chat opens
   const [isListOpen, setIsListOpen] = useState(false);
   const [isSearchingArea, setIsSearchingArea] = useState(false);
-  const [currentMapCenter, setCurrentMapCenter] = useState<Coordinate>(INITIAL_VIEW_STATE.center);
+  const [currentMapCenter, setCurrentMapCenter] = useState<Coordinate>(initialUrlState.view?.center || INITIAL_VIEW_STATE.center);
+  const [mapView, setMapView] = useState<MapViewState | null>(initialUrlState.view);
+  const [mapBounds, setMapBounds] = useState<Bounds | null>(null);
   const [draftLocation, setDraftLocation] = useState<Partial<Location> | null>(null);
+  const [editingLocationId, setEditingLocationId] = useState<string | null>(null);
   const [isSearching, setIsSearching] = useState(false);
+  const [activeCollectionId, setActiveCollectionId] = useState<string | null>(initialUrlState.collectionId);
+  const [listFilters, setListFilters] = useState<ListFilters>(initialUrlState.filters);
+  const [showAllCollectionsOnMap, setShowAllCollectionsOnMap] = useState(false);
+  const [itineraryPath, setItineraryPath] = useState<Coordinate[] | null>(null);
+  const [activeRoute, setActiveRoute] = useState<Route | null>(null);
+  // Map view offered in the offline download dialog; null while it is closed
+  const [offlineView, setOfflineView] = useState<{ bounds: Bounds; zoom: number } | null>(null);
+
+  const activeCollection = collections.find(c => c.id === activeCollectionId) || null;
+
+  // Locations in the active collection, in that collection's order (all saved places when none is active)
+  const activeLocations = useMemo(
+    () => activeCollection ? getCollectionLocations(activeCollection, locations) : locations,
+    [activeCollection, locations]
+  );
 
-  // Persist locations to localStorage whenever they change
+  // Distance from the user to every saved and suggested place, null until we have a fix
+  const distances = useMemo(() => {
+    if (!userPosition) return null;
+    const result: Record<string, number> = {};
+    [...locations, ...suggestedLocations].forEach(loc => {
+      result[loc.id] = haversineDistance(userPosition.coordinate, loc.coordinate);
+    });
+    return result;
+  }, [userPosition, locations, suggestedLocations]);
+
+  // Moving the gem threshold re-sorts places into gems and traps, except where the
+  // category was picked by hand
+  const gemThreshold = useGemThreshold();
+  const previousThreshold = useRef(gemThreshold);
   useEffect(() => {
-    try {
-      localStorage.setItem('hidden_gems_locations', JSON.stringify(locations));
-    } catch (error) {
-      console.error('Error saving locations to localStorage:', error);
-    }
-  }, [locations]);
+    const from = previousThreshold.current;
+    if (from === gemThreshold) return;
+    previousThreshold.current = gemThreshold;
+    syncLocations(prev => prev.map(loc => recategorize(loc, from, gemThreshold)));
+    setSuggestedLocations(prev => prev.map(loc => recategorize(loc, from, gemThreshold)));
+    setPendingSuggestions(prev => prev.map(loc => recategorize(loc, from, gemThreshold)));
+  }, [gemThreshold]);
 
   // Safety cleanup: ensure body styles are reset when no modals are open
   // This fixes issues where Framer Motion drags might leave cursor/select styles on body
@@ -57,11 +131,37 @@ const App = () => {
 
   // Filter locations based on search query (local filter)
   const filteredLocations = useMemo(() => {
-    if (!searchQuery) return locations;
-    return locations.filter(loc => 
-      loc.name.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  }, [locations, searchQuery]);
+    const mapLocations = showAllCollectionsOnMap ? locations : activeLocations;
+    if (!searchQuery) return mapLocations;
+    return mapLocations.filter(loc => matchLocation(loc, searchQuery));
+  }, [locations, activeLocations, showAllCollectionsOnMap, searchQuery]);
+
+  // Shared places already on our list, mapped to the saved place they match
+  const sharedSavedIds = useMemo(() => {
+    const matches = new Map<string, string>();
+    sharedList?.places.forEach(place => {
+      const duplicate = findDuplicate(place, locations);
+      if (duplicate) matches.set(place.id, duplicate.id);
+    });
+    return matches;
+  }, [sharedList, locations]);
+
+  const unsavedSharedPlaces = useMemo(
+    () => (sharedList ? sharedList.places.filter(p => !sharedSavedIds.has(p.id)) : []),
+    [sharedList, sharedSavedIds]
+  );
+
+  // Search-area suggestions and shared places not on our list yet, both shown as suggestion pins
+  const mapSuggestions = useMemo(
+    () => [...suggestedLocations, ...unsavedSharedPlaces],
+    [suggestedLocations, unsavedSharedPlaces]
+  );
+
+  // Saved places offered in the search dropdown, matched on name, tags, notes and visits
+  const localSearchMatches = useMemo(
+    () => (searchQuery.trim() ? searchLocations(locations, searchQuery) : []),
+    [locations, searchQuery]
+  );
 
   const handleLocationSelect = (location: Location) => {
     setSelectedLocationId(location.id);
@@ -72,26 +172,54 @@ const App = () => {
       ...newLocationData,
       id: Date.now().toString(),
     };
-    setLocations(prev => [...prev, newLocation]);
+    // Scored up front without touching the category: one picked by hand stays put
+    if (!newLocation.gemScore) {
+      const gemScore = scoreLocation(newLocation);
+      if (gemScore) newLocation.gemScore = gemScore;
+    }
+    execute(addLocationsCommand([newLocation], activeCollectionId));
     
     // Remove from suggestions if it was one
-    setSuggestedLocations(prev => prev.filter(l => l.name !== newLocation.name));
+    setSuggestedLocations(prev => prev.filter(l => !isSamePlace(l, newLocation)));
+    setPendingSuggestions(prev => prev.filter(l => !isSamePlace(l, newLocation)));
+    setChatPins(prev => prev && { ...prev, places: prev.places.filter(l => !isSamePlace(l, newLocation)) });
     
     setSelectedLocationId(newLocation.id); 
     setSearchResult(null);
   };
 
+  // Marking visited logs a dated visit; unmarking puts the place back on the list but
+  // keeps its history, except for a blank visit from today (an accidental tap)
   const handleToggleVisited = (id: string) => {
-    setLocations(prev => prev.map(loc => 
-      loc.id === id ? { ...loc, visited: !loc.visited } : loc
+    const loc = locations.find(l => l.id === id);
+    if (!loc) return;
+    if (!loc.visited) {
+      execute(updateLocationCommand(loc, { visited: true, visits: [...(loc.visits || []), createVisit()] }, `Marked ${loc.name} visited`));
+      return;
+    }
+    const last = loc.visits?.[loc.visits.length - 1];
+    const visits = last && last.date === todayIsoDate() && isBlankVisit(last) ? loc.visits!.slice(0, -1) : loc.visits;
+    execute(updateLocationCommand(loc, { visited: false, visits }, `Marked ${loc.name} not visited`));
+  };
+
+  const handleUpdateLocation = (id: string, patch: Partial<Location>) => {
+    const loc = locations.find(l => l.id === id);
+    if (loc) execute(updateLocationCommand(loc, patch));
+  };
+
+  // Background refresh from the place's insights; not something to undo. The gem score
+  // is redone with the new reviews, and the category follows it unless set by hand.
+  const handleInsightsFetched = (id: string, externalRatings: ExternalRating[], assessment?: GemSignals['ai']) => {
+    syncLocations(prev => prev.map(loc =>
+      loc.id === id ? rescoreLocation({ ...loc, externalRatings }, assessment && { ai: assessment }) : loc
     ));
   };
 
   const handleRemoveLocation = (id: string) => {
     // 1. Check if it's a saved location
-    const isSaved = locations.some(l => l.id === id);
-    if (isSaved) {
-        setLocations(prev => prev.filter(l => l.id !== id));
+    const saved = locations.find(l => l.id === id);
+    if (saved) {
+        execute(removeLocationCommand(saved, { locations, collections }));
         if (selectedLocationId === id) setSelectedLocationId(null);
         return;
     }
@@ -113,41 +241,53 @@ const App = () => {
   };
 
   const handleReorder = (newLocations: Location[]) => {
-    setLocations(newLocations);
+    // Inside a collection only that collection's order changes
+    const nextIds = newLocations.map(l => l.id);
+    if (activeCollection) {
+        execute(reorderCollectionCommand(activeCollection.id, activeCollection.locationIds, nextIds, activeCollection.name));
+        return;
+    }
+    execute(reorderLocationsCommand(locations.map(l => l.id), nextIds));
   };
 
-  const handleSuggestionSelect = (suggestion: SearchSuggestion) => {
-      // 1. Parse Name
-      // Nominatim addresses are detailed. We prefer specific venue names.
-      let name = suggestion.display_name.split(',')[0];
-      if (suggestion.address) {
-          name = suggestion.address.amenity || suggestion.address.building || suggestion.address.shop || suggestion.address.tourism || name;
-      }
+  const handleImportLocations = (imported: Location[]) => {
+    execute(importLocationsCommand(imported, activeCollectionId));
+  };
 
-      // 2. Parse Type
-      let placeType: PlaceType = 'Other';
-      if (suggestion.type === 'restaurant') placeType = 'Restaurant';
-      else if (suggestion.type === 'cafe') placeType = 'Cafe';
-      else if (suggestion.type === 'bar' || suggestion.type === 'pub') placeType = 'Bar';
-      else if (suggestion.class === 'tourism') placeType = 'Activity';
-      
-      const newTempLocation: Location = {
+  const handleCreateCollection = (name: string) => {
+    const collection = createCollection(name, collections);
+    syncCollections(prev => [...prev, collection]);
+    setActiveCollectionId(collection.id);
+  };
+
+  const handleDeleteCollection = (id: string) => {
+    // Only the grouping is deleted; its places stay in the saved list
+    syncCollections(prev => prev.filter(c => c.id !== id));
+    if (activeCollectionId === id) setActiveCollectionId(null);
+  };
+
+  const handleToggleCollection = (locationId: string, collectionId: string) => {
+    syncCollections(prev => toggleCollectionMembership(prev, collectionId, locationId));
+  };
+
+  const handleSuggestionSelect = (suggestion: GeocodeResult) => {
+      const newTempLocation: Location = rescoreLocation({
           id: 'temp-search-result',
-          name: name,
-          coordinate: { lat: parseFloat(suggestion.lat), lng: parseFloat(suggestion.lon) },
-          description: `Found at: ${suggestion.display_name}`,
-          category: 'Hidden Gem',
-          placeType: placeType,
-          image: `https://picsum.photos/seed/${suggestion.place_id}/600/400`,
+          name: suggestion.name,
+          coordinate: suggestion.coordinate,
+          description: `Found at: ${suggestion.displayName}`,
+          category: 'Hidden Gem', // Until scored
+          placeType: suggestion.placeType || 'Other',
+          image: '',
           visited: false,
-          address: suggestion.display_name
-      };
+          address: suggestion.displayName
+      });
 
       setSearchResult(newTempLocation);
       setSelectedLocationId(newTempLocation.id);
       
       // Update query to match selection
-      setSearchQuery(name);
+      setSearchQuery(suggestion.name);
   };
 
   const handleGlobalSearch = async () => {
@@ -155,17 +295,15 @@ const App = () => {
     setIsSearching(true);
 
     // 1. Local Check
-    const localMatch = locations.find(l => l.name.toLowerCase().includes(searchQuery.toLowerCase()));
+    const localMatch = localSearchMatches[0];
     if (localMatch) {
-        setSelectedLocationId(localMatch.id);
+        setSelectedLocationId(localMatch.location.id);
         setSearchResult(null);
         setIsSearching(false);
         return;
     }
 
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        
         // 2. AI Search for precise details
         const prompt = `
           Search for the place "${searchQuery}" in Singapore. 
@@ -176,7 +314,8 @@ const App = () => {
           - address: The full address including postal code.
           - coordinates: { lat: number, lng: number } (Try to find the exact coordinates. If not found, return null).
           - description: A short 1 sentence description.
-          - category: "Hidden Gem" or "Tourist Trap" (Guess based on popularity).
+          - gemScore: 0-100, where 0 is a tourist trap (crowded, overpriced, aimed at visitors) and 100 a hidden gem (loved by locals, little known to tourists). Null if you cannot tell.
+          - gemReason: Why, in under 12 words.
           - placeType: "Restaurant", "Bar", "Cafe", "Activity", or "Other".
 
           Important:
@@ -186,9 +325,10 @@ const App = () => {
           Response format: JSON only.
         `;
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
+        const response = await generate({
+            task: 'search',
             contents: prompt,
+            cache: { place: searchQuery, ttlMs: 7 * 24 * 60 * 60 * 1000 },
             config: {
                 tools: [{ googleSearch: {} }],
                 responseMimeType: 'application/json',
@@ -206,73 +346,61 @@ const App = () => {
                       nullable: true
                     },
                     description: { type: Type.STRING },
-                    category: { type: Type.STRING, enum: ['Hidden Gem', 'Tourist Trap'] },
+                    gemScore: { type: Type.INTEGER, nullable: true },
+                    gemReason: { type: Type.STRING, nullable: true },
                     placeType: { type: Type.STRING, enum: ['Restaurant', 'Bar', 'Cafe', 'Activity', 'Other'] }
                   },
-                  required: ['name', 'address', 'description', 'category', 'placeType']
+                  required: ['name', 'address', 'description', 'placeType']
                 }
             }
         });
 
-        const jsonText = response.text;
-        if (!jsonText) throw new Error("No AI response");
+        if (!response.text) throw new Error("No AI response");
         
-        const result = JSON.parse(jsonText);
+        const result = parseJsonResponse<any>(response);
         
         let finalLat = result.coordinates?.lat;
         let finalLng = result.coordinates?.lng;
 
         // 3. Validation / Fallback Geocoding
         if (!finalLat || !finalLng) {
-            let query = result.address || result.name + " Singapore";
-            
-            // Prefer postal code if available in address (Standard Singapore 6-digit postal code)
-            const postalMatch = result.address?.match(/\d{6}/);
-            if (postalMatch) {
-                query = postalMatch[0] + " Singapore"; 
-                console.log("Geocoding using postal code:", query);
-            } else {
-                console.log("Geocoding using full address:", query);
-            }
-
-            const geoRes = await fetch(`https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&limit=1`);
-            const geoData = await geoRes.json();
-            
-            if (geoData && geoData.length > 0) {
-                finalLat = parseFloat(geoData[0].lat);
-                finalLng = parseFloat(geoData[0].lon);
+            const geocoded = await geocodePlace({ name: result.name, address: result.address });
+            if (geocoded) {
+                finalLat = geocoded.coordinate.lat;
+                finalLng = geocoded.coordinate.lng;
             }
         }
 
         if (finalLat && finalLng) {
-             const newTempLocation: Location = {
+             const aiScore = typeof result.gemScore === 'number' && result.gemScore >= 0 && result.gemScore <= 100
+                ? { score: Math.round(result.gemScore), reason: result.gemReason || 'Judged from search results' }
+                : undefined;
+             const newTempLocation: Location = rescoreLocation({
                 id: 'temp-search-result',
                 name: result.name || searchQuery,
                 coordinate: { lat: finalLat, lng: finalLng },
                 description: result.description || `Found at ${result.address}`,
-                category: result.category || 'Hidden Gem',
+                category: 'Hidden Gem', // Until scored
                 placeType: result.placeType || 'Other',
-                image: `https://picsum.photos/seed/${Date.now()}/600/400`,
+                image: '',
                 visited: false,
                 address: result.address
-            };
+            }, aiScore && { ai: aiScore });
             setSearchResult(newTempLocation);
             setSelectedLocationId(newTempLocation.id);
         } else {
-             const fallbackRes = await fetch(`https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(searchQuery + ' Singapore')}&limit=1`);
-             const fallbackData = await fallbackRes.json();
-             if (fallbackData && fallbackData.length > 0) {
-                 const best = fallbackData[0];
-                 const newTempLocation: Location = {
+             const best = await geocodePlace({ name: searchQuery });
+             if (best) {
+                 const newTempLocation: Location = rescoreLocation({
                     id: 'temp-search-result',
                     name: best.name || searchQuery,
-                    coordinate: { lat: parseFloat(best.lat), lng: parseFloat(best.lon) },
-                    description: `Found: ${best.display_name}`,
-                    category: 'Hidden Gem',
-                    placeType: 'Other',
-                    image: `https://picsum.photos/seed/${Date.now()}/600/400`,
+                    coordinate: best.coordinate,
+                    description: `Found: ${best.displayName}`,
+                    category: 'Hidden Gem', // Until scored
+                    placeType: best.placeType || 'Other',
+                    image: '',
                     visited: false,
-                };
+                });
                 setSearchResult(newTempLocation);
                 setSelectedLocationId(newTempLocation.id);
              } else {
@@ -282,78 +410,59 @@ const App = () => {
 
     } catch (e) {
         console.error("Global search error", e);
-        alert("Search failed. Please try again.");
+        alert(isQuotaError(e) ? "AI search is over its usage limit. Please try again later." : "Search failed. Please try again.");
     } finally {
         setIsSearching(false);
     }
   };
 
-  // Fetch places using Overpass API
-  const handleSearchArea = async (bounds: any) => {
+  // Named places of the list's chosen types in view, nearest the middle first. The
+  // first page goes on the map; the rest wait behind "Show more", as do the parts of a
+  // dense area one query could not cover.
+  const handleSearchArea = async (bounds: Bounds) => {
       setIsSearchingArea(true);
       try {
-          const s = bounds.getSouth();
-          const w = bounds.getWest();
-          const n = bounds.getNorth();
-          const e = bounds.getEast();
-          
-          // Overpass query
-          const query = `
-            [out:json][timeout:25];
-            (
-              node["name"]["amenity"~"restaurant|cafe|bar|pub"](${s},${w},${n},${e});
-              node["name"]["tourism"~"attraction|viewpoint|museum"](${s},${w},${n},${e});
-            );
-            out body 20;
-          `;
-
-          const response = await fetch('https://overpass-api.de/api/interpreter', {
-              method: 'POST',
-              headers: {
-                  'Content-Type': 'application/x-www-form-urlencoded'
-              },
-              body: `data=${encodeURIComponent(query)}`
-          });
-          
-          if (!response.ok) {
-              throw new Error(`Overpass API Error: ${response.status}`);
+          const { places, moreAreas, truncated } = await searchAreaPlaces(bounds, { types: listFilters.types, exclude: locations });
+          setSuggestedLocations(places.slice(0, AREA_SEARCH_PAGE_SIZE));
+          setPendingSuggestions(places.slice(AREA_SEARCH_PAGE_SIZE));
+          setPendingAreas(moreAreas);
+          setSuggestionsTruncated(truncated);
+          if (places.length === 0) {
+              console.log("No new places found here.");
           }
+      } catch (error) {
+          console.error("Overpass API error", error);
+      } finally {
+          setIsSearchingArea(false);
+      }
+  };
 
-          const data = await response.json();
-          
-          if (data && data.elements) {
-              const newSuggestions: Location[] = data.elements
-                .filter((el: any) => 
-                    // Filter out places already in saved list
-                    !locations.some(l => l.name === el.tags.name)
-                )
-                .map((el: any) => {
-                  let type: PlaceType = 'Other';
-                  const amenity = el.tags.amenity;
-                  const tourism = el.tags.tourism;
-
-                  if (amenity === 'restaurant') type = 'Restaurant';
-                  else if (amenity === 'cafe') type = 'Cafe';
-                  else if (amenity === 'bar' || amenity === 'pub') type = 'Bar';
-                  else if (tourism === 'attraction' || tourism === 'museum') type = 'Activity';
-
-                  return {
-                      id: `sugg-${el.id}`,
-                      name: el.tags.name,
-                      coordinate: { lat: el.lat, lng: el.lon },
-                      description: 'Found nearby. Click to view details or add to your list.',
-                      category: 'Hidden Gem', // Default assumption
-                      placeType: type,
-                      image: `https://picsum.photos/seed/${el.id}/600/400`,
-                      visited: false
-                  } as Location;
-              });
-              
-              setSuggestedLocations(newSuggestions);
-              if (newSuggestions.length === 0) {
-                  console.log("No new places found here.");
-              }
+  const handleShowMoreSuggestions = async () => {
+      if (pendingSuggestions.length > 0) {
+          setSuggestedLocations(prev => [...prev, ...pendingSuggestions.slice(0, AREA_SEARCH_PAGE_SIZE)]);
+          setPendingSuggestions(prev => prev.slice(AREA_SEARCH_PAGE_SIZE));
+          return;
+      }
+
+      // Everything fetched is on the map: query the next part of the area, skipping
+      // parts that only hold places already shown
+      setIsSearchingArea(true);
+      try {
+          const shown = [...locations, ...suggestedLocations];
+          let areas = pendingAreas;
+          let found: Location[] = [];
+          let truncated = suggestionsTruncated;
+          while (found.length === 0 && areas.length > 0) {
+              const [area, ...rest] = areas;
+              const result = await searchAreaPlaces(area, { types: listFilters.types, exclude: shown });
+              areas = [...result.moreAreas, ...rest];
+              found = result.places;
+              truncated = truncated || result.truncated;
           }
+          setSuggestedLocations(prev => [...prev, ...found.slice(0, AREA_SEARCH_PAGE_SIZE)]);
+          setPendingSuggestions(found.slice(AREA_SEARCH_PAGE_SIZE));
+          setPendingAreas(areas);
+          setSuggestionsTruncated(truncated);
       } catch (error) {
           console.error("Overpass API error", error);
       } finally {
@@ -370,10 +479,36 @@ const App = () => {
           coordinate: location.coordinate,
           image: location.image,
           visited: false,
-          address: location.address
+          address: location.address,
+          ...(location.tags && { tags: location.tags }),
+          ...(location.openingHours && { openingHours: location.openingHours }),
+          ...(location.priceLevel && { priceLevel: location.priceLevel }),
+          ...(location.phone && { phone: location.phone }),
+          ...(location.website && { website: location.website }),
+          ...(location.gemScore && { gemScore: location.gemScore })
       });
   };
 
+  // The sharer's stars stay theirs; everything else is copied
+  const handleAddAllShared = () => {
+    if (unsavedSharedPlaces.length === 0) return;
+    const stamp = Date.now();
+    const added: Location[] = unsavedSharedPlaces.map(({ rating, ...place }, i) => ({
+      ...place,
+      id: `${stamp}-${i}`,
+    }));
+    execute(addLocationsCommand(added, activeCollectionId));
+  };
+
+  const handleSelectShared = (place: Location) => {
+    setSelectedLocationId(sharedSavedIds.get(place.id) || place.id);
+  };
+
+  const handleCloseSharedList = () => {
+    if (selectedLocationId?.startsWith('shared-')) setSelectedLocationId(null);
+    closeSharedList();
+  };
+
   const handleMapClick = (coordinate: Coordinate) => {
     setDraftLocation({ coordinate });
     setIsAddModalOpen(true);
@@ -384,18 +519,90 @@ const App = () => {
     setIsAddModalOpen(true);
   };
 
+  // A chat suggestion that is already saved opens the saved place instead
+  const handleShowFromChat = (location: Location) => {
+    setSelectedLocationId(location.id);
+    handleCloseChat();
+  };
+
+  const handleCloseChat = () => {
+    setIsChatOpen(false);
+    setChatFocus(null);
+  };
+
+  const handleShowChatPins = (layer: ChatPinLayer) => {
+    setChatPins(layer);
+    handleCloseChat();
+  };
+
+  const handleAddChatPin = ({ id, ...place }: Location) => {
+    handleAddFromChat(place);
+  };
+
+  const handleOpenChatPin = () => {
+    if (!chatPins) return;
+    setChatFocus({ conversationId: chatPins.conversationId, messageId: chatPins.messageId });
+    setIsChatOpen(true);
+  };
+
+  // Pins already on the list are skipped; the rest are scored and added in one undoable step
+  const handleAddAllChatPins = () => {
+    if (!chatPins) return;
+    const stamp = Date.now();
+    const added = chatPins.places
+      .filter(pin => !locations.some(l => isSamePlace(l, pin)))
+      .map((pin, i): Location => {
+        const place = { ...pin, id: `${stamp}-${i}` };
+        const gemScore = scoreLocation(place);
+        return gemScore ? { ...place, gemScore } : place;
+      });
+    if (added.length > 0) execute(addLocationsCommand(added, activeCollectionId));
+    setChatPins(null);
+  };
+
   const handleOpenAddModal = () => {
     setDraftLocation(null); 
     setIsAddModalOpen(true);
   };
 
+  const handleEditLocation = (id: string) => {
+    setDraftLocation(null);
+    setEditingLocationId(id);
+    setIsAddModalOpen(true);
+  };
+
+  const handleCloseAddModal = () => {
+    setIsAddModalOpen(false);
+    setEditingLocationId(null);
+  };
+
+  const handleMoveLocation = (id: string, coordinate: Coordinate) => {
+    handleUpdateLocation(id, { coordinate });
+  };
+
   // Determine which location object to pass to LocationCard
   const selectedLocation = 
     locations.find(l => l.id === selectedLocationId) || 
     suggestedLocations.find(l => l.id === selectedLocationId) ||
+    unsavedSharedPlaces.find(l => l.id === selectedLocationId) ||
     (selectedLocationId === 'temp-search-result' ? searchResult : null);
 
   const isSelectedLocationSaved = selectedLocation ? locations.some(l => l.id === selectedLocation.id) : false;
+  const isSelectedLocationShared = selectedLocation ? unsavedSharedPlaces.some(l => l.id === selectedLocation.id) : false;
+
+  // Only places that still exist after a reload go in the URL; search results and suggestions do not
+  useUrlSync({
+    placeId: isLoaded ? (isSelectedLocationSaved || isSelectedLocationShared ? selectedLocation!.id : null) : initialUrlState.placeId,
+    view: mapView,
+    query: searchQuery,
+    collectionId: activeCollectionId,
+    filters: listFilters,
+  });
+
+  const editingLocation = editingLocationId ? locations.find(l => l.id === editingLocationId) || null : null;
+  const selectedDistance = selectedLocation && userPosition
+    ? haversineDistance(userPosition.coordinate, selectedLocation.coordinate)
+    : undefined;
 
   return (
     <div className="w-full h-full relative overflow-hidden bg-zinc-950">
@@ -403,14 +610,37 @@ const App = () => {
       <div className="absolute inset-0 z-0">
         <MapBoard 
           locations={filteredLocations}
-          suggestedLocations={suggestedLocations}
+          suggestedLocations={mapSuggestions}
           selectedLocationId={selectedLocationId}
           onMarkerClick={handleLocationSelect}
           onCenterChange={setCurrentMapCenter}
+          onViewChange={setMapView}
+          onBoundsChange={setMapBounds}
+          initialView={initialUrlState.view || undefined}
           onMapClick={handleMapClick}
           onSearchArea={handleSearchArea}
           isSearchingArea={isSearchingArea}
+          suggestionsRemaining={pendingSuggestions.length}
+          suggestionsTruncated={suggestionsTruncated}
+          hasMoreSuggestionAreas={pendingAreas.length > 0}
+          onShowMoreSuggestions={handleShowMoreSuggestions}
+          colorByGemScore={colorPinsByScore}
+          chatPins={chatPins?.places}
+          onAddChatPin={handleAddChatPin}
+          onOpenChatPin={handleOpenChatPin}
+          onAddAllChatPins={handleAddAllChatPins}
+          onDismissChatPins={() => setChatPins(null)}
           searchResult={searchResult}
+          collections={collections}
+          activeCollectionId={showAllCollectionsOnMap ? null : activeCollectionId}
+          itineraryPath={itineraryPath}
+          directionsPath={activeRoute?.geometry}
+          userPosition={userPosition}
+          geolocationStatus={geolocationStatus}
+          geolocationError={geolocationError}
+          onRequestLocation={startGeolocation}
+          onLocationMove={handleMoveLocation}
+          onDownloadArea={setOfflineView}
         />
       </div>
 
@@ -423,6 +653,8 @@ const App = () => {
             onChange={setSearchQuery}
             onSearch={handleGlobalSearch}
             onSelectResult={handleSuggestionSelect}
+            localMatches={localSearchMatches}
+            onSelectLocal={handleLocationSelect}
           />
           {isSearching && (
               <div className="absolute top-4 right-8 text-zinc-400">
@@ -431,6 +663,46 @@ const App = () => {
           )}
       </div>
 
+      <StorageIssueBanner issues={storageIssues} onDismiss={dismissIssues} />
+
+      <NetworkBanner status={networkStatus} />
+
+      <SharedListPanel
+        list={sharedList}
+        error={sharedListError}
+        savedPlaceIds={new Set(sharedSavedIds.keys())}
+        selectedId={selectedLocationId}
+        onSelect={handleSelectShared}
+        onAdd={handleAddSearchResult}
+        onAddAll={handleAddAllShared}
+        onClose={handleCloseSharedList}
+      />
+
+      <UndoToast notice={historyNotice} onUndo={undo} onRedo={redo} onDismiss={dismissNotice} />
+
+      <GemScoreControl colorByScore={colorPinsByScore} onColorByScoreChange={setColorPinsByScore} />
+
+      {/* Active Collection Toggle (sits right of the map's locate button) */}
+      {activeCollection && (
+        <div className="absolute bottom-8 left-20 z-[1000]">
+          <button
+            onClick={() => setShowAllCollectionsOnMap(prev => !prev)}
+            className="flex items-center gap-2 px-4 py-2 bg-zinc-900/90 backdrop-blur-xl border border-zinc-700 rounded-full shadow-lg text-xs font-medium text-zinc-200 hover:bg-zinc-800 transition-colors"
+            title="Toggle which places are shown on the map"
+          >
+            <Layers size={14} />
+            {showAllCollectionsOnMap ? (
+              'Showing all places'
+            ) : (
+              <>
+                <span className="w-2 h-2 rounded-full" style={{ background: activeCollection.color }} />
+                {activeCollection.name}
+              </>
+            )}
+          </button>
+        </div>
+      )}
+
       {/* Action Buttons Container */}
       <div className="absolute bottom-8 right-6 z-[1000] flex flex-col gap-4">
         {/* List View Button */}
@@ -467,32 +739,64 @@ const App = () => {
         location={selectedLocation} 
         onClose={() => setSelectedLocationId(null)} 
         onToggleVisited={handleToggleVisited}
+        onUpdate={handleUpdateLocation}
+        onInsightsFetched={handleInsightsFetched}
+        onEdit={handleEditLocation}
         onAdd={handleAddSearchResult}
         onRemove={handleRemoveLocation}
         isSaved={isSelectedLocationSaved}
+        collections={collections}
+        onToggleCollection={handleToggleCollection}
+        mapCenter={currentMapCenter}
+        userPosition={userPosition?.coordinate}
+        distance={selectedDistance}
+        onRouteChange={setActiveRoute}
       />
 
       {/* Add Location Modal */}
       <AddLocationModal 
         isOpen={isAddModalOpen} 
-        onClose={() => setIsAddModalOpen(false)}
+        onClose={handleCloseAddModal}
         onAdd={handleAddLocation}
         currentCenter={currentMapCenter}
         prefillData={draftLocation}
+        targetCollectionName={activeCollection?.name}
+        editingLocation={editingLocation}
+        onUpdate={handleUpdateLocation}
+      />
+
+      {/* Offline Map Downloads */}
+      <OfflineAreasModal
+        isOpen={offlineView !== null}
+        onClose={() => setOfflineView(null)}
+        view={offlineView}
       />
 
       {/* AI Chat Modal */}
       <AIChatModal
         isOpen={isChatOpen}
-        onClose={() => setIsChatOpen(false)}
+        onClose={handleCloseChat}
         onAddPlace={handleAddFromChat}
+        onShowSaved={handleShowFromChat}
+        locations={locations}
+        mapCenter={currentMapCenter}
+        mapBounds={mapBounds}
+        selectedLocation={selectedLocation}
+        onShowOnMap={handleShowChatPins}
+        focusMessage={chatFocus}
       />
 
       {/* List View Drawer */}
       <ListView 
         isOpen={isListOpen}
         onClose={() => setIsListOpen(false)}
-        locations={locations}
+        locations={activeLocations}
+        allLocations={locations}
+        collections={collections}
+        activeCollectionId={activeCollectionId}
+        onSelectCollection={setActiveCollectionId}
+        onCreateCollection={handleCreateCollection}
+        onDeleteCollection={handleDeleteCollection}
         onToggleVisited={handleToggleVisited}
         onSelectLocation={(loc) => {
             handleLocationSelect(loc);
@@ -500,6 +804,14 @@ const App = () => {
         }}
         onReorder={handleReorder}
         onRemove={handleRemoveLocation}
+        onImport={handleImportLocations}
+        mapCenter={currentMapCenter}
+        onPreviewRoute={setItineraryPath}
+        userPosition={userPosition?.coordinate}
+        distances={distances}
+        onRequestLocation={startGeolocation}
+        filters={listFilters}
+        onFiltersChange={setListFilters}
       />
     </div>
   );
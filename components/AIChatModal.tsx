@@ -1,54 +1,87 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { X, Send, Sparkles, ExternalLink, PlusCircle, MapPin } from 'lucide-react';
+import { X, Send, Sparkles, ExternalLink, PlusCircle, MapPin, History, MessageSquarePlus, Trash2, ChevronLeft, Eye, Check, Square, Loader2, MapPinned } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { GoogleGenAI, FunctionDeclaration, Type } from "@google/genai";
-import { Location } from '../types';
+import { Bounds, Coordinate, Location } from '../types';
+import { AiError, formatModelName, getAiTransportName, getModelForTask } from '../services/ai';
+import {
+  CONTEXT_SHARING_OPTIONS,
+  ChatContextSharing,
+  ChatMessage,
+  ChatPinLayer,
+  appendMessage,
+  askAssistant,
+  createChatPinLayer,
+  createConversation,
+  createMessage,
+  describeChatContext,
+  findSavedPlace,
+  loadContextSharing,
+  locatePlaces,
+  saveContextSharing,
+  summarizeOlderTurns,
+  updateMessage,
+} from '../services/chat';
+import { formatTimeAgo } from '../utils/time';
+import { useAiUsage } from '../hooks/useAiUsage';
+import { useConversations } from '../hooks/useConversations';
 
 interface AIChatModalProps {
   isOpen: boolean;
   onClose: () => void;
   onAddPlace: (place: Partial<Location>) => void;
+  onShowSaved: (location: Location) => void;
+  // What the assistant may be told about, depending on the sharing toggles
+  locations: Location[];
+  mapCenter: Coordinate;
+  mapBounds: Bounds | null;
+  selectedLocation: Location | null;
+  onShowOnMap: (layer: ChatPinLayer) => void;
+  focusMessage?: Pick<ChatPinLayer, 'conversationId' | 'messageId'> | null; // Opened from a chat pin
 }
 
-interface Message {
-  role: 'user' | 'model';
-  text: string;
-  sources?: { uri: string; title: string }[];
-  placeSuggestions?: Partial<Location>[];
-}
+const GREETING: ChatMessage = {
+  id: 'greeting',
+  role: 'model',
+  text: 'Hello! I am your AI travel assistant. Ask me to recommend some hidden gems or interesting spots in Singapore!',
+  createdAt: new Date(0).toISOString(),
+};
 
-const displayPlacesTool: FunctionDeclaration = {
-  name: "display_places",
-  description: "Display a list of recommended places to the user with structured details. Use this whenever the user asks for recommendations or mentions specific places.",
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      places: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            description: { type: Type.STRING },
-            category: { type: Type.STRING, enum: ['Hidden Gem', 'Tourist Trap'], description: "Infer 'Hidden Gem' or 'Tourist Trap' from context." },
-            placeType: { type: Type.STRING, enum: ['Restaurant', 'Bar', 'Cafe', 'Activity', 'Other'] },
-            address: { type: Type.STRING, description: "The specific street address or distinct location area of the place." },
-          },
-          required: ['name', 'description', 'category', 'placeType']
-        }
-      }
-    },
-    required: ['places']
+const errorText = (error: unknown) => {
+  if (error instanceof AiError) {
+    if (error.kind === 'quota') return "I've reached my daily usage limit for AI responses. Please try again later.";
+    if (error.kind === 'bad-request') return "I'm having trouble processing that request. Please try rephrasing.";
+    if (error.kind === 'network') return "I can't reach the AI service right now. Check your connection and try again.";
   }
+  return "Sorry, I encountered an error. Please try again.";
 };
 
-export const AIChatModal: React.FC<AIChatModalProps> = ({ isOpen, onClose, onAddPlace }) => {
+export const AIChatModal: React.FC<AIChatModalProps> = ({
+  isOpen,
+  onClose,
+  onAddPlace,
+  onShowSaved,
+  locations,
+  mapCenter,
+  mapBounds,
+  selectedLocation,
+  onShowOnMap,
+  focusMessage,
+}) => {
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<Message[]>([
-    { role: 'model', text: 'Hello! I am your AI travel assistant. Ask me to recommend some hidden gems or interesting spots in Singapore!' }
-  ]);
   const [isLoading, setIsLoading] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [sharing, setSharing] = useState<ChatContextSharing>(loadContextSharing);
+  const [streamingText, setStreamingText] = useState('');
+  const [locatingIds, setLocatingIds] = useState<Set<string>>(new Set()); // Replies whose cards are being pinned
+  const [unplacedIds, setUnplacedIds] = useState<Set<string>>(new Set()); // Replies with nothing to show on the map
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // The reply so far, read back when the user stops it
+  const streamedRef = useRef('');
+  const usage = useAiUsage();
+  const { conversations, active, open, save, update, remove } = useConversations();
+  const messages = active ? active.messages : [];
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -56,107 +89,142 @@ export const AIChatModal: React.FC<AIChatModalProps> = ({ isOpen, onClose, onAdd
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages.length, isOpen, showHistory, streamingText]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Coming back from a chat pin: open its conversation at the reply that suggested it
+  useEffect(() => {
+    if (!isOpen || !focusMessage) return;
+    open(focusMessage.conversationId);
+    setShowHistory(false);
+    setHighlightedId(focusMessage.messageId);
+  }, [isOpen, focusMessage]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    document.getElementById(`chat-message-${highlightedId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedId, active?.id]);
+
+  const toggleSharing = (key: keyof ChatContextSharing) => {
+    const next = { ...sharing, [key]: !sharing[key] };
+    setSharing(next);
+    saveContextSharing(next);
+  };
 
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
 
-    const userMessage = input;
+    const userMessage = createMessage('user', input);
     setInput('');
-    setMessages(prev => [...prev, { role: 'user', text: userMessage }]);
+    // Every turn is added to the newest copy, so cards pinned meanwhile aren't written over
+    const started = active && update(active.id, current => appendMessage(current, userMessage));
+    const conversation = started || appendMessage(createConversation(), userMessage);
+    if (!started) save(conversation);
+    open(conversation.id);
+    let latest = conversation;
+    const addTurn = (message: ChatMessage) => {
+      latest = update(conversation.id, current => appendMessage(current, message)) ?? latest;
+    };
     setIsLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    streamedRef.current = '';
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      // Step 1: Search for information (Text only)
-      // We use gemini-3-flash-preview for better search grounding and reasoning
-      const searchResponse = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: `${userMessage}
-        
-        IMPORTANT: Provide the response in a clear, informative text format. 
-        If recommending places, mention their names, what they are (cafe, park, etc.), and why they are good. 
-        If specific addresses are found, mention them.`,
-        config: {
-          tools: [{ googleSearch: {} }],
+      // Read at send time so the answer fits the map as it is now
+      const context = describeChatContext(
+        { locations, mapCenter, mapBounds, selected: selectedLocation },
+        sharing
+      );
+      const reply = await askAssistant(conversation, {
+        context,
+        signal: controller.signal,
+        onText: text => {
+          streamedRef.current = text;
+          setStreamingText(text);
         },
       });
-
-      const text = searchResponse.text || "I couldn't find any specific recommendations.";
-      
-      // Extract grounding sources if any
-      let sources: { uri: string; title: string }[] = [];
-      const groundingChunks = searchResponse.candidates?.[0]?.groundingMetadata?.groundingChunks;
-      if (groundingChunks) {
-        sources = groundingChunks
-          .map((chunk: any) => chunk.web)
-          .filter((web: any) => web && web.uri && web.title);
+      addTurn(reply);
+      if (reply.placeSuggestions?.some(p => !p.coordinate)) {
+        locateSuggestions(conversation.id, reply).catch(error => console.warn('Locating chat suggestions failed', error));
+      }
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        // Stopped: keep what had already arrived
+        if (streamedRef.current.trim()) {
+          addTurn(createMessage('model', streamedRef.current, { isStopped: true }));
+        }
+      } else {
+        console.error(error);
+        addTurn(createMessage('model', errorText(error), { isError: true }));
       }
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+      setStreamingText('');
+    }
 
-      let placeSuggestions: Partial<Location>[] = [];
+    // Fold the oldest turns into the summary once the thread outgrows the budget. Runs
+    // after the reply, so it never slows an answer down.
+    summarizeOlderTurns(latest)
+      .then(folded => {
+        if (folded) update(conversation.id, current => ({ ...current, ...folded }));
+      })
+      .catch(error => console.warn('Summarising the conversation failed', error));
+  };
 
-      // Step 2: Extract Structured Data (Function Calling)
-      // Only attempt extraction if the response is substantial
-      if (text.length > 50) {
-        try {
-            // We use gemini-3-flash-preview again for robust extraction and forcing the tool call
-            const extractResponse = await ai.models.generateContent({
-                model: 'gemini-3-flash-preview',
-                contents: `You are a data extraction assistant.
-                Analyze the following text. If it contains specific recommendations for places, restaurants, attractions, or shops, extract them into a structured list using the 'display_places' tool.
-                
-                - Infer the Category ('Hidden Gem' vs 'Tourist Trap') based on the description (e.g. "popular", "crowded" -> Trap; "quiet", "local" -> Gem).
-                - Infer the Place Type ('Restaurant', 'Bar', 'Cafe', 'Activity', 'Other').
-                - Extract the Address if present.
-                
-                TEXT TO ANALYZE:
-                ${text}`,
-                config: {
-                    tools: [{ functionDeclarations: [displayPlacesTool] }],
-                    toolConfig: {
-                        functionCallingConfig: {
-                            mode: 'ANY', // Force the model to try and use the tool
-                            allowedFunctionNames: ['display_places']
-                        }
-                    }
-                },
-            });
+  // Geocodes a reply's cards and keeps the pins, so Add opens with the pin already placed
+  const locateSuggestions = async (conversationId: string, message: ChatMessage) => {
+    setLocatingIds(prev => new Set(prev).add(message.id));
+    try {
+      const located = await locatePlaces(message.placeSuggestions || []);
+      update(conversationId, latest => updateMessage(latest, message.id, { placeSuggestions: located }));
+      return located;
+    } finally {
+      setLocatingIds(prev => {
+        const next = new Set(prev);
+        next.delete(message.id);
+        return next;
+      });
+    }
+  };
 
-            if (extractResponse.functionCalls) {
-                for (const call of extractResponse.functionCalls) {
-                    if (call.name === 'display_places') {
-                        const args = call.args as any;
-                        if (args.places && Array.isArray(args.places)) {
-                            placeSuggestions = args.places;
-                        }
-                    }
-                }
-            }
-        } catch (extractError) {
-            console.warn("Structured extraction failed", extractError);
-            // Don't fail the whole chat, just log it. The user still sees the text.
-        }
+  // Pins every card of a reply on the map, geocoding the ones that aren't yet
+  const handleShowOnMap = async (message: ChatMessage) => {
+    if (!active) return;
+    const conversation = active;
+    let places = message.placeSuggestions || [];
+    if (places.some(p => !p.coordinate)) {
+      try {
+        places = await locateSuggestions(conversation.id, message);
+      } catch (error) {
+        console.warn('Locating chat suggestions failed', error);
       }
+    }
+    const layer = createChatPinLayer(conversation, { ...message, placeSuggestions: places });
+    if (layer.places.length === 0) {
+      setUnplacedIds(prev => new Set(prev).add(message.id));
+      return;
+    }
+    onShowOnMap(layer);
+  };
 
-      setMessages(prev => [...prev, { role: 'model', text, sources, placeSuggestions }]);
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
 
-    } catch (error: any) {
-      console.error(error);
-      let errorMessage = "Sorry, I encountered an error. Please try again.";
-      
-      if (error.message?.includes('429') || error.message?.includes('quota') || error.toString().includes('429')) {
-          errorMessage = "I've reached my daily usage limit for AI responses. Please try again later.";
-      } 
-      else if (error.message?.includes('400') || error.toString().includes('400')) {
-          errorMessage = "I'm having trouble processing that request. Please try rephrasing.";
-      }
+  const handleResume = (id: string) => {
+    open(id);
+    setShowHistory(false);
+  };
 
-      setMessages(prev => [...prev, { role: 'model', text: errorMessage }]);
-    } finally {
-      setIsLoading(false);
-    }
+  const handleNewChat = () => {
+    open(null);
+    setShowHistory(false);
   };
 
   return (
@@ -171,38 +239,127 @@ export const AIChatModal: React.FC<AIChatModalProps> = ({ isOpen, onClose, onAdd
           >
             {/* Header */}
             <div className="p-4 border-b border-zinc-800 flex justify-between items-center bg-zinc-900/50 backdrop-blur-md">
-              <div className="flex items-center gap-2">
-                <Sparkles className="w-5 h-5 text-sky-400" />
-                <h3 className="text-lg font-bold text-white">Travel Assistant</h3>
+              <div className="flex items-center gap-2 min-w-0">
+                {showHistory ? (
+                  <button onClick={() => setShowHistory(false)} className="text-zinc-400 hover:text-white transition-colors" title="Back to chat">
+                    <ChevronLeft size={20} />
+                  </button>
+                ) : (
+                  <Sparkles className="w-5 h-5 text-sky-400 shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <h3 className="text-lg font-bold text-white">{showHistory ? 'Conversations' : 'Travel Assistant'}</h3>
+                  {!showHistory && active && <p className="text-[10px] text-zinc-500 truncate">{active.title}</p>}
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setShowHistory(prev => !prev)}
+                  disabled={isLoading}
+                  className={`transition-colors disabled:opacity-40 ${showHistory ? 'text-sky-400' : 'text-zinc-400 hover:text-white'}`}
+                  title="Past conversations"
+                >
+                  <History size={20} />
+                </button>
+                <button
+                  onClick={handleNewChat}
+                  disabled={isLoading || (!active && !showHistory)}
+                  className="text-zinc-400 hover:text-white transition-colors disabled:opacity-40"
+                  title="New chat"
+                >
+                  <MessageSquarePlus size={20} />
+                </button>
+                <button onClick={onClose} className="text-zinc-400 hover:text-white transition-colors">
+                  <X size={24} />
+                </button>
               </div>
-              <button onClick={onClose} className="text-zinc-400 hover:text-white transition-colors">
-                <X size={24} />
-              </button>
             </div>
 
-            {/* Messages */}
+            {/* Context Sharing */}
+            {!showHistory && (
+              <div className="px-4 py-2 border-b border-zinc-800 flex items-center gap-2 overflow-x-auto">
+                <span className="text-[10px] text-zinc-500 shrink-0">Share:</span>
+                {CONTEXT_SHARING_OPTIONS.map(option => (
+                  <button
+                    key={option.key}
+                    onClick={() => toggleSharing(option.key)}
+                    className={`shrink-0 flex items-center gap-1 text-[10px] px-2 py-1 rounded-full border transition-colors ${
+                      sharing[option.key]
+                        ? 'bg-sky-600/20 border-sky-500/30 text-sky-300'
+                        : 'border-zinc-700 text-zinc-500 hover:text-zinc-300'
+                    }`}
+                    title={sharing[option.key] ? `The assistant sees your ${option.label.toLowerCase()}` : `Your ${option.label.toLowerCase()} is not shared`}
+                  >
+                    {sharing[option.key] && <Check size={10} />}
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {showHistory ? (
+              /* Past Conversations */
+              <div className="flex-1 overflow-y-auto p-3 space-y-1 bg-zinc-950/50">
+                {conversations.length === 0 ? (
+                  <p className="p-4 text-center text-sm text-zinc-500">No saved conversations yet.</p>
+                ) : conversations.map(conversation => (
+                  <div
+                    key={conversation.id}
+                    className={`flex items-center gap-2 p-3 rounded-xl transition-colors ${
+                      conversation.id === active?.id ? 'bg-zinc-800' : 'hover:bg-zinc-800/50'
+                    }`}
+                  >
+                    <button onClick={() => handleResume(conversation.id)} className="flex-1 min-w-0 text-left">
+                      <span className="block text-sm text-zinc-200 truncate">{conversation.title}</span>
+                      <span className="block text-[10px] text-zinc-500">
+                        {conversation.messages.length} messages · {formatTimeAgo(Date.parse(conversation.updatedAt))}
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => remove(conversation.id)}
+                      className="p-1.5 rounded-lg text-zinc-500 hover:text-rose-400 hover:bg-zinc-700 transition-colors"
+                      title="Delete conversation"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+            /* Messages */
             <div className="flex-1 overflow-y-auto p-4 space-y-5 bg-zinc-950/50">
-              {messages.map((msg, idx) => (
-                <div key={idx} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'} space-y-2`}>
+              {[GREETING, ...messages].map(msg => (
+                <div
+                  key={msg.id}
+                  id={`chat-message-${msg.id}`}
+                  className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'} space-y-2 rounded-2xl transition-shadow duration-500 ${
+                    msg.id === highlightedId ? 'ring-2 ring-sky-500/60 ring-offset-4 ring-offset-zinc-950' : ''
+                  }`}
+                >
                   
                   {/* Text Bubble */}
                   <div
-                    className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm leading-relaxed ${
+                    className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm leading-relaxed whitespace-pre-line ${
                       msg.role === 'user'
                         ? 'bg-sky-600 text-white rounded-br-none'
-                        : 'bg-zinc-800 text-zinc-200 rounded-bl-none border border-zinc-700'
+                        : msg.isError
+                          ? 'bg-rose-950/40 text-rose-200 rounded-bl-none border border-rose-900/60'
+                          : 'bg-zinc-800 text-zinc-200 rounded-bl-none border border-zinc-700'
                     }`}
                   >
                     {msg.text}
                   </div>
+                  {msg.isStopped && <span className="text-[10px] text-zinc-500 pl-1">Stopped</span>}
 
                   {/* Place Suggestions Cards */}
                   {msg.placeSuggestions && msg.placeSuggestions.length > 0 && (
                     <div className="w-full pl-2 space-y-2 animate-in fade-in slide-in-from-bottom-2 duration-500">
-                      {msg.placeSuggestions.map((place, i) => (
+                      {msg.placeSuggestions.map((place, i) => {
+                        const saved = findSavedPlace(place, locations);
+                        return (
                         <div key={i} className="bg-zinc-800/80 border border-zinc-700 rounded-xl p-3 flex gap-3 hover:bg-zinc-800 transition-colors">
                           <div className="flex-1">
-                             <div className="flex items-center gap-2 mb-1">
+                             <div className="flex flex-wrap items-center gap-2 mb-1">
                                 <h4 className="font-bold text-white text-sm">{place.name}</h4>
                                 <span className={`text-[10px] px-1.5 py-0.5 rounded border ${
                                   place.category === 'Hidden Gem' 
@@ -211,14 +368,34 @@ export const AIChatModal: React.FC<AIChatModalProps> = ({ isOpen, onClose, onAdd
                                 }`}>
                                   {place.category === 'Hidden Gem' ? 'Gem' : 'Trap'}
                                 </span>
+                                {saved && (
+                                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-700 text-zinc-300">
+                                    Already in your list
+                                  </span>
+                                )}
                              </div>
                              <p className="text-xs text-zinc-400 line-clamp-2">{place.description}</p>
                              {place.address && (
                                  <div className="flex items-center gap-1 mt-1 text-[10px] text-zinc-500">
-                                     <MapPin size={10} /> {place.address}
+                                     <MapPin size={10} className={place.coordinate ? 'text-emerald-400' : ''} /> {place.address}
+                                 </div>
+                             )}
+                             {!saved && !place.coordinate && locatingIds.has(msg.id) && (
+                                 <div className="flex items-center gap-1 mt-1 text-[10px] text-zinc-500">
+                                     <Loader2 size={10} className="animate-spin" /> Locating on the map…
                                  </div>
                              )}
                           </div>
+                          {saved ? (
+                            <button
+                              onClick={() => onShowSaved(saved)}
+                              className="flex flex-col items-center justify-center gap-1 px-3 bg-zinc-700/40 hover:bg-zinc-700 text-zinc-300 rounded-lg transition-colors border border-zinc-600/40"
+                              title="Show on Map"
+                            >
+                               <Eye size={18} />
+                               <span className="text-[10px] font-medium">View</span>
+                            </button>
+                          ) : (
                           <button 
                             onClick={() => {
                                 onAddPlace(place);
@@ -230,8 +407,18 @@ export const AIChatModal: React.FC<AIChatModalProps> = ({ isOpen, onClose, onAdd
                              <PlusCircle size={18} />
                              <span className="text-[10px] font-medium">Add</span>
                           </button>
+                          )}
                         </div>
-                      ))}
+                        );
+                      })}
+                      <button
+                        onClick={() => handleShowOnMap(msg)}
+                        disabled={locatingIds.has(msg.id) || unplacedIds.has(msg.id)}
+                        className="flex items-center gap-1.5 text-[10px] px-2.5 py-1 rounded-full border border-sky-500/30 text-sky-300 hover:bg-sky-600/20 transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+                      >
+                        {locatingIds.has(msg.id) ? <Loader2 size={10} className="animate-spin" /> : <MapPinned size={10} />}
+                        {unplacedIds.has(msg.id) ? "Couldn't find these on the map" : 'Show on map'}
+                      </button>
                     </div>
                   )}
 
@@ -256,21 +443,29 @@ export const AIChatModal: React.FC<AIChatModalProps> = ({ isOpen, onClose, onAdd
               ))}
               
               {isLoading && (
-                <div className="flex items-start">
-                  <div className="bg-zinc-800 rounded-2xl rounded-bl-none px-4 py-3 border border-zinc-700">
-                    <div className="flex gap-1">
-                      <span className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
-                      <span className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
-                      <span className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                <div className="flex flex-col items-start space-y-2">
+                  {streamingText ? (
+                    <div className="max-w-[85%] rounded-2xl rounded-bl-none px-4 py-3 text-sm leading-relaxed whitespace-pre-line bg-zinc-800 text-zinc-200 border border-zinc-700">
+                      {streamingText}
+                      <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-sky-400 animate-pulse" />
                     </div>
-                  </div>
+                  ) : (
+                    <div className="bg-zinc-800 rounded-2xl rounded-bl-none px-4 py-3 border border-zinc-700">
+                      <div className="flex gap-1">
+                        <span className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+                        <span className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+                        <span className="w-2 h-2 bg-zinc-500 rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
               <div ref={messagesEndRef} />
             </div>
+            )}
 
             {/* Input */}
-            <form onSubmit={handleSend} className="p-4 bg-zinc-900 border-t border-zinc-800">
+            <form onSubmit={handleSend} className={`p-4 bg-zinc-900 border-t border-zinc-800 ${showHistory ? 'hidden' : ''}`}>
               <div className="relative">
                 <input
                   type="text"
@@ -279,17 +474,31 @@ export const AIChatModal: React.FC<AIChatModalProps> = ({ isOpen, onClose, onAdd
                   placeholder="Suggest 3 hidden gems for dinner..."
                   className="w-full bg-zinc-800 border border-zinc-700 rounded-xl pl-4 pr-12 py-3 text-white focus:ring-2 focus:ring-sky-500 focus:border-transparent outline-none transition-all placeholder-zinc-500"
                 />
-                <button
-                  type="submit"
-                  disabled={!input.trim() || isLoading}
-                  className="absolute right-2 top-1/2 -translate-y-1/2 p-2 bg-sky-600 rounded-lg text-white disabled:opacity-50 disabled:cursor-not-allowed hover:bg-sky-500 transition-colors"
-                >
-                  <Send size={16} />
-                </button>
+                {isLoading ? (
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 p-2 bg-zinc-700 rounded-lg text-white hover:bg-zinc-600 transition-colors"
+                    title="Stop"
+                  >
+                    <Square size={16} fill="currentColor" />
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!input.trim()}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 p-2 bg-sky-600 rounded-lg text-white disabled:opacity-50 disabled:cursor-not-allowed hover:bg-sky-500 transition-colors"
+                  >
+                    <Send size={16} />
+                  </button>
+                )}
               </div>
               <div className="mt-2 text-[10px] text-zinc-500 text-center flex items-center justify-center gap-1">
                 <Sparkles size={10} />
-                Powered by Gemini 3 Flash Preview & Google Search
+                {getAiTransportName() === 'mock'
+                  ? 'Offline demo mode'
+                  : `Powered by ${formatModelName(getModelForTask('chat'))} & Google Search`}
+                {usage.totalTokens > 0 && ` · ${usage.totalTokens.toLocaleString()} tokens this session`}
               </div>
             </form>
           </motion.div>
@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { X, Save, MapPin, Sparkles, Loader2, Utensils, Coffee, Martini, Ticket, HelpCircle } from 'lucide-react';
-import { Location, Category, Coordinate, PlaceType } from '../types';
+import { X, Save, MapPin, Sparkles, Loader2, Utensils, Coffee, Martini, Ticket, HelpCircle, LocateFixed, Clock } from 'lucide-react';
+import { Location, Category, Coordinate, PlaceType, PriceLevel } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
+import { geocodePlace, reverseGeocode } from '../services/geocoding';
+import { generate, isQuotaError, parseJsonResponse } from '../services/ai';
+import { PRICE_LEVELS, isPriceLevel, normalizeWebsite } from '../services/placeDetails';
+import { parseOpeningHours, summarizeSchedule } from '../services/openingHours';
 
 interface AddLocationModalProps {
   isOpen: boolean;
@@ -10,25 +14,51 @@ interface AddLocationModalProps {
   onAdd: (location: Omit<Location, 'id'>) => void;
   currentCenter: Coordinate;
   prefillData?: Partial<Location> | null;
+  targetCollectionName?: string; // Active collection the new place will also join
+  editingLocation?: Location | null; // Set to edit a saved place instead of adding one
+  onUpdate?: (id: string, patch: Partial<Location>) => void;
 }
 
-export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onClose, onAdd, currentCenter, prefillData }) => {
+export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onClose, onAdd, currentCenter, prefillData, targetCollectionName, editingLocation, onUpdate }) => {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [address, setAddress] = useState('');
   const [category, setCategory] = useState<Category>('Hidden Gem');
   const [placeType, setPlaceType] = useState<PlaceType>('Other');
   const [coordinate, setCoordinate] = useState<Coordinate>(currentCenter);
+  const [openingHours, setOpeningHours] = useState('');
+  const [priceLevel, setPriceLevel] = useState<PriceLevel | null>(null);
+  const [phone, setPhone] = useState('');
+  const [website, setWebsite] = useState('');
   const [isAiLoading, setIsAiLoading] = useState(false);
   const [isGeocoding, setIsGeocoding] = useState(false);
 
+  const setDetails = (source: Partial<Location> | null) => {
+    setOpeningHours(source?.openingHours || '');
+    setPriceLevel(source?.priceLevel ?? null);
+    setPhone(source?.phone || '');
+    setWebsite(source?.website || '');
+  };
+
   // Initialize form state when modal opens
   useEffect(() => {
     if (isOpen) {
-        if (prefillData) {
+        if (editingLocation) {
+            // Editing only touches these fields; visits, ratings and list order are kept
+            setName(editingLocation.name);
+            setDescription(editingLocation.description);
+            setAddress(editingLocation.address || '');
+            setCategory(editingLocation.category);
+            setPlaceType(editingLocation.placeType);
+            setCoordinate(editingLocation.coordinate);
+            setDetails(editingLocation);
+        } else if (prefillData) {
             setName(prefillData.name || '');
             setDescription(prefillData.description || '');
+            setAddress(prefillData.address || '');
             setCategory(prefillData.category || 'Hidden Gem');
             setPlaceType(prefillData.placeType || 'Other');
+            setDetails(prefillData);
             
             // Use provided coordinate OR fallback to current center
             const targetCoord = prefillData.coordinate || currentCenter;
@@ -47,56 +77,21 @@ export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onCl
             setCoordinate(currentCenter);
             setName('');
             setDescription('');
+            setAddress('');
             setCategory('Hidden Gem');
             setPlaceType('Other');
+            setDetails(null);
         }
     }
-  }, [isOpen, prefillData, currentCenter]);
+  }, [isOpen, prefillData, currentCenter, editingLocation]);
 
-  // Robust geocoding that prioritizes specific POIs and Addresses
+  // Postal code, then address, then name; see services/geocoding for the strategy
   const performGeocode = async (queryName: string, queryAddress?: string) => {
     setIsGeocoding(true);
     try {
-        let q = queryName + ' Singapore';
-        
-        // Strategy: If address contains a 6-digit postal code, USE IT. It is the most accurate.
-        if (queryAddress) {
-            const postalMatch = queryAddress.match(/\d{6}/);
-            if (postalMatch) {
-                q = postalMatch[0] + ' Singapore';
-            } else if (queryAddress.length > 5) {
-                q = queryAddress + ' Singapore';
-            }
-        }
-
-        const res = await fetch(`https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(q)}&limit=5&addressdetails=1`);
-        const data = await res.json();
-        
-        let bestMatch = null;
-
-        if (data && data.length > 0) {
-            if (queryAddress && queryAddress.match(/\d{6}/)) {
-                // Postal code match is gold
-                bestMatch = data[0];
-            } else if (queryAddress) {
-                bestMatch = data[0];
-            } else {
-                // Name search logic
-                bestMatch = data.find((d: any) => 
-                    d.class === 'amenity' || 
-                    d.class === 'tourism' || 
-                    d.class === 'shop' || 
-                    d.class === 'leisure' ||
-                    d.type === 'restaurant' ||
-                    d.type === 'cafe' ||
-                    d.type === 'bar'
-                );
-                if (!bestMatch) bestMatch = data[0];
-            }
-        }
-
+        const bestMatch = await geocodePlace({ name: queryName, address: queryAddress });
         if (bestMatch) {
-            setCoordinate({ lat: parseFloat(bestMatch.lat), lng: parseFloat(bestMatch.lon) });
+            setCoordinate(bestMatch.coordinate);
         }
     } catch (e) {
         console.error("Geocode failed", e);
@@ -108,25 +103,9 @@ export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onCl
   const performReverseGeocode = async (coord: Coordinate) => {
       setIsGeocoding(true);
       try {
-          const res = await fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${coord.lat}&lon=${coord.lng}&zoom=18&addressdetails=1`);
-          const data = await res.json();
-          if (data) {
-              // Try to find the best name
-              const placeName = data.name || 
-                                data.address?.amenity || 
-                                data.address?.building || 
-                                data.address?.tourism || 
-                                data.address?.shop || 
-                                data.address?.road ||
-                                "Unknown Location";
-              
-              setName(placeName);
-              
-              // Try to infer type
-              if (data.address?.amenity === 'restaurant') setPlaceType('Restaurant');
-              else if (data.address?.amenity === 'cafe') setPlaceType('Cafe');
-              else if (data.address?.amenity === 'bar') setPlaceType('Bar');
-          }
+          const result = await reverseGeocode(coord);
+          setName(result?.name || "Unknown Location");
+          if (result?.placeType) setPlaceType(result.placeType);
       } catch (e) {
           console.error("Reverse Geocode failed", e);
       } finally {
@@ -136,23 +115,57 @@ export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onCl
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const trimmedAddress = address.trim();
+    const details = {
+      openingHours: openingHours.trim() || undefined,
+      priceLevel: priceLevel ?? undefined,
+      phone: phone.trim() || undefined,
+      website: normalizeWebsite(website) || undefined,
+    };
+    if (editingLocation) {
+      onUpdate?.(editingLocation.id, {
+        name,
+        description,
+        category,
+        placeType,
+        coordinate,
+        address: trimmedAddress || undefined,
+        ...details,
+      });
+      onClose();
+      return;
+    }
     onAdd({
       name,
       description,
       category,
       placeType,
       coordinate: coordinate,
-      image: `https://picsum.photos/seed/${Date.now()}/600/400`,
+      image: '',
       visited: false,
+      ...(trimmedAddress && { address: trimmedAddress }),
+      ...(details.openingHours && { openingHours: details.openingHours }),
+      ...(details.priceLevel && { priceLevel: details.priceLevel }),
+      ...(details.phone && { phone: details.phone }),
+      ...(details.website && { website: details.website }),
     });
     // Reset form
     setName('');
     setDescription('');
+    setAddress('');
     setCategory('Hidden Gem');
     setPlaceType('Other');
+    setDetails(null);
     onClose();
   };
 
+  const isMoved = !!editingLocation &&
+    (coordinate.lat !== editingLocation.coordinate.lat || coordinate.lng !== editingLocation.coordinate.lng);
+  const hasLocation = editingLocation ? isMoved : coordinate !== currentCenter;
+  const coordinateStatus = editingLocation
+    ? isMoved ? "Moved to new position" : "Saved position"
+    : coordinate !== currentCenter ? "Location Found" : "Using map center";
+
   const handleAiAutoFill = async () => {
     if (!name.trim()) return;
     setIsAiLoading(true);
@@ -161,13 +174,17 @@ export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onCl
     // AI Logic: Fetch Content AND Address for accurate pinning
     const aiPromise = (async () => {
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const response = await ai.models.generateContent({
-                model: 'gemini-3-flash-preview',
+            const response = await generate({
+                task: 'autofill',
+                cache: { place: name, ttlMs: 7 * 24 * 60 * 60 * 1000 },
                 contents: `Analyze the place named "${name}" in Singapore.
                 
                 I need specific details and its EXACT location.
                 If it's a specific venue (restaurant, shop, etc.), find its address.
+                Also find its current opening hours, written in OpenStreetMap opening_hours
+                syntax (e.g. "Mo-Fr 08:00-15:00; Sa,Su 09:00-14:00; PH off"), its price level
+                from 1 (under S$15 a head) to 4 (over S$100 a head), its phone number and its
+                official website. Leave out anything you cannot confirm.
                 
                 Return JSON.`,
                 config: {
@@ -180,6 +197,10 @@ export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onCl
                             category: { type: Type.STRING, enum: ['Hidden Gem', 'Tourist Trap'] },
                             placeType: { type: Type.STRING, enum: ['Restaurant', 'Bar', 'Cafe', 'Activity', 'Other'] },
                             address: { type: Type.STRING },
+                            openingHours: { type: Type.STRING, nullable: true },
+                            priceLevel: { type: Type.INTEGER, nullable: true },
+                            phone: { type: Type.STRING, nullable: true },
+                            website: { type: Type.STRING, nullable: true },
                             coordinates: {
                                 type: Type.OBJECT,
                                 properties: {
@@ -193,12 +214,10 @@ export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onCl
                     }
                 },
             });
-            return JSON.parse(response.text || "{}");
+            return parseJsonResponse<any>(response);
         } catch (error: any) {
             console.error("AI Content gen failed", error);
-            if (error.message?.includes('429') || error.message?.includes('quota')) {
-                 throw new Error("QUOTA_EXCEEDED");
-            }
+            if (isQuotaError(error)) throw error;
             return null;
         }
     })();
@@ -210,6 +229,12 @@ export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onCl
             setDescription(result.description || "");
             setCategory((result.category as Category) || 'Hidden Gem');
             setPlaceType((result.placeType as PlaceType) || 'Other');
+            if (result.address) setAddress(result.address);
+            // Only hours we can evaluate are worth keeping
+            if (typeof result.openingHours === 'string' && parseOpeningHours(result.openingHours)) setOpeningHours(result.openingHours);
+            if (isPriceLevel(result.priceLevel)) setPriceLevel(result.priceLevel);
+            if (typeof result.phone === 'string' && result.phone.trim()) setPhone(result.phone.trim());
+            if (typeof result.website === 'string' && result.website.trim()) setWebsite(normalizeWebsite(result.website));
             
             // Prioritize AI coordinates if they exist (Google Search is smart)
             if (result.coordinates && result.coordinates.lat && result.coordinates.lng) {
@@ -217,8 +242,7 @@ export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onCl
                 setIsGeocoding(false); // We have coords, skip nominatim
             } else {
                 // Fallback to geocoding the address
-                let addressToGeocode = result.address || name + ' Singapore';
-                performGeocode(name, addressToGeocode);
+                performGeocode(name, result.address);
             }
         } else {
             setDescription("Could not fetch AI details. Please enter manually.");
@@ -226,7 +250,7 @@ export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onCl
         }
     } catch (error: any) {
         console.error("Autofill error", error);
-        if (error.message === "QUOTA_EXCEEDED") {
+        if (isQuotaError(error)) {
              setDescription("Auto-fill unavailable: AI quota exceeded. Please enter details manually.");
         } else {
              setDescription("Error during auto-fill.");
@@ -249,7 +273,14 @@ export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onCl
           >
             <div className="p-6">
               <div className="flex justify-between items-center mb-6">
-                <h3 className="text-xl font-bold text-white">Add Location</h3>
+                <div>
+                  <h3 className="text-xl font-bold text-white">{editingLocation ? 'Edit Location' : 'Add Location'}</h3>
+                  {editingLocation ? (
+                    <p className="text-[10px] text-zinc-500 mt-0.5">Tip: you can also drag the pin on the map while this place is selected</p>
+                  ) : targetCollectionName && (
+                    <p className="text-[10px] text-zinc-500 mt-0.5">Also adding to "{targetCollectionName}"</p>
+                  )}
+                </div>
                 <button onClick={onClose} className="text-zinc-400 hover:text-white transition-colors">
                   <X size={24} />
                 </button>
@@ -358,21 +389,102 @@ export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onCl
                   />
                 </div>
 
+                {/* Address */}
+                <div>
+                  <label className="block text-xs font-medium text-zinc-400 mb-1.5 uppercase tracking-wider">
+                    Address
+                  </label>
+                  <input
+                    type="text"
+                    value={address}
+                    onChange={(e) => setAddress(e.target.value)}
+                    className="w-full bg-zinc-800/50 border border-zinc-700 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-sky-500 focus:border-transparent outline-none transition-all placeholder-zinc-600"
+                    placeholder="Optional, e.g. 56 Eng Hoon St, 160056"
+                  />
+                </div>
+
+                {/* Hours, Price & Contact */}
+                <div className="space-y-3">
+                  <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">
+                    Hours & Contact
+                  </label>
+                  <div>
+                    <div className="relative">
+                      <Clock size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500" />
+                      <input
+                        type="text"
+                        value={openingHours}
+                        onChange={(e) => setOpeningHours(e.target.value)}
+                        className="w-full bg-zinc-800/50 border border-zinc-700 rounded-xl pl-9 pr-4 py-2.5 text-sm text-white font-mono focus:ring-2 focus:ring-sky-500 focus:border-transparent outline-none transition-all placeholder-zinc-600"
+                        placeholder="Mo-Fr 08:00-15:00; Sa,Su off"
+                      />
+                    </div>
+                    {openingHours.trim() && (
+                      parseOpeningHours(openingHours) ? (
+                        <p className="mt-1 text-[10px] text-zinc-500">{summarizeSchedule(parseOpeningHours(openingHours)!).join(' · ')}</p>
+                      ) : (
+                        <p className="mt-1 text-[10px] text-amber-400">Saved as written, but "open now" can't read this format</p>
+                      )
+                    )}
+                  </div>
+                  <div className="grid grid-cols-4 gap-1">
+                    {PRICE_LEVELS.map(({ level, label, hint }) => (
+                      <button
+                        key={level}
+                        type="button"
+                        onClick={() => setPriceLevel(priceLevel === level ? null : level)}
+                        className={`py-2 rounded-xl text-xs font-medium border transition-all ${
+                          priceLevel === level
+                            ? 'bg-emerald-500/20 border-emerald-500 text-emerald-300'
+                            : 'bg-zinc-800/50 border-transparent text-zinc-500 hover:bg-zinc-800 hover:text-zinc-300'
+                        }`}
+                        title={hint}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="tel"
+                      value={phone}
+                      onChange={(e) => setPhone(e.target.value)}
+                      className="w-full bg-zinc-800/50 border border-zinc-700 rounded-xl px-3 py-2.5 text-sm text-white focus:ring-2 focus:ring-sky-500 focus:border-transparent outline-none transition-all placeholder-zinc-600"
+                      placeholder="Phone"
+                    />
+                    <input
+                      type="text"
+                      inputMode="url"
+                      value={website}
+                      onChange={(e) => setWebsite(e.target.value)}
+                      className="w-full bg-zinc-800/50 border border-zinc-700 rounded-xl px-3 py-2.5 text-sm text-white focus:ring-2 focus:ring-sky-500 focus:border-transparent outline-none transition-all placeholder-zinc-600"
+                      placeholder="Website"
+                    />
+                  </div>
+                </div>
+
                 {/* Coordinates Display */}
                 <div className="pt-2 flex items-center justify-between text-xs text-zinc-500">
                     <div className="flex items-center gap-2">
                         {isGeocoding ? (
                             <Loader2 size={12} className="animate-spin text-sky-400" />
                         ) : (
-                            <MapPin size={12} className={coordinate !== currentCenter ? "text-sky-400" : ""} />
+                            <MapPin size={12} className={hasLocation ? "text-sky-400" : ""} />
                         )}
-                        <span className={coordinate !== currentCenter ? "text-sky-400 font-medium" : ""}>
+                        <span className={hasLocation ? "text-sky-400 font-medium" : ""}>
                             {isGeocoding 
                                 ? "Locating..." 
-                                : coordinate !== currentCenter 
-                                    ? "Location Found" 
-                                    : "Using map center"}
+                                : coordinateStatus}
                         </span>
+                        <button
+                            type="button"
+                            onClick={() => performGeocode(name, address.trim() || undefined)}
+                            disabled={!name.trim() || isGeocoding}
+                            className="p-1 rounded-md text-zinc-500 hover:text-sky-400 hover:bg-zinc-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                            title="Find on map from name and address"
+                        >
+                            <LocateFixed size={12} />
+                        </button>
                     </div>
                     <div>
                         {coordinate.lat.toFixed(4)}, {coordinate.lng.toFixed(4)}
@@ -385,7 +497,7 @@ export const AddLocationModal: React.FC<AddLocationModalProps> = ({ isOpen, onCl
                   className="w-full py-4 bg-white text-black rounded-xl font-bold text-base hover:bg-zinc-200 transition-colors flex items-center justify-center gap-2 mt-2 disabled:opacity-50"
                 >
                   <Save size={18} />
-                  Save Location
+                  {editingLocation ? 'Save Changes' : 'Save Location'}
                 </button>
               </form>
             </div>
@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { Footprints, Bike, Car, Loader2, ExternalLink, AlertCircle, LocateFixed, ChevronDown, ChevronUp } from 'lucide-react';
+import { Coordinate, Location } from '../types';
+import {
+  Route,
+  RouteOrigin,
+  TravelMode,
+  formatDuration,
+  getExternalMapLinks,
+  getRoute,
+  resolveRouteOrigin,
+} from '../services/routing';
+import { formatDistance } from '../utils/geo';
+
+interface DirectionsPanelProps {
+  destination: Location;
+  mapCenter: Coordinate;
+  userPosition?: Coordinate | null; // Live position when tracking is on
+  onRouteChange: (route: Route | null) => void;
+}
+
+const MODES: { mode: TravelMode; icon: React.ElementType; label: string }[] = [
+  { mode: 'walking', icon: Footprints, label: 'Walk' },
+  { mode: 'cycling', icon: Bike, label: 'Cycle' },
+  { mode: 'driving', icon: Car, label: 'Drive' },
+];
+
+export const DirectionsPanel: React.FC<DirectionsPanelProps> = ({ destination, mapCenter, userPosition, onRouteChange }) => {
+  const [mode, setMode] = useState<TravelMode>('walking');
+  const [origin, setOrigin] = useState<RouteOrigin | null>(null);
+  const [route, setRoute] = useState<Route | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showSteps, setShowSteps] = useState(false);
+
+  // Resolve the starting point once per destination
+  useEffect(() => {
+    if (userPosition) {
+      setOrigin({ coordinate: userPosition, source: 'device' });
+      return;
+    }
+    let cancelled = false;
+    resolveRouteOrigin(mapCenter).then(resolved => {
+      if (!cancelled) setOrigin(resolved);
+    });
+    return () => { cancelled = true; };
+  }, [destination.id]);
+
+  useEffect(() => {
+    if (!origin) return;
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+
+    getRoute(origin.coordinate, destination.coordinate, mode, controller.signal)
+      .then(result => {
+        setRoute(result);
+        onRouteChange(result);
+      })
+      .catch(err => {
+        if (err?.name === 'AbortError') return;
+        console.error('Routing failed', err);
+        setError('Could not calculate a route.');
+        setRoute(null);
+        onRouteChange(null);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [origin, mode, destination.id]);
+
+  // Remove the route from the map when the panel goes away
+  useEffect(() => () => onRouteChange(null), []);
+
+  const externalLinks = getExternalMapLinks(destination.coordinate, mode, origin?.coordinate);
+
+  return (
+    <div className="p-4 bg-zinc-800/40 rounded-xl border border-zinc-800 space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        {MODES.map(item => (
+          <button
+            key={item.mode}
+            onClick={() => setMode(item.mode)}
+            className={`flex items-center justify-center gap-1.5 py-2 rounded-lg text-xs font-medium border transition-all ${
+              mode === item.mode
+                ? 'bg-sky-500/20 border-sky-500 text-sky-300'
+                : 'bg-zinc-900 border-zinc-700 text-zinc-400 hover:bg-zinc-800'
+            }`}
+          >
+            <item.icon size={14} />
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      {!origin || isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-zinc-500 py-1">
+          <Loader2 size={14} className="animate-spin" />
+          {origin ? 'Calculating route...' : 'Finding your location...'}
+        </div>
+      ) : error ? (
+        <div className="flex items-center gap-2 text-xs text-amber-500/80 py-1">
+          <AlertCircle size={14} />
+          <span>{error}</span>
+        </div>
+      ) : route && (
+        <div className="space-y-2">
+          <div className="flex items-baseline justify-between">
+            <span className="text-lg font-bold text-white">{formatDuration(route.duration)}</span>
+            <span className="text-xs text-zinc-400">{formatDistance(route.distance)}</span>
+          </div>
+          <div className="flex items-center gap-1 text-[10px] text-zinc-500">
+            <LocateFixed size={10} />
+            From {origin.source === 'device' ? 'your location' : 'the map centre'}
+            {route.provider === 'straight-line' && ' · approximate, routing server unavailable'}
+          </div>
+
+          <button
+            onClick={() => setShowSteps(prev => !prev)}
+            className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-zinc-400 hover:text-zinc-200 transition-colors"
+          >
+            {showSteps ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+            {route.steps.length} steps
+          </button>
+          {showSteps && (
+            <ol className="space-y-1.5 max-h-40 overflow-y-auto pr-1">
+              {route.steps.map((step, i) => (
+                <li key={i} className="flex justify-between gap-3 text-xs">
+                  <span className="text-zinc-300">{step.instruction}</span>
+                  {step.distance > 0 && <span className="text-zinc-600 shrink-0">{formatDistance(step.distance)}</span>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      {/* Hand-off to external map apps */}
+      <div className="flex flex-wrap gap-2 pt-1">
+        {externalLinks.map(link => (
+          <a
+            key={link.label}
+            href={link.url}
+            target="_blank"
+            rel="noreferrer"
+            className="flex items-center gap-1 text-[10px] bg-zinc-900 hover:bg-zinc-800 text-zinc-400 border border-zinc-700 px-2 py-1 rounded-full transition-colors"
+          >
+            <ExternalLink size={10} />
+            {link.label}
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Gem, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { DEFAULT_GEM_THRESHOLD, setGemThreshold } from '../services/gemScore';
+import { useGemThreshold } from '../hooks/useGemThreshold';
+
+interface GemScoreControlProps {
+  colorByScore: boolean;
+  onColorByScoreChange: (enabled: boolean) => void;
+}
+
+// Map button for gem score settings: colour pins by score, and where gems end and traps begin
+export const GemScoreControl: React.FC<GemScoreControlProps> = ({ colorByScore, onColorByScoreChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const threshold = useGemThreshold();
+
+  return (
+    <div className="absolute bottom-40 left-6 z-[1000]">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`flex items-center justify-center w-11 h-11 rounded-full shadow-lg border transition-all active:scale-95 ${
+          colorByScore
+            ? 'bg-emerald-500/20 border-emerald-500/60 text-emerald-300'
+            : 'bg-zinc-900 border-zinc-700 text-zinc-300 hover:bg-zinc-800'
+        }`}
+        title="Gem score settings"
+      >
+        <Gem size={18} />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ x: -10, opacity: 0 }}
+            animate={{ x: 0, opacity: 1 }}
+            exit={{ x: -10, opacity: 0 }}
+            className="absolute bottom-0 left-14 w-64 p-4 space-y-3 bg-zinc-900/95 backdrop-blur-xl border border-zinc-700 rounded-2xl shadow-2xl"
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-bold uppercase tracking-wider text-zinc-300">Gem Score</h3>
+              <button onClick={() => setIsOpen(false)} className="text-zinc-500 hover:text-white transition-colors" title="Close">
+                <X size={14} />
+              </button>
+            </div>
+
+            <label className="flex items-center justify-between gap-3 text-xs text-zinc-300 cursor-pointer">
+              Colour pins by score
+              <input
+                type="checkbox"
+                checked={colorByScore}
+                onChange={(e) => onColorByScoreChange(e.target.checked)}
+                className="accent-emerald-500"
+              />
+            </label>
+
+            <div>
+              <div className="flex items-center justify-between text-xs text-zinc-300">
+                <span>Hidden gem from</span>
+                <span className="font-bold text-white">{threshold}</span>
+              </div>
+              <input
+                type="range"
+                min={1}
+                max={99}
+                value={threshold}
+                onChange={(e) => setGemThreshold(Number(e.target.value))}
+                className="w-full accent-emerald-500"
+              />
+              <div className="flex justify-between text-[9px] uppercase tracking-wider text-zinc-600">
+                <span>More traps</span>
+                {threshold !== DEFAULT_GEM_THRESHOLD && (
+                  <button onClick={() => setGemThreshold(DEFAULT_GEM_THRESHOLD)} className="text-zinc-500 hover:text-zinc-300 normal-case tracking-normal">
+                    Reset
+                  </button>
+                )}
+                <span>More gems</span>
+              </div>
+            </div>
+
+            <p className="text-[10px] text-zinc-500 leading-relaxed">
+              Scores blend review counts, OpenStreetMap tags, distance from the big sights, price and Gemini's read of
+              reviews. Places you set a category for by hand keep it.
+            </p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useState, useRef } from 'react';
+import { X, Download, Upload, AlertCircle, Copy, CheckCircle2, Circle, FileUp } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Location } from '../types';
+import {
+  EXCHANGE_FORMATS,
+  ImportCandidate,
+  buildImportCandidates,
+  detectFormat,
+  downloadLocations,
+  parsePlaces,
+} from '../services/exchange';
+
+interface ImportExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  locations: Location[];
+  existingLocations: Location[]; // Everything saved, used for duplicate detection
+  onImport: (locations: Location[]) => void;
+}
+
+export const ImportExportModal: React.FC<ImportExportModalProps> = ({ isOpen, onClose, locations, existingLocations, onImport }) => {
+  const [candidates, setCandidates] = useState<ImportCandidate[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [importError, setImportError] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const resetImport = () => {
+    setCandidates(null);
+    setSelectedIds(new Set());
+    setImportError(null);
+    setFileName('');
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleClose = () => {
+    resetImport();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    resetImport();
+    setFileName(file.name);
+
+    try {
+      const text = await file.text();
+      const format = detectFormat(file.name, text);
+      if (!format) throw new Error('Unrecognised file. Use GeoJSON, KML or GPX.');
+
+      const parsed = buildImportCandidates(parsePlaces(text, format), existingLocations);
+      if (parsed.length === 0) throw new Error('No point places found in this file.');
+
+      setCandidates(parsed);
+      // Pre-select everything that is valid and new; duplicates are opt-in
+      setSelectedIds(new Set(parsed.filter(c => c.problems.length === 0 && !c.duplicateOf).map(c => c.location.id)));
+    } catch (error: any) {
+      console.error('Import failed', error);
+      setImportError(error.message || 'Could not read this file.');
+    }
+  };
+
+  const toggleCandidate = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleMerge = () => {
+    if (!candidates) return;
+    onImport(candidates.filter(c => selectedIds.has(c.location.id)).map(c => c.location));
+    handleClose();
+  };
+
+  const invalidCount = candidates?.filter(c => c.problems.length > 0).length || 0;
+  const duplicateCount = candidates?.filter(c => c.duplicateOf).length || 0;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="absolute inset-0 z-[1700] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="w-full max-w-sm bg-zinc-900 border border-zinc-800 rounded-3xl shadow-2xl overflow-hidden max-h-[85vh] flex flex-col"
+          >
+            <div className="p-6 pb-4 flex justify-between items-center">
+              <h3 className="text-xl font-bold text-white">Import & Export</h3>
+              <button onClick={handleClose} className="text-zinc-400 hover:text-white transition-colors">
+                <X size={24} />
+              </button>
+            </div>
+
+            <div className="px-6 pb-6 space-y-6 overflow-y-auto">
+              {/* Export */}
+              <div>
+                <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">
+                  Export {locations.length} places
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {EXCHANGE_FORMATS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      onClick={() => downloadLocations(locations, format)}
+                      disabled={locations.length === 0}
+                      className="flex items-center justify-center gap-1.5 py-2.5 rounded-xl text-xs font-medium bg-zinc-800/50 border border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                    >
+                      <Download size={14} />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Import */}
+              <div>
+                <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">
+                  Import
+                </label>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".geojson,.json,.kml,.gpx"
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="w-full flex items-center justify-center gap-2 py-3 rounded-xl text-sm font-medium bg-indigo-600/20 border border-indigo-500/50 text-indigo-300 hover:bg-indigo-600/30 transition-colors"
+                >
+                  <FileUp size={16} />
+                  {fileName || 'Choose GeoJSON, KML or GPX file'}
+                </button>
+
+                {importError && (
+                  <div className="flex items-center gap-2 text-xs text-rose-400 mt-3">
+                    <AlertCircle size={14} />
+                    <span>{importError}</span>
+                  </div>
+                )}
+              </div>
+
+              {/* Preview */}
+              {candidates && (
+                <div className="space-y-2">
+                  <div className="text-[10px] text-zinc-500">
+                    {candidates.length} found
+                    {duplicateCount > 0 && ` · ${duplicateCount} possible duplicates`}
+                    {invalidCount > 0 && ` · ${invalidCount} invalid`}
+                  </div>
+                  <div className="space-y-1 max-h-64 overflow-y-auto">
+                    {candidates.map(({ location, problems, duplicateOf }) => {
+                      const isInvalid = problems.length > 0;
+                      const isSelected = selectedIds.has(location.id);
+                      return (
+                        <button
+                          key={location.id}
+                          onClick={() => !isInvalid && toggleCandidate(location.id)}
+                          disabled={isInvalid}
+                          className="w-full text-left flex items-start gap-3 p-2.5 rounded-xl hover:bg-zinc-800/50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                          <span className="mt-0.5">
+                            {isSelected
+                              ? <CheckCircle2 size={16} className="text-emerald-400" />
+                              : <Circle size={16} className="text-zinc-600" />}
+                          </span>
+                          <span className="flex-1 min-w-0">
+                            <span className="block text-sm text-zinc-200 truncate">{location.name || 'Untitled'}</span>
+                            {isInvalid ? (
+                              <span className="flex items-center gap-1 text-[10px] text-rose-400">
+                                <AlertCircle size={10} /> {problems.join(', ')}
+                              </span>
+                            ) : duplicateOf ? (
+                              <span className="flex items-center gap-1 text-[10px] text-amber-400">
+                                <Copy size={10} />
+                                {duplicateOf.reason === 'name' ? 'Same name as' : 'Very close to'} "{duplicateOf.name}"
+                              </span>
+                            ) : (
+                              <span className="block text-[10px] text-zinc-500">
+                                {location.placeType} · {location.category}
+                              </span>
+                            )}
+                          </span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <button
+                    onClick={handleMerge}
+                    disabled={selectedIds.size === 0}
+                    className="w-full py-3 bg-white text-black rounded-xl font-bold text-sm hover:bg-zinc-200 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                    <Upload size={16} />
+                    Add {selectedIds.size} to my list
+                  </button>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
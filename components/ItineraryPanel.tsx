@@ -0,0 +1,161 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Clock, Footprints, Route, Check } from 'lucide-react';
+import { Coordinate, Location } from '../types';
+import {
+  DEFAULT_DWELL_MINUTES,
+  buildDayPlan,
+  formatClock,
+  optimizeVisitOrder,
+  parseClock,
+  routeDistance,
+  walkingMinutes,
+} from '../services/itinerary';
+import { formatDistance } from '../utils/geo';
+
+interface ItineraryPanelProps {
+  locations: Location[]; // The to-visit list in its current order
+  mapCenter: Coordinate;
+  userPosition?: Coordinate | null;
+  onApplyOrder: (ordered: Location[]) => void;
+  onPreviewRoute: (path: Coordinate[] | null) => void;
+}
+
+// 'flexible' lets the optimiser choose, 'centre' / 'me' pin the map centre or the
+// user's position, any other value is the id of a place that must come first / last
+type Anchor = 'flexible' | 'centre' | 'me' | string;
+
+export const ItineraryPanel: React.FC<ItineraryPanelProps> = ({ locations, mapCenter, userPosition, onApplyOrder, onPreviewRoute }) => {
+  const [startTime, setStartTime] = useState('09:00');
+  const [startAnchor, setStartAnchor] = useState<Anchor>('flexible');
+  const [endAnchor, setEndAnchor] = useState<Anchor>('flexible');
+  const [dwellMinutes, setDwellMinutes] = useState<Record<string, number>>({});
+
+  const plan = useMemo(() => {
+    const startPlace = locations.find(l => l.id === startAnchor);
+    const endPlace = endAnchor !== startAnchor ? locations.find(l => l.id === endAnchor) : undefined;
+    const fixedPoint = (anchor: Anchor) =>
+      anchor === 'centre' ? mapCenter : anchor === 'me' ? userPosition || undefined : undefined;
+    const startPoint = fixedPoint(startAnchor) || startPlace?.coordinate;
+    const endPoint = fixedPoint(endAnchor) || endPlace?.coordinate;
+
+    // Pinned places are taken out of the optimisation and re-attached at either end
+    const free = locations.filter(l => l !== startPlace && l !== endPlace);
+    const ordered = [
+      ...(startPlace ? [startPlace] : []),
+      ...optimizeVisitOrder(free, startPoint, endPoint),
+      ...(endPlace ? [endPlace] : []),
+    ];
+
+    return {
+      ordered,
+      savedDistance: routeDistance(locations) - routeDistance(ordered),
+      ...buildDayPlan(ordered, {
+        start: fixedPoint(startAnchor),
+        end: fixedPoint(endAnchor),
+        startMinutes: parseClock(startTime),
+        dwellMinutes,
+      }),
+    };
+  }, [locations, mapCenter, userPosition, startAnchor, endAnchor, startTime, dwellMinutes]);
+
+  useEffect(() => {
+    onPreviewRoute(plan.path.length > 1 ? plan.path : null);
+  }, [plan]);
+
+  // Filtering, sorting or closing the list hides the panel; take its route off the map then too
+  useEffect(() => () => onPreviewRoute(null), []);
+
+  const isAlreadyOptimal = plan.ordered.every((l, i) => l.id === locations[i]?.id);
+
+  const anchorSelect = (value: Anchor, onChange: (v: Anchor) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-2 py-1.5 text-[11px] text-zinc-200 outline-none focus:border-sky-500"
+    >
+      <option value="flexible">Anywhere</option>
+      <option value="centre">Map centre</option>
+      {userPosition && <option value="me">My location</option>}
+      {locations.map(l => (
+        <option key={l.id} value={l.id}>{l.name}</option>
+      ))}
+    </select>
+  );
+
+  if (locations.length === 0) {
+    return <div className="text-center py-4 text-zinc-600 text-xs italic">Nothing to plan yet.</div>;
+  }
+
+  return (
+    <div className="p-3 rounded-xl bg-zinc-900/60 border border-zinc-800 space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <label className="space-y-1">
+          <span className="block text-[10px] uppercase tracking-wider text-zinc-500">Start time</span>
+          <input
+            type="time"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-2 py-1 text-[11px] text-zinc-200 outline-none focus:border-sky-500"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block text-[10px] uppercase tracking-wider text-zinc-500">Start at</span>
+          {anchorSelect(startAnchor, setStartAnchor)}
+        </label>
+        <label className="space-y-1">
+          <span className="block text-[10px] uppercase tracking-wider text-zinc-500">Finish at</span>
+          {anchorSelect(endAnchor, setEndAnchor)}
+        </label>
+      </div>
+
+      {/* Timed Plan */}
+      <ol className="space-y-1">
+        {plan.stops.map(({ location, legDistance, arriveMinutes, departMinutes }) => (
+          <li key={location.id} className="text-xs">
+            {legDistance > 0 && (
+              <div className="flex items-center gap-1.5 pl-12 py-0.5 text-[10px] text-zinc-600">
+                <Footprints size={10} />
+                {formatDistance(legDistance)} · {walkingMinutes(legDistance)} min
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <span className="w-10 font-mono text-sky-400">{formatClock(arriveMinutes)}</span>
+              <span className="flex-1 truncate text-zinc-200">{location.name}</span>
+              <input
+                type="number"
+                min={0}
+                step={15}
+                value={dwellMinutes[location.id] ?? DEFAULT_DWELL_MINUTES[location.placeType]}
+                onChange={(e) => setDwellMinutes(prev => ({ ...prev, [location.id]: Math.max(0, Number(e.target.value) || 0) }))}
+                className="w-12 bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-[10px] text-zinc-300 text-right outline-none focus:border-sky-500"
+                title={`Minutes at this stop (leave at ${formatClock(departMinutes)})`}
+              />
+              <span className="text-[10px] text-zinc-600">min</span>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex items-center justify-between text-[10px] text-zinc-500 pt-1 border-t border-zinc-800">
+        <span className="flex items-center gap-1">
+          <Route size={12} /> {formatDistance(plan.totalDistance)}
+          {plan.savedDistance > 50 && (
+            <span className="text-emerald-400">({formatDistance(plan.savedDistance)} shorter)</span>
+          )}
+        </span>
+        <span className="flex items-center gap-1">
+          <Clock size={12} /> Done by {formatClock(plan.finishMinutes)}
+        </span>
+      </div>
+
+      <button
+        onClick={() => onApplyOrder(plan.ordered)}
+        disabled={isAlreadyOptimal}
+        className="w-full py-2 rounded-lg text-xs font-bold bg-sky-600 hover:bg-sky-500 text-white transition-colors flex items-center justify-center gap-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Check size={14} />
+        {isAlreadyOptimal ? 'List already in this order' : 'Apply this order'}
+      </button>
+    </div>
+  );
+};
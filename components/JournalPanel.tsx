@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import { Location, Visit } from '../types';
+import { BookOpen, CalendarPlus, Hash, Repeat, Star, Trash2, Users, Wallet, X } from 'lucide-react';
+import { StarPicker } from './StarPicker';
+import { createVisit, formatSpend, formatVisitDate, normalizeTag, normalizeTags, parseCompanions, sortVisits, todayIsoDate } from '../services/journal';
+
+interface JournalPanelProps {
+  location: Location;
+  onUpdate: (id: string, patch: Partial<Location>) => void;
+}
+
+interface VisitDraft {
+  date: string;
+  companions: string;
+  note: string;
+  rating: number;
+  spend: string;
+  wouldReturn: boolean | null;
+}
+
+const emptyDraft = (): VisitDraft => ({ date: todayIsoDate(), companions: '', note: '', rating: 0, spend: '', wouldReturn: null });
+
+const inputClass = 'w-full bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-1.5 text-xs text-white outline-none focus:ring-1 focus:ring-sky-500/60 placeholder-zinc-600';
+
+interface VisitEntryProps {
+  visit: Visit;
+  onRemove: () => void;
+}
+
+const VisitEntry: React.FC<VisitEntryProps> = ({ visit, onRemove }) => (
+  <li className="group p-2.5 rounded-lg bg-zinc-900/60 border border-zinc-800 space-y-1">
+    <div className="flex items-center gap-2 text-xs">
+      <span className="font-medium text-zinc-200">{formatVisitDate(visit.date)}</span>
+      {visit.rating !== undefined && (
+        <span className="flex items-center gap-0.5 text-amber-300">
+          <Star size={10} className="fill-amber-300" />{visit.rating}
+        </span>
+      )}
+      {visit.spend !== undefined && (
+        <span className="flex items-center gap-1 text-zinc-400"><Wallet size={10} />{formatSpend(visit.spend)}</span>
+      )}
+      {visit.wouldReturn !== undefined && (
+        <span className={`flex items-center gap-1 ${visit.wouldReturn ? 'text-emerald-400' : 'text-rose-400'}`}>
+          <Repeat size={10} />{visit.wouldReturn ? 'Would return' : 'Once is enough'}
+        </span>
+      )}
+      <button
+        onClick={onRemove}
+        className="ml-auto p-0.5 text-zinc-600 hover:text-rose-400 opacity-0 group-hover:opacity-100 transition-all"
+        title="Delete visit"
+      >
+        <Trash2 size={12} />
+      </button>
+    </div>
+    {visit.companions && visit.companions.length > 0 && (
+      <div className="flex items-center gap-1 text-[10px] text-zinc-500"><Users size={10} /> {visit.companions.join(', ')}</div>
+    )}
+    {visit.note && <p className="text-xs text-zinc-400">{visit.note}</p>}
+  </li>
+);
+
+// Tags, free-text notes and the visit log for a saved place
+export const JournalPanel: React.FC<JournalPanelProps> = ({ location, onUpdate }) => {
+  const [tagInput, setTagInput] = useState('');
+  const [notesDraft, setNotesDraft] = useState(location.notes || '');
+  const [visitDraft, setVisitDraft] = useState<VisitDraft | null>(null);
+
+  useEffect(() => {
+    setTagInput('');
+    setNotesDraft(location.notes || '');
+    setVisitDraft(null);
+  }, [location.id]);
+
+  const tags = location.tags || [];
+  const visits = sortVisits(location.visits);
+
+  const addTags = (text: string) => {
+    const next = normalizeTags([...tags, ...text.split(',')]);
+    if (next.length !== tags.length) onUpdate(location.id, { tags: next });
+    setTagInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    onUpdate(location.id, { tags: tags.filter(t => t !== tag) });
+  };
+
+  const commitNotes = () => {
+    const trimmed = notesDraft.trim();
+    if (trimmed !== (location.notes || '')) onUpdate(location.id, { notes: trimmed || undefined });
+  };
+
+  const saveVisit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!visitDraft) return;
+    const spend = parseFloat(visitDraft.spend);
+    const companions = parseCompanions(visitDraft.companions);
+    const visit = createVisit({
+      date: visitDraft.date || todayIsoDate(),
+      ...(companions.length > 0 && { companions }),
+      ...(visitDraft.note.trim() && { note: visitDraft.note.trim() }),
+      ...(visitDraft.rating > 0 && { rating: visitDraft.rating }),
+      ...(Number.isFinite(spend) && spend >= 0 && { spend }),
+      ...(visitDraft.wouldReturn !== null && { wouldReturn: visitDraft.wouldReturn }),
+    });
+    onUpdate(location.id, {
+      visits: [...(location.visits || []), visit],
+      visited: true,
+      // The first visit rating doubles as the overall one until the user sets their own
+      ...(!location.rating && visit.rating !== undefined && {
+        rating: { stars: visit.rating, ratedAt: new Date().toISOString() },
+      }),
+    });
+    setVisitDraft(null);
+  };
+
+  const removeVisit = (id: string) => {
+    onUpdate(location.id, { visits: (location.visits || []).filter(v => v.id !== id) });
+  };
+
+  return (
+    <div className="p-3 bg-zinc-800/40 rounded-xl border border-zinc-800 space-y-3">
+      <div className="flex items-center gap-2">
+        <BookOpen size={14} className="text-sky-400" />
+        <span className="text-[10px] uppercase tracking-wider font-bold text-sky-400">Journal</span>
+      </div>
+
+      {/* Tags */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-sky-500/10 border border-sky-500/30 text-[10px] text-sky-300">
+            #{tag}
+            <button onClick={() => removeTag(tag)} className="text-sky-300/60 hover:text-white" title="Remove tag">
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        <div className="flex items-center gap-1 text-zinc-500">
+          <Hash size={10} />
+          <input
+            value={tagInput}
+            onChange={(e) => {
+              // A typed comma finishes the tag
+              if (e.target.value.endsWith(',')) addTags(e.target.value);
+              else setTagInput(e.target.value);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && normalizeTag(tagInput)) addTags(tagInput);
+              if (e.key === 'Backspace' && !tagInput && tags.length > 0) removeTag(tags[tags.length - 1]);
+            }}
+            onBlur={() => { if (normalizeTag(tagInput)) addTags(tagInput); }}
+            placeholder="add tag"
+            className="w-20 bg-transparent text-[10px] text-white outline-none placeholder-zinc-600"
+          />
+        </div>
+      </div>
+
+      {/* Notes */}
+      <textarea
+        value={notesDraft}
+        onChange={(e) => setNotesDraft(e.target.value)}
+        onBlur={commitNotes}
+        rows={2}
+        placeholder="Notes about this place..."
+        className={`${inputClass} resize-none`}
+      />
+
+      {/* Visit Log */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] uppercase tracking-wider font-bold text-zinc-500">
+            Visits{visits.length > 0 ? ` (${visits.length})` : ''}
+          </span>
+          {!visitDraft && (
+            <button
+              onClick={() => setVisitDraft(emptyDraft())}
+              className="flex items-center gap-1 text-[10px] font-medium text-sky-400 hover:text-sky-300 transition-colors"
+            >
+              <CalendarPlus size={12} /> Log a visit
+            </button>
+          )}
+        </div>
+
+        {visitDraft && (
+          <form onSubmit={saveVisit} className="space-y-2 p-2.5 rounded-lg bg-zinc-900/60 border border-sky-500/30">
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={visitDraft.date}
+                max={todayIsoDate()}
+                onChange={(e) => setVisitDraft({ ...visitDraft, date: e.target.value })}
+                className={`${inputClass} w-auto [color-scheme:dark]`}
+              />
+              <StarPicker value={visitDraft.rating} onChange={(rating) => setVisitDraft({ ...visitDraft, rating })} size={16} />
+            </div>
+            <input
+              value={visitDraft.companions}
+              onChange={(e) => setVisitDraft({ ...visitDraft, companions: e.target.value })}
+              placeholder="With (comma separated)"
+              className={inputClass}
+            />
+            <input
+              value={visitDraft.note}
+              onChange={(e) => setVisitDraft({ ...visitDraft, note: e.target.value })}
+              placeholder="What did you order? Anything to remember?"
+              className={inputClass}
+            />
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                inputMode="decimal"
+                value={visitDraft.spend}
+                onChange={(e) => setVisitDraft({ ...visitDraft, spend: e.target.value })}
+                placeholder="Spend (S$)"
+                className={`${inputClass} w-28`}
+              />
+              {([true, false] as const).map(choice => (
+                <button
+                  key={String(choice)}
+                  type="button"
+                  onClick={() => setVisitDraft({ ...visitDraft, wouldReturn: visitDraft.wouldReturn === choice ? null : choice })}
+                  className={`px-2 py-1 rounded-md text-[10px] font-medium border transition-all ${
+                    visitDraft.wouldReturn === choice
+                      ? choice ? 'bg-emerald-500/20 border-emerald-500 text-emerald-300' : 'bg-rose-500/20 border-rose-500 text-rose-300'
+                      : 'bg-zinc-900 border-zinc-700 text-zinc-400 hover:bg-zinc-800'
+                  }`}
+                >
+                  {choice ? "I'd go back" : 'Once is enough'}
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setVisitDraft(null)} className="px-3 py-1 text-[10px] text-zinc-400 hover:text-white">
+                Cancel
+              </button>
+              <button type="submit" className="px-3 py-1 rounded-md bg-sky-600 hover:bg-sky-500 text-[10px] font-medium text-white">
+                Save visit
+              </button>
+            </div>
+          </form>
+        )}
+
+        {visits.length > 0 ? (
+          <ul className="space-y-1.5">
+            {visits.map(visit => (
+              <VisitEntry key={visit.id} visit={visit} onRemove={() => removeVisit(visit.id)} />
+            ))}
+          </ul>
+        ) : !visitDraft && (
+          <p className="text-[10px] text-zinc-600 italic">No visits logged yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,18 +1,63 @@
-import React, { useState, useEffect } from 'react';
-import { Location, PlaceType, Category } from '../types';
-import { X, CheckCircle2, Circle, MapPin, Utensils, Coffee, Martini, Ticket, HelpCircle, GripVertical, Filter, Trash2 } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Location, PlaceType, Category, Collection, Coordinate } from '../types';
+import { X, CheckCircle2, Circle, MapPin, Utensils, Coffee, Martini, Ticket, HelpCircle, GripVertical, Filter, Trash2, ArrowDownUp, Plus, FolderHeart, CalendarClock, Navigation, Star, Share2, Clock } from 'lucide-react';
 import { motion, AnimatePresence, Reorder, useDragControls } from 'framer-motion';
+import { ImportExportModal } from './ImportExportModal';
+import { ItineraryPanel } from './ItineraryPanel';
+import { formatDistance } from '../utils/geo';
+import { formatVisitDate, sortVisits } from '../services/journal';
+import { RATING_FILTERS, RatingFilter, compareByRating, externalScore, matchesRatingFilter, personalStars } from '../services/ratings';
+import { ListFilters, SortMode } from '../services/listFilters';
+import { ShareLinkError, buildShareUrl } from '../services/sharing';
+import { isOpenAt } from '../services/openingHours';
+import { useNow } from '../hooks/useNow';
 
 interface ListViewProps {
   isOpen: boolean;
   onClose: () => void;
   locations: Location[];
+  allLocations: Location[];
+  collections: Collection[];
+  activeCollectionId: string | null;
+  onSelectCollection: (id: string | null) => void;
+  onCreateCollection: (name: string) => void;
+  onDeleteCollection: (id: string) => void;
   onToggleVisited: (id: string) => void;
   onSelectLocation: (location: Location) => void;
   onReorder: (locations: Location[]) => void;
   onRemove: (id: string) => void;
+  onImport: (locations: Location[]) => void;
+  mapCenter: Coordinate;
+  onPreviewRoute: (path: Coordinate[] | null) => void;
+  userPosition?: Coordinate | null;
+  distances?: Record<string, number> | null; // Metres from the user, keyed by location id
+  onRequestLocation: () => void;
+  filters: ListFilters;
+  onFiltersChange: (filters: ListFilters) => void;
 }
 
+const SORT_CHIPS: { mode: SortMode; label: string }[] = [
+  { mode: 'personal-rating', label: 'My rating' },
+  { mode: 'external-rating', label: 'Web rating' },
+];
+
+// Our stars in amber, the review-site average in grey, side by side
+const RatingBadges = ({ location }: { location: Location }) => {
+  const web = externalScore(location);
+  return (
+    <>
+      {location.rating && (
+        <span className="flex items-center gap-0.5 text-[10px] text-amber-300" title={location.rating.note || 'Your rating'}>
+          <Star size={10} className="fill-amber-300" />{location.rating.stars}
+        </span>
+      )}
+      {web !== null && (
+        <span className="text-[10px] text-zinc-500" title="Average of review sites">{web.toFixed(1)} web</span>
+      )}
+    </>
+  );
+};
+
 const TypeIcon = ({ type }: { type: PlaceType }) => {
   switch (type) {
     case 'Restaurant': return <Utensils size={14} className="text-orange-400" />;
@@ -25,11 +70,12 @@ const TypeIcon = ({ type }: { type: PlaceType }) => {
 
 interface ListItemContentProps {
   location: Location;
+  distance?: number;
   onSelectLocation: (l: Location) => void;
   onRemove: (id: string) => void;
 }
 
-const ListItemContent: React.FC<ListItemContentProps> = ({ location, onSelectLocation, onRemove }) => (
+const ListItemContent: React.FC<ListItemContentProps> = ({ location, distance, onSelectLocation, onRemove }) => (
   <>
     <div 
       className="flex-1 cursor-pointer"
@@ -50,6 +96,10 @@ const ListItemContent: React.FC<ListItemContentProps> = ({ location, onSelectLoc
         }`}>
           {location.category === 'Hidden Gem' ? 'Gem' : 'Trap'}
         </span>
+        <RatingBadges location={location} />
+        {distance !== undefined && (
+          <span className="text-[10px] text-sky-400/80">{formatDistance(distance)}</span>
+        )}
       </div>
     </div>
 
@@ -80,12 +130,13 @@ const ListItemContent: React.FC<ListItemContentProps> = ({ location, onSelectLoc
 
 interface SortableLocationItemProps {
   location: Location;
+  distance?: number;
   onToggleVisited: (id: string) => void;
   onSelectLocation: (l: Location) => void;
   onRemove: (id: string) => void;
 }
 
-const SortableLocationItem: React.FC<SortableLocationItemProps> = ({ location, onToggleVisited, onSelectLocation, onRemove }) => {
+const SortableLocationItem: React.FC<SortableLocationItemProps> = ({ location, distance, onToggleVisited, onSelectLocation, onRemove }) => {
   const dragControls = useDragControls();
 
   return (
@@ -117,14 +168,48 @@ const SortableLocationItem: React.FC<SortableLocationItemProps> = ({ location, o
         <Circle size={20} />
       </button>
       
-      <ListItemContent location={location} onSelectLocation={onSelectLocation} onRemove={onRemove} />
+      <ListItemContent location={location} distance={distance} onSelectLocation={onSelectLocation} onRemove={onRemove} />
     </Reorder.Item>
   );
 };
 
-export const ListView: React.FC<ListViewProps> = ({ isOpen, onClose, locations, onToggleVisited, onSelectLocation, onReorder, onRemove }) => {
-  const [activeTypes, setActiveTypes] = useState<PlaceType[]>([]);
-  const [activeCategories, setActiveCategories] = useState<Category[]>([]);
+export const ListView: React.FC<ListViewProps> = ({
+  isOpen,
+  onClose,
+  locations,
+  allLocations,
+  collections,
+  activeCollectionId,
+  onSelectCollection,
+  onCreateCollection,
+  onDeleteCollection,
+  onToggleVisited,
+  onSelectLocation,
+  onReorder,
+  onRemove,
+  onImport,
+  mapCenter,
+  onPreviewRoute,
+  userPosition,
+  distances,
+  onRequestLocation,
+  filters,
+  onFiltersChange,
+}) => {
+  const { types: activeTypes, categories: activeCategories, rating: ratingFilter, sort: sortMode, openNow } = filters;
+  const now = useNow();
+  const [isExchangeOpen, setIsExchangeOpen] = useState(false);
+  const [shareNotice, setShareNotice] = useState<string | null>(null);
+  const [newCollectionName, setNewCollectionName] = useState<string | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+
+  const activeCollection = collections.find(c => c.id === activeCollectionId) || null;
+
+  const handleCreateCollection = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newCollectionName?.trim()) onCreateCollection(newCollectionName);
+    setNewCollectionName(null);
+  };
 
   // Explicit cleanup of body styles to prevent stuck cursors
   useEffect(() => {
@@ -135,32 +220,90 @@ export const ListView: React.FC<ListViewProps> = ({ isOpen, onClose, locations,
     }
   }, [isOpen]);
 
-  const toVisit = locations.filter(l => !l.visited);
-  const visited = locations.filter(l => l.visited);
+  // Memoised so the itinerary preview only recomputes when the list actually changes
+  const toVisit = useMemo(() => locations.filter(l => !l.visited), [locations]);
+  const visited = useMemo(() => locations.filter(l => l.visited), [locations]);
+
+  const updateFilters = (patch: Partial<ListFilters>) => onFiltersChange({ ...filters, ...patch });
+
+  const setSortMode = (sort: SortMode) => updateFilters({ sort });
 
   const toggleType = (type: PlaceType) => {
-    setActiveTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+    updateFilters({ types: activeTypes.includes(type) ? activeTypes.filter(t => t !== type) : [...activeTypes, type] });
   };
 
   const toggleCategory = (cat: Category) => {
-    setActiveCategories(prev => prev.includes(cat) ? prev.filter(c => c !== cat) : [...prev, cat]);
+    updateFilters({ categories: activeCategories.includes(cat) ? activeCategories.filter(c => c !== cat) : [...activeCategories, cat] });
   };
 
-  const isFiltered = activeTypes.length > 0 || activeCategories.length > 0;
+  const isFiltered = activeTypes.length > 0 || activeCategories.length > 0 || ratingFilter !== 'all' || openNow;
+  const isSortedByDistance = sortMode === 'distance' && !!distances;
+  const isSortedByRating = sortMode === 'personal-rating' || sortMode === 'external-rating';
+  // Manual drag order only makes sense on the full, unsorted list
+  const isReorderable = !isFiltered && !isSortedByDistance && !isSortedByRating;
 
-  const displayToVisit = toVisit.filter(l => {
+  const sortForDisplay = (list: Location[]) => {
+      if (isSortedByDistance) {
+          list.sort((a, b) => (distances![a.id] ?? Infinity) - (distances![b.id] ?? Infinity));
+      } else if (isSortedByRating) {
+          list.sort(compareByRating(sortMode === 'personal-rating' ? personalStars : externalScore));
+      }
+      return list;
+  };
+
+  // Places without readable hours are left out: we can't promise they are open
+  const matchesOpenNow = (location: Location) => !openNow || isOpenAt(location.openingHours, now) === true;
+
+  const displayToVisit = sortForDisplay(toVisit.filter(l => {
      if (activeTypes.length > 0 && !activeTypes.includes(l.placeType)) return false;
      if (activeCategories.length > 0 && !activeCategories.includes(l.category)) return false;
-     return true;
-  });
+     if (!matchesOpenNow(l)) return false;
+     return matchesRatingFilter(l, ratingFilter);
+  }));
+  // Ratings matter most for places already been to, so they apply to the visited list too
+  const displayVisited = sortForDisplay(visited.filter(l => matchesOpenNow(l) && matchesRatingFilter(l, ratingFilter)));
+
+  const toggleSortByDistance = () => {
+      if (sortMode === 'distance') {
+          setSortMode('manual');
+          return;
+      }
+      // Sorting needs a position; ask for one and sort as soon as it arrives
+      if (!distances) onRequestLocation();
+      setSortMode('distance');
+  };
 
   const handleReorder = (newOrder: Location[]) => {
-      if (!isFiltered) {
+      if (isReorderable) {
           const newLocations = [...newOrder, ...visited];
           onReorder(newLocations);
       }
   };
 
+  // Shares what the drawer shows (the active collection, or everything) as a read-only link
+  const handleShare = async () => {
+      const title = activeCollection?.name || 'My Singapore picks';
+      try {
+          const url = await buildShareUrl(title, locations);
+          if (navigator.share) {
+              await navigator.share({ title, url });
+              return;
+          }
+          await navigator.clipboard.writeText(url);
+          setShareNotice('Link copied. Anyone with it can view these places.');
+      } catch (error: any) {
+          if (error?.name === 'AbortError') return; // Share sheet dismissed
+          console.warn('Sharing failed', error);
+          setShareNotice(error instanceof ShareLinkError ? error.message : 'Could not create a share link.');
+      }
+      setTimeout(() => setShareNotice(null), 4000);
+  };
+
+  const togglePlanning = () => {
+      if (isPlanning) onPreviewRoute(null);
+      setIsPlanning(prev => !prev);
+  };
+
   return (
     <AnimatePresence mode="wait">
       {isOpen && (
@@ -187,10 +330,92 @@ export const ListView: React.FC<ListViewProps> = ({ isOpen, onClose, locations,
           >
             {/* Header */}
             <div className="p-6 border-b border-zinc-800 flex justify-between items-center bg-zinc-900/50">
-              <h2 className="text-xl font-bold text-white">Your Itinerary</h2>
-              <button onClick={onClose} className="text-zinc-400 hover:text-white transition-colors">
-                <X size={24} />
-              </button>
+              <h2 className="text-xl font-bold text-white truncate">{activeCollection?.name || 'Your Itinerary'}</h2>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={handleShare}
+                  disabled={locations.length === 0}
+                  className="text-zinc-400 hover:text-white transition-colors disabled:opacity-40"
+                  title="Share as a link"
+                >
+                  <Share2 size={20} />
+                </button>
+                <button
+                  onClick={() => setIsExchangeOpen(true)}
+                  className="text-zinc-400 hover:text-white transition-colors"
+                  title="Import / Export"
+                >
+                  <ArrowDownUp size={20} />
+                </button>
+                <button onClick={onClose} className="text-zinc-400 hover:text-white transition-colors">
+                  <X size={24} />
+                </button>
+              </div>
+            </div>
+
+            {shareNotice && (
+              <p className="px-6 py-2 text-[11px] text-sky-300 bg-sky-500/10 border-b border-zinc-800">{shareNotice}</p>
+            )}
+
+            {/* Collections */}
+            <div className="px-6 py-3 border-b border-zinc-800/50 overflow-x-auto whitespace-nowrap scrollbar-hide">
+              <div className="flex items-center gap-2">
+                <FolderHeart size={14} className="text-zinc-500 shrink-0" />
+                <button
+                  onClick={() => onSelectCollection(null)}
+                  className={`px-3 py-1.5 rounded-full text-[10px] font-medium border transition-all ${
+                    !activeCollectionId
+                      ? 'bg-white/10 border-zinc-400 text-white'
+                      : 'bg-zinc-900 border-zinc-700 text-zinc-400 hover:bg-zinc-800'
+                  }`}
+                >
+                  All places
+                </button>
+                {collections.map(collection => (
+                  <div
+                    key={collection.id}
+                    className={`flex items-center gap-1.5 pl-3 pr-2 py-1.5 rounded-full text-[10px] font-medium border transition-all ${
+                      collection.id === activeCollectionId
+                        ? 'bg-white/10 border-zinc-400 text-white'
+                        : 'bg-zinc-900 border-zinc-700 text-zinc-400 hover:bg-zinc-800'
+                    }`}
+                  >
+                    <button onClick={() => onSelectCollection(collection.id)} className="flex items-center gap-1.5">
+                      <span className="w-2 h-2 rounded-full" style={{ background: collection.color }} />
+                      {collection.name}
+                      <span className="text-zinc-500">{collection.locationIds.length}</span>
+                    </button>
+                    {collection.id === activeCollectionId && (
+                      <button
+                        onClick={() => onDeleteCollection(collection.id)}
+                        className="text-zinc-500 hover:text-rose-400 transition-colors"
+                        title="Delete collection (places are kept)"
+                      >
+                        <X size={12} />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {newCollectionName === null ? (
+                  <button
+                    onClick={() => setNewCollectionName('')}
+                    className="flex items-center gap-1 px-2.5 py-1.5 rounded-full text-[10px] font-medium border border-dashed border-zinc-700 text-zinc-500 hover:text-zinc-300 transition-colors"
+                  >
+                    <Plus size={12} /> New
+                  </button>
+                ) : (
+                  <form onSubmit={handleCreateCollection}>
+                    <input
+                      autoFocus
+                      value={newCollectionName}
+                      onChange={(e) => setNewCollectionName(e.target.value)}
+                      onBlur={handleCreateCollection}
+                      placeholder="Collection name"
+                      className="w-32 bg-zinc-900 border border-zinc-700 rounded-full px-3 py-1 text-[10px] text-white outline-none focus:border-sky-500"
+                    />
+                  </form>
+                )}
+              </div>
             </div>
 
             {/* Filter Section */}
@@ -219,6 +444,62 @@ export const ListView: React.FC<ListViewProps> = ({ isOpen, onClose, locations,
 
                  <div className="w-px h-4 bg-zinc-800 mx-1"></div>
 
+                 <button
+                     onClick={toggleSortByDistance}
+                     className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-[10px] font-medium border transition-all ${
+                         sortMode === 'distance'
+                         ? 'bg-sky-500/20 border-sky-500 text-sky-300'
+                         : 'bg-zinc-900 border-zinc-700 text-zinc-400 hover:bg-zinc-800'
+                     }`}
+                 >
+                     <Navigation size={10} />
+                     {sortMode === 'distance' && !distances ? 'Locating...' : 'Nearest first'}
+                 </button>
+
+                 {SORT_CHIPS.map(({ mode, label }) => (
+                    <button
+                        key={mode}
+                        onClick={() => setSortMode(sortMode === mode ? 'manual' : mode)}
+                        className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-[10px] font-medium border transition-all ${
+                            sortMode === mode
+                            ? 'bg-amber-500/20 border-amber-500 text-amber-300'
+                            : 'bg-zinc-900 border-zinc-700 text-zinc-400 hover:bg-zinc-800'
+                        }`}
+                    >
+                        <Star size={10} />
+                        {label}
+                    </button>
+                 ))}
+
+                 <button
+                     onClick={() => updateFilters({ openNow: !openNow })}
+                     className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-[10px] font-medium border transition-all ${
+                         openNow
+                         ? 'bg-emerald-500/20 border-emerald-500 text-emerald-300'
+                         : 'bg-zinc-900 border-zinc-700 text-zinc-400 hover:bg-zinc-800'
+                     }`}
+                     title="Only places open right now (needs opening hours)"
+                 >
+                     <Clock size={10} />
+                     Open now
+                 </button>
+
+                 <select
+                     value={ratingFilter}
+                     onChange={(e) => updateFilters({ rating: e.target.value as RatingFilter })}
+                     className={`px-2 py-1.5 rounded-full text-[10px] font-medium border outline-none transition-all ${
+                         ratingFilter !== 'all'
+                         ? 'bg-amber-500/20 border-amber-500 text-amber-300'
+                         : 'bg-zinc-900 border-zinc-700 text-zinc-400'
+                     }`}
+                 >
+                     {RATING_FILTERS.map(({ value, label }) => (
+                         <option key={value} value={value}>{label}</option>
+                     ))}
+                 </select>
+
+                 <div className="w-px h-4 bg-zinc-800 mx-1"></div>
+
                  {(['Restaurant', 'Bar', 'Cafe', 'Activity', 'Other'] as PlaceType[]).map(type => (
                     <button
                         key={type}
@@ -241,14 +522,40 @@ export const ListView: React.FC<ListViewProps> = ({ isOpen, onClose, locations,
               <div className="space-y-4">
                 <div className="flex justify-between items-center pl-2 pr-2">
                     <h3 className="text-xs font-bold uppercase tracking-wider text-zinc-500">To Visit ({displayToVisit.length})</h3>
-                    {isFiltered && <span className="text-[10px] text-zinc-600 italic">Reorder disabled while filtering</span>}
+                    {!isReorderable ? (
+                      <span className="text-[10px] text-zinc-600 italic">
+                        Reorder disabled while {isFiltered ? 'filtering' : isSortedByDistance ? 'sorting by distance' : 'sorting by rating'}
+                      </span>
+                    ) : toVisit.length > 1 && (
+                      <button
+                        onClick={togglePlanning}
+                        className={`flex items-center gap-1 text-[10px] font-medium transition-colors ${isPlanning ? 'text-sky-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+                      >
+                        <CalendarClock size={12} />
+                        {isPlanning ? 'Close planner' : 'Plan my day'}
+                      </button>
+                    )}
                 </div>
+
+                {isPlanning && isReorderable && (
+                  <ItineraryPanel
+                    locations={toVisit}
+                    mapCenter={mapCenter}
+                    userPosition={userPosition}
+                    onApplyOrder={handleReorder}
+                    onPreviewRoute={onPreviewRoute}
+                  />
+                )}
                 
                 {displayToVisit.length === 0 ? (
                   <div className="text-center py-8 text-zinc-600 text-sm italic">
-                    {isFiltered ? "No places match filters." : "All caught up! Add more places."}
+                    {isFiltered
+                      ? "No places match filters."
+                      : activeCollection && locations.length === 0
+                        ? "This collection is empty. Add places from their detail card."
+                        : "All caught up! Add more places."}
                   </div>
-                ) : isFiltered ? (
+                ) : !isReorderable ? (
                     displayToVisit.map(location => (
                         <div 
                           key={location.id}
@@ -263,7 +570,7 @@ export const ListView: React.FC<ListViewProps> = ({ isOpen, onClose, locations,
                           >
                               <Circle size={20} />
                           </button>
-                          <ListItemContent location={location} onSelectLocation={onSelectLocation} onRemove={onRemove} />
+                          <ListItemContent location={location} distance={distances?.[location.id]} onSelectLocation={onSelectLocation} onRemove={onRemove} />
                         </div>
                     ))
                 ) : (
@@ -272,6 +579,7 @@ export const ListView: React.FC<ListViewProps> = ({ isOpen, onClose, locations,
                             <SortableLocationItem 
                               key={location.id}
                               location={location}
+                              distance={distances?.[location.id]}
                               onToggleVisited={onToggleVisited}
                               onSelectLocation={onSelectLocation}
                               onRemove={onRemove}
@@ -281,10 +589,10 @@ export const ListView: React.FC<ListViewProps> = ({ isOpen, onClose, locations,
                 )}
               </div>
 
-              {visited.length > 0 && (
+              {displayVisited.length > 0 && (
                 <div className="space-y-4">
-                  <h3 className="text-xs font-bold uppercase tracking-wider text-zinc-500 pl-2">visited ({visited.length})</h3>
-                  {visited.map(location => (
+                  <h3 className="text-xs font-bold uppercase tracking-wider text-zinc-500 pl-2">visited ({displayVisited.length})</h3>
+                  {displayVisited.map(location => (
                     <div 
                       key={location.id}
                       className="group flex items-center gap-3 p-3 rounded-xl bg-zinc-900/30 border border-transparent opacity-60 hover:opacity-100 transition-all"
@@ -308,6 +616,10 @@ export const ListView: React.FC<ListViewProps> = ({ isOpen, onClose, locations,
                         </div>
                         <div className="flex items-center gap-2 mt-1">
                           <span className="text-[10px] text-zinc-500">{location.placeType}</span>
+                          <RatingBadges location={location} />
+                          {location.visits && location.visits.length > 0 && (
+                            <span className="text-[10px] text-zinc-500">{formatVisitDate(sortVisits(location.visits)[0].date)}</span>
+                          )}
                         </div>
                       </div>
 
@@ -328,6 +640,14 @@ export const ListView: React.FC<ListViewProps> = ({ isOpen, onClose, locations,
                 </div>
               )}
             </div>
+
+            <ImportExportModal
+              isOpen={isExchangeOpen}
+              onClose={() => setIsExchangeOpen(false)}
+              locations={locations}
+              existingLocations={allLocations}
+              onImport={onImport}
+            />
           </motion.div>
         </>
       )}
@@ -1,18 +1,64 @@
-import React, { useEffect, useState } from 'react';
-import { Location, PlaceType } from '../types';
-import { Navigation, X, Lightbulb, Loader2, Star, Globe, Utensils, Coffee, Martini, Ticket, CheckCircle2, Circle, Plus, Trash2, AlertCircle } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Location, PlaceType, Collection, Coordinate, PersonalRating, ExternalRating, GemScore, GemSignals } from '../types';
+import { Navigation, X, Lightbulb, Loader2, Star, Globe, Utensils, Coffee, Martini, Ticket, CheckCircle2, Circle, Plus, Trash2, AlertCircle, FolderHeart, RefreshCw, WifiOff, Pencil, ImagePlus, Gem } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { GoogleGenAI } from "@google/genai";
+import { DirectionsPanel } from './DirectionsPanel';
+import { Route } from '../services/routing';
+import { formatDistance } from '../utils/geo';
+import { formatTimeAgo } from '../utils/time';
+import { usePlaceInsights } from '../hooks/usePlaceInsights';
+import { StarPicker } from './StarPicker';
+import { JournalPanel } from './JournalPanel';
+import { PlaceDetailsPanel } from './PlaceDetailsPanel';
+import { usePlacePhotos } from '../hooks/usePlacePhotos';
+import { savePhotoUpload } from '../services/photos';
+import { averageExternalScore, formatReviewCount } from '../services/ratings';
+import { gemScoreColor, scoreLocation } from '../services/gemScore';
+import { useGemThreshold } from '../hooks/useGemThreshold';
 
 interface LocationCardProps {
   location: Location | null;
   onClose: () => void;
   onToggleVisited: (id: string) => void;
+  onUpdate: (id: string, patch: Partial<Location>) => void;
+  onInsightsFetched: (id: string, ratings: ExternalRating[], assessment?: GemSignals['ai']) => void;
+  onEdit: (id: string) => void;
   onAdd: (location: Location) => void;
   onRemove: (id: string) => void;
   isSaved: boolean;
+  collections: Collection[];
+  onToggleCollection: (locationId: string, collectionId: string) => void;
+  mapCenter: Coordinate;
+  userPosition?: Coordinate | null;
+  distance?: number; // Metres from the user, when their position is known
+  onRouteChange: (route: Route | null) => void;
 }
 
+// Where the place sits between trap and gem, with the threshold marked and what drove the score
+const GemScoreMeter = ({ gemScore, threshold }: { gemScore: GemScore; threshold: number }) => (
+  <div className="p-3 bg-zinc-800/40 rounded-xl border border-zinc-800">
+    <div className="flex items-center gap-2 mb-2">
+      <Gem size={14} style={{ color: gemScoreColor(gemScore.score) }} />
+      <h4 className="text-xs font-bold uppercase tracking-wider text-zinc-300">Gem Score</h4>
+      <span className="ml-auto text-sm font-bold" style={{ color: gemScoreColor(gemScore.score) }}>
+        {gemScore.score}<span className="text-[10px] text-zinc-500">/100</span>
+      </span>
+    </div>
+    <div className="relative h-1.5 rounded-full bg-gradient-to-r from-rose-500 via-amber-400 to-emerald-400">
+      <div className="absolute -top-1 w-0.5 h-3.5 bg-zinc-500" style={{ left: `${threshold}%` }} title={`Gem threshold: ${threshold}`} />
+      <div
+        className="absolute -top-1 w-3.5 h-3.5 -ml-[7px] rounded-full border-2 border-zinc-900 bg-white shadow"
+        style={{ left: `${gemScore.score}%` }}
+      />
+    </div>
+    <div className="flex justify-between mt-1 text-[9px] uppercase tracking-wider text-zinc-600">
+      <span>Tourist trap</span>
+      <span>Hidden gem</span>
+    </div>
+    {gemScore.explanation && <p className="mt-1.5 text-xs text-zinc-400">{gemScore.explanation}</p>}
+  </div>
+);
+
 const TypeBadge = ({ type }: { type: PlaceType }) => {
   const iconMap = {
     Restaurant: Utensils,
@@ -31,77 +77,86 @@ const TypeBadge = ({ type }: { type: PlaceType }) => {
   );
 };
 
-export const LocationCard: React.FC<LocationCardProps> = ({ location, onClose, onToggleVisited, onAdd, onRemove, isSaved }) => {
-  const [tip, setTip] = useState<string | null>(null);
-  const [webInsights, setWebInsights] = useState<{rating?: string, summary: string, sources: any[]} | null>(null);
-  const [loadingTip, setLoadingTip] = useState(false);
-  const [loadingInsights, setLoadingInsights] = useState(false);
-  const [quotaExceeded, setQuotaExceeded] = useState(false);
+export const LocationCard: React.FC<LocationCardProps> = ({ location, onClose, onToggleVisited, onUpdate, onInsightsFetched, onEdit, onAdd, onRemove, isSaved, collections, onToggleCollection, mapCenter, userPosition, distance, onRouteChange }) => {
+  const { insights, loadingTip, loadingSummary, quotaExceeded, isOffline, isStale, refresh } = usePlaceInsights(location);
+  const [showDirections, setShowDirections] = useState(false);
+
+  const [noteDraft, setNoteDraft] = useState('');
+  const { photos } = usePlacePhotos(location);
+  const [activePhotoId, setActivePhotoId] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    if (location) {
-      setTip(null);
-      setWebInsights(null);
-      setQuotaExceeded(false);
-      setLoadingTip(true);
-      setLoadingInsights(true);
-      
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    setShowDirections(false);
+    setNoteDraft(location?.rating?.note || '');
+    setActivePhotoId(null);
+  }, [location?.id]);
 
-      // 1. Fetch Quick Tip (Flash Lite)
-      const fetchTip = async () => {
-        try {
-          const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-lite',
-            contents: `Give me exactly one interesting, short, unique travel tip (under 20 words) for visiting ${location.name} in Singapore.`,
-          });
-          setTip(response.text || "Enjoy your visit!");
-        } catch (error: any) {
-          // If quota exceeded or other error, provide generic fallback
-          if (error.message?.includes('429') || error.message?.includes('quota')) {
-             setTip("Discovering this place is half the fun!");
-          } else {
-             setTip("Enjoy your visit!");
-          }
-        } finally {
-          setLoadingTip(false);
-        }
-      };
-      
-      // 2. Fetch Web Ratings (Flash 3 Preview + Google Search)
-      const fetchInsights = async () => {
-        try {
-          const response = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: `Search for current ratings and reviews of "${location.name}" in Singapore from sources like Google Maps, TripAdvisor, and food blogs. 
-            Provide a very brief summary (1-2 sentences) of the general sentiment (e.g., "Highly rated for brunch", "Mixed reviews on service"). 
-            If you find a numeric rating out of 5, mention it.`,
-            config: {
-              tools: [{ googleSearch: {} }],
-            },
-          });
-          
-          const text = response.text || "No reviews found.";
-          const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-          
-          setWebInsights({
-            summary: text,
-            sources: sources.map((c: any) => c.web).filter((w: any) => w),
-          });
-        } catch (error: any) {
-          if (error.message?.includes('429') || error.message?.includes('quota')) {
-              setQuotaExceeded(true);
-          }
-          setWebInsights(null);
-        } finally {
-          setLoadingInsights(false);
-        }
-      };
+  const heroPhoto = photos.find(p => p.id === activePhotoId) || photos[0];
 
-      fetchTip();
-      fetchInsights();
+  const handleUpload = async (files: FileList | null) => {
+    if (!location || !files || files.length === 0) return;
+    setIsUploading(true);
+    try {
+      const added = await Promise.all(Array.from(files).filter(f => f.type.startsWith('image/')).map(savePhotoUpload));
+      if (added.length > 0) {
+        onUpdate(location.id, { photos: [...(location.photos || []), ...added] });
+        setActivePhotoId(added[added.length - 1].id);
+      }
+    } catch (error) {
+      console.error('Saving photo failed', error);
+      alert('Sorry, that photo could not be saved.');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
     }
-  }, [location]);
+  };
+
+  const handleRemovePhoto = (id: string) => {
+    if (!location?.photos) return;
+    onUpdate(location.id, { photos: location.photos.filter(p => p.id !== id) });
+    if (activePhotoId === id) setActivePhotoId(null);
+  };
+
+  // Keep the saved place's review-site scores and gem score in step with the latest
+  // insights so the list can sort and filter by them and the map can colour by them
+  const latestRatings = insights?.ratings;
+  const latestAssessment = insights?.assessment;
+  useEffect(() => {
+    if (!location || !isSaved) return;
+    const hasNewRatings = !!latestRatings?.length && location.externalRatings?.[0]?.fetchedAt !== latestRatings[0].fetchedAt;
+    const hasNewAssessment = !!latestAssessment && location.gemScore?.signals.ai?.reason !== latestAssessment.reason;
+    if (!hasNewRatings && !hasNewAssessment) return;
+    onInsightsFetched(location.id, hasNewRatings ? latestRatings! : location.externalRatings || [], latestAssessment);
+  }, [latestRatings, latestAssessment, isSaved, location?.id]);
+
+  // Saved places carry their score; anything else is scored on the fly from what the card knows
+  const gemThreshold = useGemThreshold();
+  const gemScore = useMemo(() => {
+    if (!location) return null;
+    if (isSaved) return location.gemScore ?? null;
+    return scoreLocation(
+      { ...location, externalRatings: latestRatings?.length ? latestRatings : location.externalRatings },
+      latestAssessment && { ai: latestAssessment }
+    );
+  }, [location, isSaved, latestRatings, latestAssessment]);
+
+  const setPersonalRating = (stars: number, note: string) => {
+    if (!location) return;
+    const trimmed = note.trim();
+    const rating: PersonalRating | undefined = stars > 0
+      ? { stars, ...(trimmed && { note: trimmed }), ratedAt: new Date().toISOString() }
+      : undefined;
+    onUpdate(location.id, { rating });
+  };
+
+  const commitNote = () => {
+    if (!location?.rating || (location.rating.note || '') === noteDraft.trim()) return;
+    setPersonalRating(location.rating.stars, noteDraft);
+  };
+
+  const webScore = averageExternalScore(insights?.ratings);
 
   return (
     <AnimatePresence>
@@ -118,13 +173,35 @@ export const LocationCard: React.FC<LocationCardProps> = ({ location, onClose, o
             {/* Image Header */}
             <div className="h-48 w-full relative">
               <img 
-                src={location.image} 
+                src={heroPhoto?.src} 
                 alt={location.name} 
                 className="w-full h-full object-cover"
               />
               <div className="absolute inset-0 bg-gradient-to-t from-zinc-900 via-zinc-900/40 to-transparent" />
+              {heroPhoto?.source === 'remote' && (
+                <a
+                  href={heroPhoto.pageUrl}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="absolute top-3 left-3 max-w-[50%] truncate px-2 py-0.5 rounded bg-black/40 text-[9px] text-white/60 hover:text-white backdrop-blur-sm"
+                >
+                  📷 {heroPhoto.attribution || 'Wikimedia Commons / OpenStreetMap'}
+                </a>
+              )}
               
               <div className="absolute top-3 right-3 flex items-center gap-2">
+                {isSaved && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onEdit(location.id);
+                    }}
+                    className="p-2 bg-black/40 hover:bg-black/60 text-white/80 hover:text-white rounded-full backdrop-blur-sm transition-colors"
+                    title="Edit Location"
+                  >
+                    <Pencil size={20} />
+                  </button>
+                )}
                 {isSaved && (
                   <button 
                     onClick={(e) => {
@@ -159,6 +236,12 @@ export const LocationCard: React.FC<LocationCardProps> = ({ location, onClose, o
                             : 'bg-rose-500/20 text-rose-300 border border-rose-500/30'
                         }`}>
                             {location.category === 'Hidden Gem' ? '💎 Hidden Gem' : '📸 Tourist Trap'}
+                            {gemScore && <span className="ml-1 opacity-70">{gemScore.score}</span>}
+                        </span>
+                    )}
+                    {distance !== undefined && (
+                        <span className="inline-block px-2 py-1 rounded-lg text-xs font-semibold bg-black/40 text-sky-300 border border-sky-500/30 backdrop-blur-sm">
+                            {formatDistance(distance)} away
                         </span>
                     )}
                 </div>
@@ -194,18 +277,131 @@ export const LocationCard: React.FC<LocationCardProps> = ({ location, onClose, o
                 )}
                
                 <button 
-                  className="flex-1 py-3 bg-sky-600 hover:bg-sky-500 text-white rounded-xl font-medium flex items-center justify-center gap-2 transition-all shadow-lg shadow-sky-900/20"
-                  onClick={() => alert(`Navigating to ${location.name}...`)}
+                  className={`flex-1 py-3 rounded-xl font-medium flex items-center justify-center gap-2 transition-all shadow-lg shadow-sky-900/20 ${
+                    showDirections
+                      ? 'bg-sky-500/20 text-sky-300 border border-sky-500/50'
+                      : 'bg-sky-600 hover:bg-sky-500 text-white'
+                  }`}
+                  onClick={() => setShowDirections(prev => !prev)}
                 >
                   <Navigation size={18} />
                   Directions
                 </button>
               </div>
 
+              {/* Photo Gallery */}
+              {(photos.length > 1 || isSaved) && (
+                <div className="flex gap-2 overflow-x-auto scrollbar-hide -mx-1 px-1">
+                  {photos.filter(p => p.source !== 'placeholder').map(photo => (
+                    <div key={photo.id} className="relative shrink-0 group">
+                      <button
+                        onClick={() => setActivePhotoId(photo.id)}
+                        className={`block w-16 h-12 rounded-lg overflow-hidden border-2 transition-all ${
+                          photo.id === heroPhoto?.id ? 'border-sky-500' : 'border-transparent opacity-70 hover:opacity-100'
+                        }`}
+                      >
+                        <img src={photo.thumbSrc} alt="" loading="lazy" className="w-full h-full object-cover" />
+                      </button>
+                      {photo.source === 'upload' && (
+                        <button
+                          onClick={() => handleRemovePhoto(photo.id)}
+                          className="absolute -top-1 -right-1 p-0.5 rounded-full bg-zinc-900 border border-zinc-700 text-zinc-400 hover:text-rose-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                          title="Remove photo"
+                        >
+                          <X size={10} />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {isSaved && (
+                    <>
+                      <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isUploading}
+                        className="shrink-0 w-16 h-12 rounded-lg border border-dashed border-zinc-700 text-zinc-500 hover:text-sky-400 hover:border-sky-500/50 flex items-center justify-center transition-colors disabled:opacity-50"
+                        title="Add your own photos"
+                      >
+                        {isUploading ? <Loader2 size={16} className="animate-spin" /> : <ImagePlus size={16} />}
+                      </button>
+                      <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => handleUpload(e.target.files)}
+                      />
+                    </>
+                  )}
+                </div>
+              )}
+
+              {showDirections && (
+                <DirectionsPanel
+                  destination={location}
+                  mapCenter={mapCenter}
+                  userPosition={userPosition}
+                  onRouteChange={onRouteChange}
+                />
+              )}
+
               <p className="text-zinc-400 text-sm leading-relaxed">
                 {location.description || "No description available."}
               </p>
 
+              <PlaceDetailsPanel location={location} />
+
+              {/* Collection Membership */}
+              {isSaved && collections.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <FolderHeart size={14} className="text-zinc-500" />
+                  {collections.map(collection => {
+                    const isMember = collection.locationIds.includes(location.id);
+                    return (
+                      <button
+                        key={collection.id}
+                        onClick={() => onToggleCollection(location.id, collection.id)}
+                        className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-medium border transition-all ${
+                          isMember
+                            ? 'bg-white/10 border-zinc-400 text-white'
+                            : 'bg-zinc-900 border-zinc-700 text-zinc-500 hover:text-zinc-300'
+                        }`}
+                      >
+                        <span className="w-2 h-2 rounded-full" style={{ background: isMember ? collection.color : 'transparent', border: `1px solid ${collection.color}` }} />
+                        {collection.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Personal Rating */}
+              {isSaved && (
+                <div className="p-3 bg-zinc-800/40 rounded-xl border border-zinc-800 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] uppercase tracking-wider font-bold text-amber-300">Your Rating</span>
+                    <StarPicker
+                      value={location.rating?.stars ?? 0}
+                      onChange={(stars) => setPersonalRating(stars, noteDraft)}
+                    />
+                  </div>
+                  {location.rating && (
+                    <input
+                      type="text"
+                      value={noteDraft}
+                      onChange={(e) => setNoteDraft(e.target.value)}
+                      onBlur={commitNote}
+                      onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                      placeholder="Add a note (e.g. get the laksa, skip the coffee)"
+                      maxLength={140}
+                      className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-1.5 text-xs text-white outline-none focus:ring-1 focus:ring-amber-400/60 placeholder-zinc-600"
+                    />
+                  )}
+                </div>
+              )}
+
+              {isSaved && <JournalPanel location={location} onUpdate={onUpdate} />}
+
               {/* AI Quick Tip */}
               <div className="p-3 bg-indigo-900/20 border border-indigo-500/30 rounded-xl flex items-start gap-3">
                 <div className="mt-0.5 p-1 bg-indigo-500/20 rounded-full text-indigo-300">
@@ -213,38 +409,77 @@ export const LocationCard: React.FC<LocationCardProps> = ({ location, onClose, o
                 </div>
                 <div className="flex-1">
                   <div className="text-[10px] uppercase tracking-wider font-bold text-indigo-400 mb-0.5">Gemini Tip</div>
-                  {loadingTip ? (
+                  {loadingTip && !insights?.tip ? (
                      <div className="flex items-center gap-2 text-xs text-zinc-500">
                        <Loader2 size={12} className="animate-spin" /> Thinking...
                      </div>
                   ) : (
-                    <p className="text-xs text-zinc-300 italic">"{tip}"</p>
+                    <p className="text-xs text-zinc-300 italic">"{insights?.tip || "Enjoy your visit!"}"</p>
                   )}
                 </div>
               </div>
 
+              {gemScore && <GemScoreMeter gemScore={gemScore} threshold={gemThreshold} />}
+
               {/* Web Ratings & Insights */}
               <div className="p-4 bg-zinc-800/40 rounded-xl border border-zinc-800">
                 <div className="flex items-center gap-2 mb-2">
                    <Globe size={14} className="text-emerald-400" />
                    <h4 className="text-xs font-bold uppercase tracking-wider text-emerald-400">Web Ratings & Reviews</h4>
+                   {webScore !== null && (
+                       <span className="flex items-center gap-0.5 text-xs font-bold text-amber-300">
+                           <Star size={12} className="fill-amber-300" /> {webScore.toFixed(1)}
+                       </span>
+                   )}
+                   <div className="ml-auto flex items-center gap-2 text-[10px] text-zinc-500">
+                       {insights && insights.fetchedAt > 0 && (
+                           <span className={isStale ? 'text-amber-500/80' : ''}>{formatTimeAgo(insights.fetchedAt)}</span>
+                       )}
+                       <button
+                           onClick={refresh}
+                           disabled={isOffline || loadingSummary}
+                           className="p-1 rounded-md hover:bg-zinc-700 hover:text-zinc-200 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                           title={isOffline ? 'Offline' : 'Refresh insights'}
+                       >
+                           <RefreshCw size={12} className={loadingSummary ? 'animate-spin' : ''} />
+                       </button>
+                   </div>
                 </div>
+
+                {isOffline && (
+                    <div className="flex items-center gap-1.5 text-[10px] text-zinc-500 mb-2">
+                       <WifiOff size={12} /> Offline{insights?.summary ? ', showing saved insights' : ''}
+                    </div>
+                )}
                 
-                {loadingInsights ? (
+                {loadingSummary && !insights?.summary ? (
                     <div className="flex items-center gap-2 text-xs text-zinc-500 py-2">
                        <Loader2 size={14} className="animate-spin" /> Checking Google & TripAdvisor...
                     </div>
-                ) : quotaExceeded ? (
+                ) : quotaExceeded && !insights?.summary ? (
                     <div className="flex items-center gap-2 text-xs text-amber-500/80 py-1">
                        <AlertCircle size={14} />
                        <span>AI usage limit reached. Please try again later.</span>
                     </div>
-                ) : webInsights ? (
+                ) : insights?.summary ? (
                     <div className="space-y-2">
-                        <p className="text-sm text-zinc-300">{webInsights.summary}</p>
-                        {webInsights.sources.length > 0 && (
+                        <p className="text-sm text-zinc-300">{insights.summary}</p>
+                        {insights.ratings.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5">
+                                {insights.ratings.map(rating => (
+                                    <span key={rating.source} className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-zinc-900 border border-zinc-700 text-[10px] text-zinc-300">
+                                        <span className="text-zinc-500">{rating.source}</span>
+                                        <span className="font-bold text-amber-300">{rating.score.toFixed(1)}</span>
+                                        {rating.reviewCount !== undefined && (
+                                            <span className="text-zinc-500">({formatReviewCount(rating.reviewCount)})</span>
+                                        )}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                        {insights.sources.length > 0 && (
                             <div className="flex flex-wrap gap-2 pt-1">
-                                {webInsights.sources.slice(0, 3).map((source: any, i: number) => (
+                                {insights.sources.slice(0, 3).map((source, i) => (
                                     <a 
                                         key={i} 
                                         href={source.uri} 
@@ -1,9 +1,13 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { MapContainer, TileLayer, Marker, useMap, useMapEvents } from 'react-leaflet';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
+import { MapContainer, TileLayer, Marker, Polyline, Popup, Circle, CircleMarker, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
-import { Location, Coordinate } from '../types';
+import { Location, Coordinate, Collection, MapViewState, Bounds } from '../types';
+import { getLocationAccent } from '../services/collections';
+import { gemScoreColor } from '../services/gemScore';
+import { Cluster, ClusterInput, clusterByGrid, spiderfyOffsets } from '../utils/clustering';
+import { GeoPosition, GeolocationStatus } from '../hooks/useGeolocation';
 import { DARK_MAP_URL, MAP_ATTRIBUTION, INITIAL_VIEW_STATE } from '../constants';
-import { Loader2, Search } from 'lucide-react';
+import { Loader2, Search, LocateFixed, LocateOff, CloudDownload, ChevronsDown, ZoomIn, Sparkles, Plus, MessageSquare, X } from 'lucide-react';
 import { motion } from 'framer-motion';
 
 // Fix for default Leaflet marker icons in React
@@ -19,27 +23,61 @@ interface MapBoardProps {
   suggestedLocations?: Location[];
   onMarkerClick: (location: Location) => void;
   onCenterChange: (center: Coordinate) => void;
+  onViewChange?: (view: MapViewState) => void;
+  onBoundsChange?: (bounds: Bounds) => void; // The visible area, on load and after every move
+  initialView?: MapViewState; // Where the map opens, e.g. restored from the URL
   onMapClick?: (coordinate: Coordinate) => void;
-  onSearchArea?: (bounds: any) => void;
+  onSearchArea?: (bounds: Bounds) => void;
   isSearchingArea?: boolean;
+  suggestionsRemaining?: number; // Found by the last area search but not shown yet
+  suggestionsTruncated?: boolean; // Part of the area held more than one search returns, even split up
+  hasMoreSuggestionAreas?: boolean; // Parts of the area still to be searched
+  onShowMoreSuggestions?: () => void;
   selectedLocationId: string | null;
   searchResult: Location | null;
+  collections?: Collection[];
+  activeCollectionId?: string | null; // Preferred colour when a place is in several collections
+  itineraryPath?: Coordinate[] | null;
+  directionsPath?: Coordinate[] | null;
+  userPosition?: GeoPosition | null;
+  geolocationStatus?: GeolocationStatus;
+  geolocationError?: string | null; // Why the last location request failed
+  onRequestLocation?: () => void;
+  onLocationMove?: (id: string, coordinate: Coordinate) => void; // Makes the selected saved pin draggable
+  onDownloadArea?: (view: { bounds: Bounds; zoom: number }) => void;
+  colorByGemScore?: boolean; // Ring saved pins and fill suggestion dots by gem score
+  chatPins?: Location[]; // Places from a chat reply, shown until added or dismissed
+  onAddChatPin?: (place: Location) => void;
+  onOpenChatPin?: (place: Location) => void; // Back to the reply that suggested it
+  onAddAllChatPins?: () => void;
+  onDismissChatPins?: () => void;
 }
 
 // Component to handle map center updates and search button visibility
 const MapInteractivity = ({ 
   onCenterChange, 
+  onViewChange,
+  onBoundsChange,
   onSearchArea, 
   isSearching 
 }: { 
   onCenterChange: (c: Coordinate) => void,
-  onSearchArea?: (bounds: any) => void,
+  onViewChange?: (view: MapViewState) => void,
+  onBoundsChange?: (bounds: Bounds) => void,
+  onSearchArea?: (bounds: Bounds) => void,
   isSearching?: boolean
 }) => {
+  const reportBounds = () => {
+    const bounds = map.getBounds();
+    onBoundsChange?.({ north: bounds.getNorth(), south: bounds.getSouth(), east: bounds.getEast(), west: bounds.getWest() });
+  };
+
   const map = useMapEvents({
     moveend: () => {
       const center = map.getCenter();
       onCenterChange({ lat: center.lat, lng: center.lng });
+      onViewChange?.({ center: { lat: center.lat, lng: center.lng }, zoom: map.getZoom() });
+      reportBounds();
       setShowSearch(true);
     },
     zoomend: () => {
@@ -50,6 +88,10 @@ const MapInteractivity = ({
   const [showSearch, setShowSearch] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    reportBounds();
+  }, [map]);
+
   // Hide button when searching starts
   useEffect(() => {
       if(isSearching) setShowSearch(false);
@@ -92,7 +134,8 @@ const MapInteractivity = ({
             whileTap={{ scale: 0.95 }}
             onClick={(e) => {
                 stopPropagation(e);
-                onSearchArea(map.getBounds());
+                const bounds = map.getBounds();
+                onSearchArea({ north: bounds.getNorth(), south: bounds.getSouth(), east: bounds.getEast(), west: bounds.getWest() });
                 setShowSearch(false);
             }}
             className="flex items-center gap-2 px-4 py-2 bg-white text-zinc-900 rounded-full shadow-xl font-bold text-sm hover:bg-zinc-100 transition-colors cursor-pointer"
@@ -127,6 +170,256 @@ const MapStartup = () => {
   return null;
 };
 
+// Live position: accuracy circle plus a dot for the best estimate
+const UserLocationLayer = ({ position }: { position: GeoPosition }) => {
+  const center: [number, number] = [position.coordinate.lat, position.coordinate.lng];
+  return (
+    <>
+      <Circle
+        center={center}
+        radius={position.accuracy}
+        pathOptions={{ color: '#38bdf8', weight: 1, opacity: 0.4, fillColor: '#38bdf8', fillOpacity: 0.1 }}
+        interactive={false}
+      />
+      <CircleMarker
+        center={center}
+        radius={7}
+        pathOptions={{ color: '#ffffff', weight: 2, fillColor: '#0ea5e9', fillOpacity: 1 }}
+        interactive={false}
+      />
+    </>
+  );
+};
+
+// "Centre on me" button. Starts tracking on first use and flies once a fix arrives.
+const LocateControl = ({
+  position,
+  status,
+  error,
+  onRequestLocation
+}: {
+  position?: GeoPosition | null,
+  status?: GeolocationStatus,
+  error?: string | null,
+  onRequestLocation: () => void
+}) => {
+  const map = useMap();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pendingFlyRef = useRef(false);
+  const [dismissedError, setDismissedError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (containerRef.current) {
+      L.DomEvent.disableClickPropagation(containerRef.current);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (pendingFlyRef.current && position) {
+      pendingFlyRef.current = false;
+      map.flyTo([position.coordinate.lat, position.coordinate.lng], Math.max(map.getZoom(), 16), { duration: 1 });
+    }
+  }, [position, map]);
+
+  const handleClick = () => {
+    if (position) {
+      map.flyTo([position.coordinate.lat, position.coordinate.lng], Math.max(map.getZoom(), 16), { duration: 1 });
+    } else {
+      pendingFlyRef.current = true;
+    }
+    onRequestLocation();
+  };
+
+  const isDenied = status === 'denied' || status === 'unavailable';
+  // Once tracking, a passing GPS timeout is not worth interrupting for
+  const visibleError = error && status !== 'tracking' && error !== dismissedError ? error : null;
+
+  return (
+    <div ref={containerRef} className="absolute bottom-8 left-6 z-[400]">
+      <button
+        onClick={handleClick}
+        disabled={isDenied}
+        className={`flex items-center justify-center w-11 h-11 rounded-full shadow-lg border transition-all active:scale-95 ${
+          status === 'tracking'
+            ? 'bg-sky-500/20 border-sky-500 text-sky-300'
+            : 'bg-zinc-900 border-zinc-700 text-zinc-300 hover:bg-zinc-800'
+        } disabled:opacity-50 disabled:cursor-not-allowed`}
+        title={isDenied ? 'Location access is blocked' : 'Centre on me'}
+      >
+        {status === 'locating' ? (
+          <Loader2 size={18} className="animate-spin" />
+        ) : isDenied ? (
+          <LocateOff size={18} />
+        ) : (
+          <LocateFixed size={18} />
+        )}
+      </button>
+      {visibleError && (
+        <button
+          onClick={() => setDismissedError(visibleError)}
+          className="absolute left-14 bottom-1.5 w-max max-w-[220px] px-3 py-1.5 rounded-xl shadow-lg border bg-zinc-900/95 border-zinc-700 text-[11px] text-left text-zinc-300"
+          title="Dismiss"
+        >
+          {visibleError}
+        </button>
+      )}
+    </div>
+  );
+};
+
+// "Download this area" button, stacked above the locate button
+const OfflineAreaControl = ({ onDownloadArea }: { onDownloadArea: NonNullable<MapBoardProps['onDownloadArea']> }) => {
+  const map = useMap();
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (containerRef.current) {
+      L.DomEvent.disableClickPropagation(containerRef.current);
+    }
+  }, []);
+
+  const handleClick = () => {
+    const bounds = map.getBounds();
+    onDownloadArea({
+      bounds: { north: bounds.getNorth(), south: bounds.getSouth(), east: bounds.getEast(), west: bounds.getWest() },
+      zoom: Math.round(map.getZoom()),
+    });
+  };
+
+  return (
+    <div ref={containerRef} className="absolute bottom-24 left-6 z-[400]">
+      <button
+        onClick={handleClick}
+        className="flex items-center justify-center w-11 h-11 rounded-full shadow-lg border bg-zinc-900 border-zinc-700 text-zinc-300 hover:bg-zinc-800 transition-all active:scale-95"
+        title="Download this area for offline use"
+      >
+        <CloudDownload size={18} />
+      </button>
+    </div>
+  );
+};
+
+// Pages through the last area search, searching the rest of a dense area as needed, or
+// says to zoom in once it has all been shown
+const SuggestionPager = ({
+  remaining,
+  hasMoreAreas,
+  truncated,
+  isLoading,
+  onShowMore,
+}: {
+  remaining: number;
+  hasMoreAreas: boolean;
+  truncated: boolean;
+  isLoading: boolean;
+  onShowMore: () => void;
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (containerRef.current) {
+      L.DomEvent.disableClickPropagation(containerRef.current);
+    }
+  }, []);
+
+  if (remaining === 0 && !hasMoreAreas && !truncated) return null;
+
+  return (
+    <div ref={containerRef} className="absolute bottom-24 left-1/2 -translate-x-1/2 z-[400]">
+      {remaining > 0 || hasMoreAreas ? (
+        <button
+          onClick={onShowMore}
+          disabled={isLoading}
+          className="flex items-center gap-2 px-4 py-2 rounded-full shadow-lg border bg-zinc-900 border-zinc-700 text-zinc-200 text-xs font-bold hover:bg-zinc-800 transition-all active:scale-95 disabled:opacity-70"
+        >
+          {isLoading ? <Loader2 size={14} className="animate-spin" /> : <ChevronsDown size={14} />}
+          {remaining > 0 ? `Show ${remaining} more ${remaining === 1 ? 'place' : 'places'}` : 'Show more places'}
+        </button>
+      ) : (
+        <span className="flex items-center gap-2 px-4 py-2 rounded-full shadow-lg border bg-zinc-900/90 border-zinc-800 text-zinc-400 text-xs">
+          <ZoomIn size={14} /> Zoom in and search again for more
+        </span>
+      )}
+    </div>
+  );
+};
+
+// Add or dismiss every pin from a chat reply at once
+const ChatPinsBar = ({
+  count,
+  onAddAll,
+  onDismiss,
+}: {
+  count: number;
+  onAddAll: () => void;
+  onDismiss: () => void;
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (containerRef.current) {
+      L.DomEvent.disableClickPropagation(containerRef.current);
+    }
+  }, []);
+
+  return (
+    <div ref={containerRef} className="absolute bottom-36 left-1/2 -translate-x-1/2 z-[400]">
+      <div className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-full shadow-lg border bg-zinc-900 border-sky-500/40 text-xs">
+        <Sparkles size={14} className="text-sky-400" />
+        <span className="text-zinc-300 px-1 whitespace-nowrap">{count} from chat</span>
+        <button
+          onClick={onAddAll}
+          className="flex items-center gap-1 px-3 py-1 rounded-full bg-sky-600 text-white font-bold hover:bg-sky-500 transition-colors whitespace-nowrap"
+        >
+          <Plus size={12} /> Add all
+        </button>
+        <button
+          onClick={onDismiss}
+          className="p-1.5 rounded-full text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors"
+          title="Dismiss chat pins"
+        >
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Frames chat pins when new ones appear; adding or dismissing one leaves the map alone
+const ChatPinsFitBounds = ({ places }: { places: Location[] }) => {
+  const map = useMap();
+  const shownIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    const isNew = places.some(p => !shownIds.current.has(p.id));
+    shownIds.current = new Set(places.map(p => p.id));
+    if (!isNew) return;
+    if (places.length === 1) {
+      map.flyTo([places[0].coordinate.lat, places[0].coordinate.lng], 15, { duration: 1.5 });
+      return;
+    }
+    map.flyToBounds(L.latLngBounds(places.map(p => [p.coordinate.lat, p.coordinate.lng] as [number, number])), {
+      padding: [80, 80],
+      maxZoom: 16,
+      duration: 1,
+    });
+  }, [places, map]);
+  return null;
+};
+
+// Component to frame a freshly calculated route
+const RouteFitBounds = ({ path }: { path: Coordinate[] }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (path.length < 2) return;
+    map.flyToBounds(L.latLngBounds(path.map(c => [c.lat, c.lng] as [number, number])), {
+      padding: [60, 60],
+      duration: 1,
+    });
+  }, [path, map]);
+  return null;
+};
+
 // Component to fly to selected location or search result
 const LocationFlyTo = ({ location, searchResult }: { location: Location | null, searchResult: Location | null }) => {
   const map = useMap();
@@ -140,18 +433,19 @@ const LocationFlyTo = ({ location, searchResult }: { location: Location | null,
         duration: 1.5,
       });
     }
-  }, [location, searchResult, map]);
+    // Keyed by id so edits to the selected place (or dragging its pin) don't re-fly the map
+  }, [location?.id, searchResult?.id, map]);
   return null;
 };
 
-const createCustomIcon = (category: string, isSelected: boolean, isSuggestion: boolean = false) => {
-  // Suggestions are smaller dots
+const buildCustomIcon = (category: string, isSelected: boolean, isSuggestion: boolean, accentColor?: string) => {
+  // Suggestions are smaller dots, filled with the accent (a gem score colour) when given
   if (isSuggestion) {
       const size = isSelected ? 30 : 20;
       return L.divIcon({
           html: `
             <div class="relative flex items-center justify-center transition-all duration-300 hover:scale-125">
-              <div class="w-${size/4} h-${size/4} bg-white rounded-full shadow-lg border-2 border-zinc-900 ${isSelected ? 'bg-sky-400 scale-150' : ''}"></div>
+              <div class="w-${size/4} h-${size/4} bg-white rounded-full shadow-lg border-2 border-zinc-900 ${isSelected ? 'bg-sky-400 scale-150' : ''}"${accentColor && !isSelected ? ` style="background: ${accentColor};"` : ''}></div>
               <div class="absolute -bottom-1 w-1 h-1 bg-black/50 rounded-full blur-[1px]"></div>
             </div>
           `,
@@ -168,6 +462,7 @@ const createCustomIcon = (category: string, isSelected: boolean, isSuggestion: b
     html: `
       <div class="relative flex items-center justify-center transition-all duration-300 transform hover:scale-110" style="width: ${size}px; height: ${size}px;">
         <div class="absolute inset-0 bg-black/50 rounded-full blur-sm"></div>
+        ${accentColor ? `<div class="absolute -inset-1 rounded-full border-2" style="border-color: ${accentColor};"></div>` : ''}
         <div class="relative z-10 text-[${size}px] leading-none drop-shadow-md filter select-none">
           ${emoji}
         </div>
@@ -180,16 +475,243 @@ const createCustomIcon = (category: string, isSelected: boolean, isSuggestion: b
   });
 };
 
+// Icons are cached so re-renders hand Leaflet the same instance and it skips rebuilding the marker DOM
+const iconCache = new Map<string, L.DivIcon>();
+
+const createCustomIcon = (category: string, isSelected: boolean, isSuggestion: boolean = false, accentColor?: string) => {
+  const key = `${category}|${isSelected}|${isSuggestion}|${accentColor || ''}`;
+  let icon = iconCache.get(key);
+  if (!icon) {
+    icon = buildCustomIcon(category, isSelected, isSuggestion, accentColor);
+    iconCache.set(key, icon);
+  }
+  return icon;
+};
+
+// Chat pins are sky blue with a sparkle, apart from both saved pins and area suggestions
+const createChatPinIcon = (category: string) => {
+  const key = `chat|${category}`;
+  let icon = iconCache.get(key);
+  if (!icon) {
+    icon = L.divIcon({
+      html: `
+        <div class="relative flex items-center justify-center w-7 h-7 rounded-full bg-sky-500 border-2 ${category === 'Tourist Trap' ? 'border-rose-300' : 'border-emerald-300'} shadow-lg text-[13px] leading-none select-none transition-transform hover:scale-110">
+          ✨
+        </div>
+      `,
+      className: 'bg-transparent border-none',
+      iconSize: [28, 28],
+      iconAnchor: [14, 14],
+      popupAnchor: [0, -14],
+    });
+    iconCache.set(key, icon);
+  }
+  return icon;
+};
+
+// Cluster bubble showing how many gems and traps it hides
+const createClusterIcon = (items: Location[], isSuggestion: boolean) => {
+  const gems = items.filter(l => l.category === 'Hidden Gem').length;
+  const traps = items.filter(l => l.category === 'Tourist Trap').length;
+  const others = items.length - gems - traps;
+  const key = `cluster|${gems}|${traps}|${others}|${isSuggestion}`;
+  const cached = iconCache.get(key);
+  if (cached) return cached;
+
+  const segments = [
+    { count: gems, emoji: '💎', color: 'text-emerald-300' },
+    { count: traps, emoji: '📸', color: 'text-rose-300' },
+    { count: others, emoji: '📍', color: 'text-zinc-300' },
+  ].filter(segment => segment.count > 0);
+  // Rough text width so the anchor sits under the middle of the bubble
+  const width = 18 + segments.reduce((sum, { count }) => sum + 20 + String(count).length * 7, 0) + (segments.length - 1) * 6;
+  const height = 30;
+
+  const icon = L.divIcon({
+    html: `
+      <div class="flex items-center justify-center" style="width: ${width}px; height: ${height}px;">
+        <div class="flex items-center gap-1.5 px-2 h-full rounded-full bg-zinc-900/90 border ${isSuggestion ? 'border-dashed border-zinc-500 opacity-80' : 'border-zinc-600'} shadow-lg text-[11px] font-bold select-none transition-transform hover:scale-110">
+          ${segments.map(({ count, emoji, color }) => `<span class="${color}">${emoji} ${count}</span>`).join('')}
+        </div>
+      </div>
+    `,
+    className: 'bg-transparent border-none',
+    iconSize: [width, height],
+    iconAnchor: [width / 2, height / 2],
+  });
+  iconCache.set(key, icon);
+  return icon;
+};
+
+// Markers outside the viewport (plus this fraction of it on every side) are not rendered
+const VIEWPORT_PADDING = 0.25;
+
+interface ClusteredMarkersProps {
+  locations: Location[];
+  selectedLocationId: string | null;
+  isSuggestion?: boolean;
+  getIcon: (location: Location, isSelected: boolean) => L.DivIcon;
+  onMarkerClick: (location: Location) => void;
+  onMarkerDragEnd?: (location: Location, coordinate: Coordinate) => void;
+  zIndexOffset?: number;
+  opacity?: number;
+}
+
+// Culls to the viewport and groups nearby markers. Clicking a cluster zooms in on it,
+// or fans its markers out when zooming in would not separate them.
+const ClusteredMarkers = ({
+  locations,
+  selectedLocationId,
+  isSuggestion = false,
+  getIcon,
+  onMarkerClick,
+  onMarkerDragEnd,
+  zIndexOffset,
+  opacity
+}: ClusteredMarkersProps) => {
+  const map = useMap();
+  const [view, setView] = useState(() => ({ zoom: map.getZoom(), bounds: map.getBounds() }));
+  const [spiderfiedKey, setSpiderfiedKey] = useState<string | null>(null);
+
+  const updateView = () => setView({ zoom: map.getZoom(), bounds: map.getBounds() });
+  useMapEvents({
+    moveend: updateView,
+    resize: updateView,
+    zoomstart: () => setSpiderfiedKey(null),
+    click: () => setSpiderfiedKey(null),
+  });
+
+  const { singles, clusters } = useMemo(() => {
+    const visibleBounds = view.bounds.pad(VIEWPORT_PADDING);
+    const pinned: Location[] = [];
+    const inputs: ClusterInput<Location>[] = [];
+
+    locations.forEach(location => {
+      const latLng = L.latLng(location.coordinate.lat, location.coordinate.lng);
+      // The selected place always keeps its own marker
+      if (location.id === selectedLocationId) pinned.push(location);
+      else if (visibleBounds.contains(latLng)) inputs.push({ item: location, point: map.project(latLng, view.zoom) });
+    });
+
+    const grouped = clusterByGrid(inputs);
+    return {
+      singles: [...grouped.filter(c => c.items.length === 1).map(c => c.items[0]), ...pinned],
+      clusters: grouped.filter(c => c.items.length > 1),
+    };
+  }, [locations, selectedLocationId, view, map]);
+
+  const handleClusterClick = (cluster: Cluster<Location>) => {
+    const bounds = L.latLngBounds(cluster.items.map(l => [l.coordinate.lat, l.coordinate.lng] as [number, number]));
+    const targetZoom = map.getBoundsZoom(bounds, false, L.point(60, 60));
+    if (targetZoom > view.zoom && view.zoom < map.getMaxZoom()) {
+      map.flyToBounds(bounds, { padding: [60, 60], duration: 0.8 });
+    } else {
+      setSpiderfiedKey(cluster.key);
+    }
+  };
+
+  // Only the selected marker can be dragged, so panning across pins never moves one by accident
+  const renderMarker = (location: Location, position: L.LatLngExpression) => {
+    const isSelected = location.id === selectedLocationId;
+    return (
+      <Marker
+        key={location.id}
+        position={position}
+        icon={getIcon(location, isSelected)}
+        draggable={isSelected && !!onMarkerDragEnd}
+        eventHandlers={{
+          click: () => onMarkerClick(location),
+          dragend: (e: L.LeafletEvent) => {
+            const { lat, lng } = (e.target as L.Marker).getLatLng();
+            onMarkerDragEnd?.(location, { lat, lng });
+          },
+        }}
+        zIndexOffset={zIndexOffset}
+        opacity={opacity}
+      />
+    );
+  };
+
+  return (
+    <>
+      {clusters.map(cluster => {
+        const center = map.unproject(L.point(cluster.center.x, cluster.center.y), view.zoom);
+
+        if (cluster.key !== spiderfiedKey) {
+          return (
+            <Marker
+              key={cluster.key}
+              position={center}
+              icon={createClusterIcon(cluster.items, isSuggestion)}
+              eventHandlers={{
+                click: () => handleClusterClick(cluster),
+              }}
+              zIndexOffset={zIndexOffset}
+            />
+          );
+        }
+
+        const offsets = spiderfyOffsets(cluster.items.length);
+        return (
+          <React.Fragment key={cluster.key}>
+            {cluster.items.map((location, i) => {
+              const position = map.unproject(
+                L.point(cluster.center.x + offsets[i].x, cluster.center.y + offsets[i].y),
+                view.zoom
+              );
+              return (
+                <React.Fragment key={location.id}>
+                  <Polyline
+                    positions={[center, position]}
+                    pathOptions={{ color: '#a1a1aa', weight: 1.5, opacity: 0.6 }}
+                    interactive={false}
+                  />
+                  {renderMarker(location, position)}
+                </React.Fragment>
+              );
+            })}
+          </React.Fragment>
+        );
+      })}
+
+      {singles.map(location => renderMarker(location, [location.coordinate.lat, location.coordinate.lng]))}
+    </>
+  );
+};
+
 export const MapBoard: React.FC<MapBoardProps> = ({ 
     locations, 
     suggestedLocations = [],
     onMarkerClick, 
     onCenterChange, 
+    onViewChange,
+    onBoundsChange,
+    initialView = INITIAL_VIEW_STATE,
     onMapClick, 
     onSearchArea,
     isSearchingArea,
+    suggestionsRemaining = 0,
+    suggestionsTruncated = false,
+    hasMoreSuggestionAreas = false,
+    onShowMoreSuggestions,
     selectedLocationId, 
-    searchResult 
+    searchResult,
+    collections = [],
+    activeCollectionId = null,
+    itineraryPath,
+    directionsPath,
+    userPosition,
+    geolocationStatus,
+    geolocationError,
+    onRequestLocation,
+    onLocationMove,
+    onDownloadArea,
+    colorByGemScore = false,
+    chatPins = [],
+    onAddChatPin,
+    onOpenChatPin,
+    onAddAllChatPins,
+    onDismissChatPins
 }) => {
   const selectedLocation = 
     locations.find(l => l.id === selectedLocationId) || 
@@ -197,8 +719,8 @@ export const MapBoard: React.FC<MapBoardProps> = ({
 
   return (
     <MapContainer
-      center={[INITIAL_VIEW_STATE.center.lat, INITIAL_VIEW_STATE.center.lng]}
-      zoom={INITIAL_VIEW_STATE.zoom}
+      center={[initialView.center.lat, initialView.center.lng]}
+      zoom={initialView.zoom}
       zoomControl={false}
       className="w-full h-full bg-zinc-950"
       style={{ background: '#09090b' }} 
@@ -208,41 +730,125 @@ export const MapBoard: React.FC<MapBoardProps> = ({
         attribution={MAP_ATTRIBUTION}
         url={DARK_MAP_URL}
         className="dark-tiles" // Applies the CSS invert filter
+        crossOrigin="anonymous" // Readable responses, so the service worker can cache them by real size
       />
       
       <MapInteractivity 
         onCenterChange={onCenterChange} 
+        onViewChange={onViewChange}
+        onBoundsChange={onBoundsChange}
         onSearchArea={onSearchArea} 
         isSearching={isSearchingArea}
       />
 
       {onMapClick && <MapClickHandler onMapClick={onMapClick} />}
+      {onRequestLocation && (
+        <LocateControl position={userPosition} status={geolocationStatus} error={geolocationError} onRequestLocation={onRequestLocation} />
+      )}
+      {onDownloadArea && <OfflineAreaControl onDownloadArea={onDownloadArea} />}
+      {onShowMoreSuggestions && (
+        <SuggestionPager
+          remaining={suggestionsRemaining}
+          hasMoreAreas={hasMoreSuggestionAreas}
+          truncated={suggestionsTruncated}
+          isLoading={!!isSearchingArea}
+          onShowMore={onShowMoreSuggestions}
+        />
+      )}
+      {chatPins.length > 0 && onAddAllChatPins && onDismissChatPins && (
+        <ChatPinsBar count={chatPins.length} onAddAll={onAddAllChatPins} onDismiss={onDismissChatPins} />
+      )}
+      <ChatPinsFitBounds places={chatPins} />
+      {userPosition && <UserLocationLayer position={userPosition} />}
       <LocationFlyTo location={selectedLocation} searchResult={searchResult} />
 
-      {/* Suggested Locations (Small dots) */}
-      {suggestedLocations.map((location) => (
-        <Marker
-          key={location.id}
-          position={[location.coordinate.lat, location.coordinate.lng]}
-          icon={createCustomIcon(location.category, location.id === selectedLocationId, true)}
-          eventHandlers={{
-            click: () => onMarkerClick(location),
-          }}
-          opacity={0.8}
+      {/* Planned Day Route */}
+      {itineraryPath && itineraryPath.length > 1 && (
+        <Polyline
+          positions={itineraryPath.map(c => [c.lat, c.lng] as [number, number])}
+          pathOptions={{ color: '#38bdf8', weight: 3, opacity: 0.8, dashArray: '6 8' }}
         />
-      ))}
+      )}
+
+      {/* Directions Route */}
+      {directionsPath && directionsPath.length > 1 && (
+        <>
+          <Polyline
+            positions={directionsPath.map(c => [c.lat, c.lng] as [number, number])}
+            pathOptions={{ color: '#0ea5e9', weight: 5, opacity: 0.9 }}
+          />
+          <RouteFitBounds path={directionsPath} />
+        </>
+      )}
+
+      {/* Suggested Locations (Small dots) */}
+      <ClusteredMarkers
+        locations={suggestedLocations}
+        selectedLocationId={selectedLocationId}
+        isSuggestion
+        getIcon={(location, isSelected) => createCustomIcon(
+          location.category,
+          isSelected,
+          true,
+          colorByGemScore && location.gemScore ? gemScoreColor(location.gemScore.score) : undefined
+        )}
+        onMarkerClick={onMarkerClick}
+        opacity={0.8}
+      />
 
       {/* Saved Locations (Main icons) */}
-      {locations.map((location) => (
+      <ClusteredMarkers
+        locations={locations}
+        selectedLocationId={selectedLocationId}
+        getIcon={(location, isSelected) => createCustomIcon(
+          location.category,
+          isSelected,
+          false,
+          colorByGemScore && location.gemScore
+            ? gemScoreColor(location.gemScore.score)
+            : getLocationAccent(location.id, collections, activeCollectionId)
+        )}
+        onMarkerClick={onMarkerClick}
+        onMarkerDragEnd={onLocationMove && ((location, coordinate) => onLocationMove(location.id, coordinate))}
+        zIndexOffset={100} // Saved items always on top
+      />
+
+      {/* Chat Suggestions */}
+      {chatPins.map(place => (
         <Marker
-          key={location.id}
-          position={[location.coordinate.lat, location.coordinate.lng]}
-          icon={createCustomIcon(location.category, location.id === selectedLocationId)}
-          eventHandlers={{
-            click: () => onMarkerClick(location),
-          }}
-          zIndexOffset={100} // Saved items always on top
-        />
+          key={place.id}
+          position={[place.coordinate.lat, place.coordinate.lng]}
+          icon={createChatPinIcon(place.category)}
+          zIndexOffset={200}
+        >
+          <Popup className="chat-pin-popup" closeButton={false}>
+            <div className="w-56 space-y-2">
+              <div>
+                <div className="text-sm font-bold text-white">{place.name}</div>
+                <div className="text-[10px] text-zinc-500">{place.category} · {place.placeType}</div>
+              </div>
+              {place.description && <div className="text-xs text-zinc-300 line-clamp-3">{place.description}</div>}
+              <div className="flex gap-2">
+                {onAddChatPin && (
+                  <button
+                    onClick={() => onAddChatPin(place)}
+                    className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg bg-sky-600 text-white text-xs font-bold hover:bg-sky-500 transition-colors"
+                  >
+                    <Plus size={12} /> Add
+                  </button>
+                )}
+                {onOpenChatPin && (
+                  <button
+                    onClick={() => onOpenChatPin(place)}
+                    className="flex-1 flex items-center justify-center gap-1 py-1.5 rounded-lg bg-zinc-800 text-zinc-200 text-xs hover:bg-zinc-700 transition-colors"
+                  >
+                    <MessageSquare size={12} /> Open in chat
+                  </button>
+                )}
+              </div>
+            </div>
+          </Popup>
+        </Marker>
       ))}
 
       {/* Temporary Search Result */}
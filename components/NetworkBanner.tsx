@@ -0,0 +1,31 @@
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { NetworkStatus } from '../services/offline';
+
+interface NetworkBannerProps {
+  status: NetworkStatus;
+}
+
+export const NetworkBanner: React.FC<NetworkBannerProps> = ({ status }) => (
+  <AnimatePresence>
+    {!status.isOnline && (
+      <motion.div
+        initial={{ y: -10, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        exit={{ y: -10, opacity: 0 }}
+        className="absolute top-20 left-1/2 -translate-x-1/2 z-[1050] pointer-events-none"
+      >
+        <div className="flex items-center gap-2 px-3 py-1.5 bg-zinc-900/90 backdrop-blur-xl border border-zinc-700 rounded-full shadow-lg text-[11px] text-zinc-300 whitespace-nowrap">
+          <WifiOff size={12} className="text-amber-400" />
+          Offline
+          {status.queued > 0 && (
+            <span className="text-zinc-500">
+              · {status.queued} {status.queued === 1 ? 'request' : 'requests'} will run when you're back online
+            </span>
+          )}
+        </div>
+      </motion.div>
+    )}
+  </AnimatePresence>
+);
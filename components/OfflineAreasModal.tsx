@@ -0,0 +1,259 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, CloudDownload, Trash2, Loader2, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  DownloadProgress,
+  MAX_OFFLINE_ZOOM,
+  MAX_TILES_PER_AREA,
+  OfflineArea,
+  TileBounds,
+  countTiles,
+  deleteOfflineArea,
+  downloadArea,
+  estimateAreaBytes,
+  formatBytes,
+  getStorageEstimate,
+  isTileCachingAvailable,
+  listOfflineAreas,
+} from '../services/offline';
+
+interface OfflineAreasModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  view: { bounds: TileBounds; zoom: number } | null; // The map view to offer for download
+}
+
+// Zoomed out further than this, a Singapore neighbourhood is a handful of blurry tiles
+const MIN_OFFLINE_ZOOM = 10;
+
+const zoomOptions = Array.from({ length: MAX_OFFLINE_ZOOM - MIN_OFFLINE_ZOOM + 1 }, (_, i) => MIN_OFFLINE_ZOOM + i);
+
+export const OfflineAreasModal: React.FC<OfflineAreasModalProps> = ({ isOpen, onClose, view }) => {
+  const [name, setName] = useState('');
+  const [minZoom, setMinZoom] = useState(12);
+  const [maxZoom, setMaxZoom] = useState(16);
+  const [areas, setAreas] = useState<OfflineArea[]>([]);
+  const [freeBytes, setFreeBytes] = useState<number | null>(null);
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  const [result, setResult] = useState<OfflineArea | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const refresh = () => {
+    listOfflineAreas().then(setAreas).catch(e => console.warn('Could not list offline areas', e));
+    getStorageEstimate()
+      .then(estimate => setFreeBytes(estimate ? estimate.quota - estimate.usage : null))
+      .catch(() => setFreeBytes(null));
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    refresh();
+    setName(`Map area ${new Date().toLocaleDateString('en-SG', { day: 'numeric', month: 'short' })}`);
+    setResult(null);
+    setError(null);
+    if (view) {
+      const from = Math.min(MAX_OFFLINE_ZOOM, Math.max(MIN_OFFLINE_ZOOM, view.zoom - 1));
+      setMinZoom(from);
+      setMaxZoom(Math.min(MAX_OFFLINE_ZOOM, Math.max(from, view.zoom + 2)));
+    }
+  }, [isOpen, view]);
+
+  const tileCount = view ? countTiles(view.bounds, minZoom, maxZoom) : 0;
+  const estimatedBytes = estimateAreaBytes(tileCount);
+  const isTooLarge = tileCount > MAX_TILES_PER_AREA;
+  const exceedsQuota = freeBytes !== null && estimatedBytes > freeBytes;
+  const isDownloading = progress !== null;
+
+  const handleDownload = async () => {
+    if (!view) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setError(null);
+    setResult(null);
+    try {
+      const saved = await downloadArea(
+        { name: name.trim() || 'Map area', bounds: view.bounds, minZoom, maxZoom },
+        setProgress,
+        controller.signal
+      );
+      setResult(saved);
+    } catch (e: any) {
+      if (e?.name !== 'AbortError') {
+        console.error('Offline download failed', e);
+        setError(e?.message || 'The download failed.');
+      }
+    } finally {
+      setProgress(null);
+      controllerRef.current = null;
+      refresh();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteOfflineArea(id);
+    } catch (e) {
+      console.warn('Could not remove offline area', e);
+    }
+    refresh();
+  };
+
+  const handleClose = () => {
+    controllerRef.current?.abort();
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="absolute inset-0 z-[1700] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm">
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="w-full max-w-sm bg-zinc-900 border border-zinc-800 rounded-3xl shadow-2xl overflow-hidden max-h-[85vh] flex flex-col"
+          >
+            <div className="p-6 pb-4 flex justify-between items-center">
+              <h3 className="text-xl font-bold text-white">Offline Maps</h3>
+              <button onClick={handleClose} className="text-zinc-400 hover:text-white transition-colors">
+                <X size={24} />
+              </button>
+            </div>
+
+            <div className="px-6 pb-6 space-y-6 overflow-y-auto">
+              {!isTileCachingAvailable() ? (
+                <p className="text-xs text-zinc-400">This browser cannot store map tiles for offline use.</p>
+              ) : view && (
+                <div className="space-y-3">
+                  <label className="block text-xs font-medium text-zinc-400 uppercase tracking-wider">
+                    Download this area
+                  </label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    disabled={isDownloading}
+                    className="w-full bg-zinc-800/50 border border-zinc-700 rounded-xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-sky-500 transition-colors"
+                    placeholder="Name, e.g. Lazarus Island"
+                  />
+                  <div className="flex items-center gap-2 text-xs text-zinc-400">
+                    <span>Zoom</span>
+                    <select
+                      value={minZoom}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        setMinZoom(value);
+                        if (value > maxZoom) setMaxZoom(value);
+                      }}
+                      disabled={isDownloading}
+                      className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-zinc-200"
+                    >
+                      {zoomOptions.map(z => <option key={z} value={z}>{z}</option>)}
+                    </select>
+                    <span>to</span>
+                    <select
+                      value={maxZoom}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        setMaxZoom(value);
+                        if (value < minZoom) setMinZoom(value);
+                      }}
+                      disabled={isDownloading}
+                      className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-zinc-200"
+                    >
+                      {zoomOptions.map(z => <option key={z} value={z}>{z}</option>)}
+                    </select>
+                  </div>
+                  <p className={`text-xs ${isTooLarge || exceedsQuota ? 'text-amber-400' : 'text-zinc-500'}`}>
+                    {tileCount.toLocaleString()} tiles, about {formatBytes(estimatedBytes)}
+                    {freeBytes !== null && ` of ${formatBytes(freeBytes)} free`}
+                    {isTooLarge && `. Too many tiles: zoom the map in or lower the highest zoom (limit ${MAX_TILES_PER_AREA.toLocaleString()}).`}
+                    {!isTooLarge && exceedsQuota && '. Not enough storage left.'}
+                  </p>
+
+                  {progress ? (
+                    <div className="space-y-2">
+                      <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-sky-500 transition-all"
+                          style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                        />
+                      </div>
+                      <div className="flex items-center justify-between text-[11px] text-zinc-400">
+                        <span>
+                          {progress.done.toLocaleString()} / {progress.total.toLocaleString()} tiles, {formatBytes(progress.bytes)}
+                          {progress.failed > 0 && <span className="text-amber-400"> ({progress.failed} failed)</span>}
+                        </span>
+                        <button onClick={() => controllerRef.current?.abort()} className="text-zinc-400 hover:text-white">
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={handleDownload}
+                      disabled={tileCount === 0 || isTooLarge || exceedsQuota}
+                      className="w-full flex items-center justify-center gap-2 py-3 rounded-xl text-sm font-bold bg-white text-black hover:bg-zinc-200 transition-colors disabled:opacity-50"
+                    >
+                      <CloudDownload size={16} /> Download
+                    </button>
+                  )}
+
+                  {result && (
+                    <p className="flex items-center gap-1.5 text-xs text-emerald-400">
+                      <CheckCircle2 size={12} /> Saved {result.tileCount.toLocaleString()} tiles ({formatBytes(result.bytes)}).
+                    </p>
+                  )}
+                  {error && (
+                    <p className="flex items-center gap-1.5 text-xs text-rose-400">
+                      <AlertCircle size={12} /> {error}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs font-medium text-zinc-400 mb-2 uppercase tracking-wider">
+                  Saved areas
+                </label>
+                {areas.length === 0 ? (
+                  <p className="text-xs text-zinc-500">
+                    Nothing downloaded yet. Your saved places and their tips are always available offline.
+                  </p>
+                ) : (
+                  <div className="space-y-1">
+                    {areas.map(area => (
+                      <div key={area.id} className="flex items-center gap-3 p-2.5 rounded-xl bg-zinc-800/30">
+                        <div className="flex-1 min-w-0">
+                          <span className="block text-sm text-zinc-200 truncate">{area.name}</span>
+                          <span className="block text-[10px] text-zinc-500">
+                            Zoom {area.minZoom}–{area.maxZoom} · {formatBytes(area.bytes)} · {new Date(area.savedAt).toLocaleDateString('en-SG')}
+                          </span>
+                        </div>
+                        <button
+                          onClick={() => handleDelete(area.id)}
+                          disabled={isDownloading}
+                          className="p-1.5 text-zinc-500 hover:text-rose-400 transition-colors disabled:opacity-50"
+                          title="Remove downloaded area"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {isDownloading && (
+                <p className="flex items-center gap-1.5 text-[11px] text-zinc-500">
+                  <Loader2 size={12} className="animate-spin" /> Keep this open until the download finishes.
+                </p>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
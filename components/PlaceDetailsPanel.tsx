@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Clock, Phone, Globe, ChevronDown } from 'lucide-react';
+import { Location } from '../types';
+import { useNow } from '../hooks/useNow';
+import { SOON_MINUTES, describeOpeningState, getOpeningState, minutesUntil, parseOpeningHours, summarizeSchedule } from '../services/openingHours';
+import { PRICE_LEVELS, formatPriceLevel, phoneHref, normalizeWebsite, websiteLabel } from '../services/placeDetails';
+
+interface PlaceDetailsPanelProps {
+  location: Location;
+}
+
+// Open-now status, price and contact links. Renders nothing for places with none of them.
+export const PlaceDetailsPanel: React.FC<PlaceDetailsPanelProps> = ({ location }) => {
+  const now = useNow();
+  const [showWeek, setShowWeek] = useState(false);
+  const { openingHours, priceLevel, phone, website } = location;
+  if (!openingHours && !priceLevel && !phone && !website) return null;
+
+  const schedule = parseOpeningHours(openingHours);
+  const state = schedule ? getOpeningState(schedule, now) : null;
+  const isChangingSoon = !!state?.changesAt && minutesUntil(state.changesAt, now) <= SOON_MINUTES;
+  const statusColor = !state
+    ? 'text-zinc-400'
+    : state.isOpen
+      ? isChangingSoon ? 'text-amber-300' : 'text-emerald-300'
+      : 'text-rose-300';
+
+  return (
+    <div className="p-3 bg-zinc-800/40 rounded-xl border border-zinc-800 space-y-2 text-xs">
+      {openingHours && (
+        <div>
+          <button
+            onClick={() => schedule && setShowWeek(prev => !prev)}
+            className={`w-full flex items-center gap-2 text-left ${statusColor}`}
+            title={openingHours}
+          >
+            <Clock size={14} className="shrink-0" />
+            <span className="flex-1 font-medium">
+              {state ? describeOpeningState(state, now) : `Hours: ${openingHours}`}
+            </span>
+            {schedule && <ChevronDown size={14} className={`text-zinc-500 transition-transform ${showWeek ? 'rotate-180' : ''}`} />}
+          </button>
+          {showWeek && schedule && (
+            <ul className="mt-1.5 ml-6 space-y-0.5 text-[11px] text-zinc-400">
+              {summarizeSchedule(schedule).map(line => <li key={line}>{line}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+      {(priceLevel || phone || website) && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1.5 text-zinc-300">
+          {priceLevel && (
+            <span className="font-semibold text-emerald-300" title={PRICE_LEVELS.find(p => p.level === priceLevel)?.hint}>
+              {formatPriceLevel(priceLevel)}
+            </span>
+          )}
+          {phone && (
+            <a href={phoneHref(phone)} className="flex items-center gap-1.5 hover:text-sky-300 transition-colors">
+              <Phone size={12} /> {phone}
+            </a>
+          )}
+          {website && (
+            <a
+              href={normalizeWebsite(website)}
+              target="_blank"
+              rel="noreferrer"
+              className="flex items-center gap-1.5 hover:text-sky-300 transition-colors truncate"
+            >
+              <Globe size={12} /> {websiteLabel(website)}
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
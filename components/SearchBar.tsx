@@ -1,30 +1,31 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Search, MapPin, Loader2, X } from 'lucide-react';
-
-export interface SearchSuggestion {
-  place_id: number;
-  lat: string;
-  lon: string;
-  display_name: string;
-  name?: string;
-  type?: string;
-  class?: string;
-  address?: any;
-}
+import { Search, MapPin, Loader2, X, Bookmark } from 'lucide-react';
+import { Location } from '../types';
+import { GeocodeResult, searchPlaces } from '../services/geocoding';
+import { LocalMatch } from '../services/journal';
 
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
   onSearch: () => void;
-  onSelectResult: (result: SearchSuggestion) => void;
+  onSelectResult: (result: GeocodeResult) => void;
+  localMatches: LocalMatch[]; // Saved places matching the query
+  onSelectLocal: (location: Location) => void;
 }
 
-export const SearchBar: React.FC<SearchBarProps> = ({ value, onChange, onSearch, onSelectResult }) => {
-  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+const MATCH_LABELS: Record<string, string> = {
+  tag: 'Tag',
+  notes: 'Notes',
+  visit: 'Visit log',
+};
+
+export const SearchBar: React.FC<SearchBarProps> = ({ value, onChange, onSearch, onSelectResult, localMatches, onSelectLocal }) => {
+  const [suggestions, setSuggestions] = useState<GeocodeResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const debounceTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     // Close suggestions if clicking outside
@@ -38,33 +39,33 @@ export const SearchBar: React.FC<SearchBarProps> = ({ value, onChange, onSearch,
   }, []);
 
   const fetchSuggestions = async (query: string) => {
+    // Drop the previous lookup so a slow answer can't overwrite a newer one
+    requestRef.current?.abort();
     if (!query || query.length < 3) {
       setSuggestions([]);
+      setLoading(false);
       return;
     }
 
+    const controller = new AbortController();
+    requestRef.current = controller;
     setLoading(true);
     try {
-      // Restrict to Singapore (sg) and ask for address details to get cleaner names
-      // Nominatim supports queries like "coffee tanjong pagar" fairly well
-      const res = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(
-          query
-        )}&countrycodes=sg&addressdetails=1&limit=5`
-      );
-      const data = await res.json();
-      setSuggestions(data);
+      const results = await searchPlaces(query, { limit: 5 }, controller.signal);
+      setSuggestions(results);
       setShowSuggestions(true);
-    } catch (error) {
+    } catch (error: any) {
+      if (error?.name === 'AbortError') return;
       console.error('Error fetching suggestions:', error);
     } finally {
-      setLoading(false);
+      if (requestRef.current === controller) setLoading(false);
     }
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
     onChange(newValue);
+    setShowSuggestions(true);
 
     if (debounceTimer.current) clearTimeout(debounceTimer.current);
 
@@ -73,12 +74,15 @@ export const SearchBar: React.FC<SearchBarProps> = ({ value, onChange, onSearch,
     }, 400); // 400ms debounce
   };
 
-  const handleSelect = (suggestion: SearchSuggestion) => {
+  const handleSelect = (suggestion: GeocodeResult) => {
     onSelectResult(suggestion);
     setShowSuggestions(false);
-    // Extract a cleaner name for the input field if possible
-    const mainName = suggestion.address?.amenity || suggestion.address?.building || suggestion.address?.shop || suggestion.address?.tourism || suggestion.display_name.split(',')[0];
-    onChange(mainName || suggestion.display_name);
+    onChange(suggestion.name || suggestion.displayName);
+  };
+
+  const handleSelectLocal = (location: Location) => {
+    onSelectLocal(location);
+    setShowSuggestions(false);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -109,7 +113,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({ value, onChange, onSearch,
           value={value}
           onChange={handleInputChange}
           onFocus={() => {
-              if(suggestions.length > 0) setShowSuggestions(true);
+              if(suggestions.length > 0 || localMatches.length > 0) setShowSuggestions(true);
           }}
           placeholder="Search places (e.g. 'Coffee Tanjong Pagar')..."
           className="block w-full pl-10 pr-10 py-3 border border-zinc-700 rounded-2xl leading-5 bg-zinc-900/90 backdrop-blur-xl text-zinc-100 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-sky-500/50 focus:border-sky-500/50 sm:text-sm shadow-xl transition-all duration-300"
@@ -130,35 +134,62 @@ export const SearchBar: React.FC<SearchBarProps> = ({ value, onChange, onSearch,
       </form>
 
       {/* Suggestions Dropdown */}
-      {showSuggestions && suggestions.length > 0 && (
+      {showSuggestions && (suggestions.length > 0 || localMatches.length > 0) && (
         <div className="absolute top-full left-0 right-0 mt-2 bg-zinc-900/95 backdrop-blur-xl border border-zinc-700 rounded-xl shadow-2xl overflow-hidden animate-in fade-in slide-in-from-top-2 duration-200">
-          <ul className="max-h-60 overflow-y-auto py-1">
-            {suggestions.map((suggestion) => {
-                // Try to format a nice primary and secondary text
-                const name = suggestion.address?.amenity || suggestion.address?.building || suggestion.address?.shop || suggestion.address?.tourism || suggestion.display_name.split(',')[0];
-                const details = suggestion.display_name.replace(name, '').replace(/^,\s*/, '');
-                
-                return (
-                    <li key={suggestion.place_id}>
-                        <button
-                        type="button"
-                        onClick={() => handleSelect(suggestion)}
-                        className="w-full text-left px-4 py-3 hover:bg-zinc-800 transition-colors flex items-start gap-3 group"
-                        >
-                        <MapPin className="h-5 w-5 text-zinc-500 group-hover:text-sky-400 shrink-0 mt-0.5 transition-colors" />
-                        <div className="min-w-0">
-                            <div className="text-sm font-medium text-zinc-200 truncate group-hover:text-white">
-                                {name}
-                            </div>
-                            <div className="text-xs text-zinc-500 truncate group-hover:text-zinc-400">
-                                {details || suggestion.display_name}
-                            </div>
-                        </div>
-                        </button>
-                    </li>
-                );
-            })}
-          </ul>
+          {localMatches.length > 0 && (
+            <ul className="py-1 border-b border-zinc-800">
+              <li className="px-4 pt-1 pb-0.5 text-[10px] font-bold uppercase tracking-wider text-zinc-500">Your places</li>
+              {localMatches.map(({ location, matchedOn }) => (
+                <li key={location.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleSelectLocal(location)}
+                    className="w-full text-left px-4 py-2 hover:bg-zinc-800 transition-colors flex items-center gap-3 group"
+                  >
+                    <Bookmark className="h-4 w-4 text-sky-500 shrink-0" />
+                    <span className="text-sm font-medium text-zinc-200 truncate group-hover:text-white">{location.name}</span>
+                    {MATCH_LABELS[matchedOn] && (
+                      <span className="ml-auto shrink-0 text-[10px] text-zinc-500">{MATCH_LABELS[matchedOn]}</span>
+                    )}
+                    {location.tags && location.tags.length > 0 && !MATCH_LABELS[matchedOn] && (
+                      <span className="ml-auto shrink-0 text-[10px] text-sky-400/70 truncate max-w-[40%]">
+                        {location.tags.slice(0, 2).map(t => `#${t}`).join(' ')}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {suggestions.length > 0 && (
+            <ul className="max-h-60 overflow-y-auto py-1">
+              {suggestions.map((suggestion) => {
+                  // Try to format a nice primary and secondary text
+                  const name = suggestion.name;
+                  const details = suggestion.displayName.replace(name, '').replace(/^,\s*/, '');
+                  
+                  return (
+                      <li key={suggestion.id}>
+                          <button
+                          type="button"
+                          onClick={() => handleSelect(suggestion)}
+                          className="w-full text-left px-4 py-3 hover:bg-zinc-800 transition-colors flex items-start gap-3 group"
+                          >
+                          <MapPin className="h-5 w-5 text-zinc-500 group-hover:text-sky-400 shrink-0 mt-0.5 transition-colors" />
+                          <div className="min-w-0">
+                              <div className="text-sm font-medium text-zinc-200 truncate group-hover:text-white">
+                                  {name}
+                              </div>
+                              <div className="text-xs text-zinc-500 truncate group-hover:text-zinc-400">
+                                  {details || suggestion.displayName}
+                              </div>
+                          </div>
+                          </button>
+                      </li>
+                  );
+              })}
+            </ul>
+          )}
           <div className="px-4 py-2 bg-zinc-950/50 border-t border-zinc-800 text-[10px] text-zinc-500 flex justify-between">
              <span>Select an option or press Enter for AI Search</span>
           </div>
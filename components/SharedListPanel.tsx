@@ -0,0 +1,115 @@
+import React from 'react';
+import { X, Plus, Check, Star, Link2, AlertCircle } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Location } from '../types';
+import { SharedList } from '../services/sharing';
+
+interface SharedListPanelProps {
+  list: SharedList | null;
+  error: string | null;
+  savedPlaceIds: Set<string>; // Shared places already on the reader's list
+  selectedId: string | null;
+  onSelect: (place: Location) => void;
+  onAdd: (place: Location) => void;
+  onAddAll: () => void;
+  onClose: () => void;
+}
+
+// Read-only view of a list opened from a share link. Nothing here is saved until
+// the reader adds it.
+export const SharedListPanel: React.FC<SharedListPanelProps> = ({
+  list,
+  error,
+  savedPlaceIds,
+  selectedId,
+  onSelect,
+  onAdd,
+  onAddAll,
+  onClose,
+}) => {
+  const remaining = list ? list.places.filter(p => !savedPlaceIds.has(p.id)).length : 0;
+
+  return (
+    <AnimatePresence>
+      {(list || error) && (
+        <motion.div
+          initial={{ x: -20, opacity: 0 }}
+          animate={{ x: 0, opacity: 1 }}
+          exit={{ x: -20, opacity: 0 }}
+          className="absolute top-24 left-4 right-4 sm:right-auto sm:w-80 z-[1050] max-h-[55vh] flex flex-col bg-zinc-900/95 backdrop-blur-xl border border-zinc-700 rounded-2xl shadow-2xl overflow-hidden"
+        >
+          <div className="p-4 pb-3 flex items-start gap-3 border-b border-zinc-800">
+            <Link2 size={16} className="text-sky-400 shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="text-[10px] uppercase tracking-wider text-zinc-500">Shared with you</p>
+              <h3 className="text-sm font-bold text-white truncate">{list?.title || 'Shared places'}</h3>
+            </div>
+            <button onClick={onClose} className="text-zinc-400 hover:text-white transition-colors" title="Close shared list">
+              <X size={18} />
+            </button>
+          </div>
+
+          {error ? (
+            <p className="p-4 flex items-start gap-2 text-xs text-rose-300">
+              <AlertCircle size={14} className="shrink-0 mt-0.5" /> {error}
+            </p>
+          ) : list && (
+            <>
+              <div className="flex-1 overflow-y-auto p-2 space-y-1">
+                {list.places.map(place => {
+                  const isSaved = savedPlaceIds.has(place.id);
+                  return (
+                    <div
+                      key={place.id}
+                      className={`flex items-center gap-2 p-2 rounded-xl transition-colors ${
+                        place.id === selectedId ? 'bg-zinc-800' : 'hover:bg-zinc-800/50'
+                      }`}
+                    >
+                      <button onClick={() => onSelect(place)} className="flex-1 min-w-0 text-left">
+                        <span className="flex items-center gap-1.5">
+                          <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${place.category === 'Hidden Gem' ? 'bg-emerald-400' : 'bg-rose-400'}`} />
+                          <span className="text-sm text-zinc-200 truncate">{place.name}</span>
+                          {place.rating && (
+                            <span className="flex items-center gap-0.5 text-[10px] text-amber-300 shrink-0" title="Their rating">
+                              <Star size={9} className="fill-amber-300" />{place.rating.stars}
+                            </span>
+                          )}
+                        </span>
+                        <span className="block text-[10px] text-zinc-500 truncate">
+                          {place.placeType}
+                          {place.tags?.length ? ` · ${place.tags.map(t => `#${t}`).join(' ')}` : ''}
+                        </span>
+                      </button>
+                      {isSaved ? (
+                        <span className="p-1.5 text-emerald-400" title="Already on your list">
+                          <Check size={14} />
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => onAdd(place)}
+                          className="p-1.5 rounded-full bg-zinc-800 text-zinc-300 hover:bg-white hover:text-black transition-colors"
+                          title="Add to my list"
+                        >
+                          <Plus size={14} />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="p-3 border-t border-zinc-800">
+                <button
+                  onClick={onAddAll}
+                  disabled={remaining === 0}
+                  className="w-full py-2 rounded-xl text-xs font-bold bg-white text-black hover:bg-zinc-200 transition-colors disabled:opacity-50"
+                >
+                  {remaining === 0 ? 'All on your list' : `Add ${remaining === list.places.length ? 'all' : 'the rest'} (${remaining}) to my list`}
+                </button>
+              </div>
+            </>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
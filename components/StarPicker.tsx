@@ -0,0 +1,30 @@
+import React, { useState } from 'react';
+import { Star } from 'lucide-react';
+
+interface StarPickerProps {
+  value: number; // 0 when unrated
+  onChange: (stars: number) => void;
+  size?: number;
+}
+
+// Clicking the current star count again clears the rating
+export const StarPicker: React.FC<StarPickerProps> = ({ value, onChange, size = 20 }) => {
+  const [hovered, setHovered] = useState(0);
+  const shown = hovered || value;
+  return (
+    <div className="flex items-center gap-0.5" onMouseLeave={() => setHovered(0)}>
+      {[1, 2, 3, 4, 5].map(stars => (
+        <button
+          key={stars}
+          type="button"
+          onClick={() => onChange(stars === value ? 0 : stars)}
+          onMouseEnter={() => setHovered(stars)}
+          className="p-0.5 text-amber-300 hover:scale-110 transition-transform"
+          title={stars === value ? 'Clear rating' : `${stars} star${stars === 1 ? '' : 's'}`}
+        >
+          <Star size={size} className={stars <= shown ? 'fill-amber-300' : 'text-zinc-600'} />
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { StorageIssue } from '../services/storage/schema';
+
+interface StorageIssueBannerProps {
+  issues: StorageIssue[];
+  onDismiss: () => void;
+}
+
+export const StorageIssueBanner: React.FC<StorageIssueBannerProps> = ({ issues, onDismiss }) => (
+  <AnimatePresence>
+    {issues.length > 0 && (
+      <motion.div
+        initial={{ y: -20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        exit={{ y: -20, opacity: 0 }}
+        className="absolute top-20 left-4 right-4 z-[1100] max-w-md mx-auto"
+      >
+        <div className="p-3 bg-amber-950/90 backdrop-blur-xl border border-amber-500/40 rounded-xl shadow-2xl flex items-start gap-3">
+          <AlertTriangle size={16} className="text-amber-400 shrink-0 mt-0.5" />
+          <div className="flex-1 space-y-1">
+            {issues.map((issue, i) => (
+              <p key={i} className="text-xs text-amber-100">
+                {issue.message}
+                {issue.quarantineKey ? (
+                  <span className="block text-[10px] text-amber-400/70">
+                    A copy was kept under "{issue.quarantineKey}".
+                  </span>
+                ) : issue.quarantineKey === '' && (
+                  <span className="block text-[10px] text-amber-400/70">
+                    Storage is full, so no copy could be kept.
+                  </span>
+                )}
+              </p>
+            ))}
+          </div>
+          <button onClick={onDismiss} className="text-amber-400/70 hover:text-amber-200 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+      </motion.div>
+    )}
+  </AnimatePresence>
+);
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Redo2, Undo2, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { HistoryNotice } from '../hooks/useCommandHistory';
+
+interface UndoToastProps {
+  notice: HistoryNotice | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDismiss: () => void;
+}
+
+// Sits above the list drawer so a mis-tapped trash icon can be taken back right there
+export const UndoToast: React.FC<UndoToastProps> = ({ notice, onUndo, onRedo, onDismiss }) => (
+  <AnimatePresence>
+    {notice && (
+      <motion.div
+        key={notice.id}
+        initial={{ y: 20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        exit={{ y: 20, opacity: 0 }}
+        className="absolute bottom-28 left-4 right-4 z-[1800] max-w-xs mx-auto"
+      >
+        <div className="pl-4 pr-2 py-2 bg-zinc-800/95 backdrop-blur-xl border border-zinc-700 rounded-xl shadow-2xl flex items-center gap-3">
+          <span className="flex-1 text-xs text-zinc-200 truncate">{notice.message}</span>
+          {notice.offers === 'undo' ? (
+            <button
+              onClick={onUndo}
+              className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-bold text-sky-400 hover:bg-sky-500/10 transition-colors"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 size={14} /> Undo
+            </button>
+          ) : (
+            <button
+              onClick={onRedo}
+              className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-bold text-sky-400 hover:bg-sky-500/10 transition-colors"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 size={14} /> Redo
+            </button>
+          )}
+          <button onClick={onDismiss} className="p-1 text-zinc-500 hover:text-zinc-300 transition-colors">
+            <X size={14} />
+          </button>
+        </div>
+      </motion.div>
+    )}
+  </AnimatePresence>
+);
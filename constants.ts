@@ -1,4 +1,4 @@
-import { Location } from './types';
+import { Coordinate, Location } from './types';
 
 export const INITIAL_VIEW_STATE = {
   center: { lat: 1.3521, lng: 103.8198 }, // Center of Singapore
@@ -58,6 +58,26 @@ export const MOCK_LOCATIONS: Location[] = [
   },
 ];
 
-// Standard OpenStreetMap tiles (we will invert colors in CSS for dark mode)
-export const DARK_MAP_URL = 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+// The sights every tour bus stops at; places crowded around them rarely stay hidden
+export const MAJOR_ATTRACTIONS: { name: string; coordinate: Coordinate }[] = [
+  { name: 'Merlion Park', coordinate: { lat: 1.2868, lng: 103.8545 } },
+  { name: 'Marina Bay Sands', coordinate: { lat: 1.2834, lng: 103.8607 } },
+  { name: 'Gardens by the Bay', coordinate: { lat: 1.2816, lng: 103.8636 } },
+  { name: 'Clarke Quay', coordinate: { lat: 1.2906, lng: 103.8465 } },
+  { name: 'Chinatown Street Market', coordinate: { lat: 1.2837, lng: 103.8444 } },
+  { name: 'Orchard Road', coordinate: { lat: 1.3040, lng: 103.8318 } },
+  { name: 'Sentosa', coordinate: { lat: 1.2494, lng: 103.8303 } },
+  { name: 'Universal Studios Singapore', coordinate: { lat: 1.2540, lng: 103.8238 } },
+  { name: 'Singapore Zoo', coordinate: { lat: 1.4043, lng: 103.7930 } },
+  { name: 'Jewel Changi Airport', coordinate: { lat: 1.3602, lng: 103.9898 } },
+  { name: 'Little India (Serangoon Road)', coordinate: { lat: 1.3066, lng: 103.8518 } },
+  { name: 'Kampong Glam (Sultan Mosque)', coordinate: { lat: 1.3022, lng: 103.8591 } },
+];
+
+// Marker accent colours assigned to new collections in rotation
+export const COLLECTION_COLORS = ['#38bdf8', '#f472b6', '#facc15', '#a78bfa', '#fb923c', '#34d399'];
+
+// Standard OpenStreetMap tiles (we will invert colors in CSS for dark mode). No {s}
+// subdomains: OSM retired them, and one hostname keeps offline tile cache keys stable.
+export const DARK_MAP_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
 export const MAP_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
\ No newline at end of file
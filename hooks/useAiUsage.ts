@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getSessionUsage, subscribeToUsage } from '../services/ai';
+
+// Live token usage for this session, re-rendering after every AI call
+export const useAiUsage = () => useSyncExternalStore(subscribeToUsage, getSessionUsage);
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Collection, Location } from '../types';
+import { StoreSnapshot } from '../services/storage/schema';
+import { Command, CommandHistory, emptyHistory, recordCommand, redoCommand, undoCommand } from '../services/commands';
+
+export interface HistoryNotice {
+  id: number;
+  message: string;
+  offers: 'undo' | 'redo'; // Undo after an action or a redo, Redo after an undo
+}
+
+const NOTICE_TIMEOUT_MS = 6000;
+
+const isEditingText = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Runs commands against the saved locations and collections and keeps them for undo/redo.
+// Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) work anywhere except inside text fields,
+// which keep their own native undo.
+export const useCommandHistory = (
+  locations: Location[],
+  collections: Collection[],
+  setLocations: (locations: Location[]) => void,
+  setCollections: (collections: Collection[]) => void
+) => {
+  const [notice, setNotice] = useState<HistoryNotice | null>(null);
+  // Several commands can run before React re-renders (e.g. during a drag), so the
+  // latest state and the history live in refs
+  const stateRef = useRef<StoreSnapshot>({ locations, collections });
+  const historyRef = useRef<CommandHistory>(emptyHistory());
+  const lastRecordedAtRef = useRef(0);
+  stateRef.current = { locations, collections };
+
+  const commit = (next: StoreSnapshot, nextHistory: CommandHistory) => {
+    const previous = stateRef.current;
+    stateRef.current = next;
+    historyRef.current = nextHistory;
+    if (next.locations !== previous.locations) setLocations(next.locations);
+    if (next.collections !== previous.collections) setCollections(next.collections);
+  };
+
+  const showNotice = (message: string, offers: HistoryNotice['offers']) => {
+    setNotice(prev => ({ id: (prev?.id ?? 0) + 1, message, offers }));
+  };
+
+  const execute = useCallback((command: Command) => {
+    const now = Date.now();
+    const nextHistory = recordCommand(historyRef.current, command, lastRecordedAtRef.current, now);
+    lastRecordedAtRef.current = now;
+    commit(command.apply(stateRef.current), nextHistory);
+    // The toast's button acts on the last step, so a toast about an earlier one has to go
+    if (command.destructive) showNotice(command.label, 'undo');
+    else setNotice(null);
+  }, []);
+
+  const undo = useCallback(() => {
+    const result = undoCommand(historyRef.current, stateRef.current);
+    if (!result) return;
+    // Whatever comes next starts a new step rather than merging into the undone one
+    lastRecordedAtRef.current = 0;
+    commit(result.state, result.history);
+    showNotice(`Undid: ${result.command.label}`, 'redo');
+  }, []);
+
+  const redo = useCallback(() => {
+    const result = redoCommand(historyRef.current, stateRef.current);
+    if (!result) return;
+    lastRecordedAtRef.current = 0;
+    commit(result.state, result.history);
+    showNotice(`Redid: ${result.command.label}`, 'undo');
+  }, []);
+
+  // Changes that aren't undo steps (background refreshes, collection edits) go through the
+  // same ref, so a command run before the next render builds on them rather than over them
+  const syncLocations = useCallback((update: (prev: Location[]) => Location[]) => {
+    commit({ ...stateRef.current, locations: update(stateRef.current.locations) }, historyRef.current);
+  }, []);
+
+  const syncCollections = useCallback((update: (prev: Collection[]) => Collection[]) => {
+    commit({ ...stateRef.current, collections: update(stateRef.current.collections) }, historyRef.current);
+  }, []);
+
+  const dismissNotice = useCallback(() => setNotice(null), []);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditingText(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    execute,
+    undo,
+    redo,
+    syncLocations,
+    syncCollections,
+    notice,
+    dismissNotice,
+  };
+};
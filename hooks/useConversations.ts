@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Conversation, deleteConversation, listConversations, saveConversation } from '../services/chat';
+
+// Saved chat threads, most recent first, and which one is open. The newest thread is
+// reopened after a reload; a new chat only exists once its first message is sent.
+export const useConversations = () => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Latest list for async callers (e.g. a summary landing after newer messages)
+  const latestRef = useRef<Conversation[]>([]);
+
+  const commit = (next: Conversation[]) => {
+    latestRef.current = next;
+    setConversations(next);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    listConversations().then(saved => {
+      if (cancelled) return;
+      // Anything sent before loading finished stays on top
+      const merged = [...latestRef.current, ...saved.filter(s => !latestRef.current.some(c => c.id === s.id))];
+      commit(merged);
+      setActiveId(prev => prev ?? merged[0]?.id ?? null);
+      setIsLoaded(true);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  const save = useCallback((conversation: Conversation) => {
+    commit([conversation, ...latestRef.current.filter(c => c.id !== conversation.id)]);
+    saveConversation(conversation);
+  }, []);
+
+  // Applies a change to the newest copy of a conversation, if it still exists, and returns
+  // the result. A new turn moves the thread to the top; other changes leave it in place.
+  const update = useCallback((id: string, change: (conversation: Conversation) => Conversation) => {
+    const current = latestRef.current.find(c => c.id === id);
+    if (!current) return null;
+    const next = change(current);
+    commit(next.updatedAt === current.updatedAt
+      ? latestRef.current.map(c => c.id === id ? next : c)
+      : [next, ...latestRef.current.filter(c => c.id !== id)]);
+    saveConversation(next);
+    return next;
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    commit(latestRef.current.filter(c => c.id !== id));
+    setActiveId(prev => prev === id ? null : prev);
+    deleteConversation(id);
+  }, []);
+
+  return {
+    conversations,
+    active: conversations.find(c => c.id === activeId) ?? null,
+    isLoaded,
+    open: setActiveId, // null starts a new chat
+    save,
+    update,
+    remove,
+  };
+};
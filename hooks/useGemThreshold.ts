@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getGemThreshold, subscribeToGemThreshold } from '../services/gemScore';
+
+// The gem score a place needs to count as a hidden gem, kept across visits
+export const useGemThreshold = () => useSyncExternalStore(subscribeToGemThreshold, getGemThreshold);
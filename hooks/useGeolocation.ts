@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Coordinate } from '../types';
+
+export type GeolocationStatus = 'idle' | 'locating' | 'tracking' | 'denied' | 'unavailable' | 'error';
+
+export interface GeoPosition {
+  coordinate: Coordinate;
+  accuracy: number; // Metres, radius of 68% confidence
+  timestamp: number;
+}
+
+// Watches the device position while tracking is on. Tracking starts automatically
+// when permission was granted in an earlier session, otherwise only on request so
+// the browser prompt is never shown unprompted.
+export const useGeolocation = () => {
+  const [position, setPosition] = useState<GeoPosition | null>(null);
+  const [status, setStatus] = useState<GeolocationStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const watchIdRef = useRef<number | null>(null);
+
+  const stop = useCallback(() => {
+    if (watchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+    }
+    setStatus('idle');
+  }, []);
+
+  const start = useCallback(() => {
+    if (!('geolocation' in navigator)) {
+      setStatus('unavailable');
+      setError('Location is not supported by this browser.');
+      return;
+    }
+    if (watchIdRef.current !== null) return;
+
+    setStatus('locating');
+    setError(null);
+    watchIdRef.current = navigator.geolocation.watchPosition(
+      pos => {
+        setPosition({
+          coordinate: { lat: pos.coords.latitude, lng: pos.coords.longitude },
+          accuracy: pos.coords.accuracy,
+          timestamp: pos.timestamp,
+        });
+        setStatus('tracking');
+      },
+      err => {
+        if (err.code === err.PERMISSION_DENIED) {
+          setStatus('denied');
+          setError('Location permission was denied. Enable it in your browser settings.');
+          if (watchIdRef.current !== null) navigator.geolocation.clearWatch(watchIdRef.current);
+          watchIdRef.current = null;
+        } else {
+          // Timeouts and signal loss are transient; keep the watch alive
+          setStatus(prev => (prev === 'tracking' ? prev : 'error'));
+          setError(err.code === err.TIMEOUT ? 'Still looking for a GPS fix...' : 'Your position is currently unavailable.');
+        }
+      },
+      { enableHighAccuracy: true, maximumAge: 10000, timeout: 20000 }
+    );
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    let permissionStatus: PermissionStatus | null = null;
+    const onPermissionChange = () => {
+      if (permissionStatus?.state === 'denied') {
+        stop();
+        setStatus('denied');
+      }
+    };
+
+    navigator.permissions?.query({ name: 'geolocation' as PermissionName })
+      .then(result => {
+        // Unmounted while the query was pending: cleanup has already run
+        if (cancelled) return;
+        permissionStatus = result;
+        result.addEventListener('change', onPermissionChange);
+        if (result.state === 'granted') start();
+        else if (result.state === 'denied') setStatus('denied');
+      })
+      .catch(() => {
+        // Permissions API unsupported (older Safari): wait for an explicit request
+      });
+
+    return () => {
+      cancelled = true;
+      permissionStatus?.removeEventListener('change', onPermissionChange);
+      if (watchIdRef.current !== null) navigator.geolocation.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+    };
+  }, [start, stop]);
+
+  return { position, status, error, start, stop };
+};
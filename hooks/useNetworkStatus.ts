@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from 'react';
+import { getNetworkStatus, subscribeToNetwork } from '../services/offline';
+
+// Online/offline plus how many AI and geocoding requests are waiting for a connection
+export const useNetworkStatus = () => useSyncExternalStore(subscribeToNetwork, getNetworkStatus);
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// The current time, refreshed every `intervalMs`, for labels like "closes in 40 min"
+export const useNow = (intervalMs = 60 * 1000) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,58 @@
+import { useEffect, useRef, useState } from 'react';
+import { Collection, Location } from '../types';
+import { MOCK_LOCATIONS } from '../constants';
+import { LocationStore, openLocationStore } from '../services/storage/locationStore';
+import { StorageIssue } from '../services/storage/schema';
+import { prunePhotoUploads } from '../services/photos/uploads';
+
+// Loads saved locations and collections from the best available store and writes them
+// back on every change. Nothing is written until the initial load finishes, so a slow IndexedDB open can never
+// overwrite real data with the empty initial state.
+export const usePersistedLocations = () => {
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [issues, setIssues] = useState<StorageIssue[]>([]);
+  const storeRef = useRef<LocationStore | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const store = await openLocationStore();
+        const result = await store.load();
+        if (cancelled) return;
+
+        storeRef.current = store;
+        setLocations(result.isFirstRun ? MOCK_LOCATIONS : result.snapshot.locations);
+        setCollections(result.snapshot.collections);
+        setIssues(result.issues);
+        // Set-aside records may still point at photos, so cleanup waits for a clean load
+        if (result.issues.length === 0) {
+          prunePhotoUploads(result.snapshot.locations).catch(error => console.warn('Photo cleanup failed', error));
+        }
+      } catch (error) {
+        console.error('Error loading saved locations:', error);
+        if (!cancelled) {
+          setIssues([{ kind: 'corrupt', message: 'Saved places could not be loaded. Changes will not be saved this session.' }]);
+        }
+      } finally {
+        if (!cancelled) setIsLoaded(true);
+      }
+    })();
+
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded || !storeRef.current) return;
+    storeRef.current.save({ locations, collections }).catch(error => {
+      console.error('Error saving locations:', error);
+    });
+  }, [locations, collections, isLoaded]);
+
+  const dismissIssues = () => setIssues([]);
+
+  return { locations, setLocations, collections, setCollections, isLoaded, issues, dismissIssues };
+};
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Location } from '../types';
+import { getAiTransportName, isQuotaError } from '../services/ai';
+import {
+  PlaceInsights,
+  fetchReviewSummary,
+  fetchTip,
+  insightsKey,
+  isInsightsStale,
+  loadInsights,
+  saveInsights,
+} from '../services/insights';
+
+const emptyInsights = (): PlaceInsights => ({ tip: null, summary: null, ratings: [], sources: [], fetchedAt: 0 });
+
+// Tip and review summary for a place, served from IndexedDB when fresh. Stale or
+// missing data is refetched in the background; offline, whatever was saved is shown.
+export const usePlaceInsights = (location: Location | null) => {
+  const [insights, setInsights] = useState<PlaceInsights | null>(null);
+  const [loadingTip, setLoadingTip] = useState(false);
+  const [loadingSummary, setLoadingSummary] = useState(false);
+  const [quotaExceeded, setQuotaExceeded] = useState(false);
+  const [isOffline, setIsOffline] = useState(() => !navigator.onLine);
+  const controllerRef = useRef<AbortController | null>(null);
+  const key = location ? insightsKey(location) : null;
+
+  useEffect(() => {
+    const update = () => setIsOffline(!navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const fetchFresh = useCallback(async (target: Location, previous: PlaceInsights | null) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+
+    setLoadingTip(true);
+    setLoadingSummary(true);
+    setQuotaExceeded(false);
+
+    // Failed parts keep their previous value; only a new summary counts as a refresh
+    let next = previous ? { ...previous } : emptyInsights();
+    let hasNewTip = false;
+    let hasNewSummary = false;
+
+    const handleError = (error: any) => {
+      if (error?.name === 'AbortError') return;
+      if (isQuotaError(error)) setQuotaExceeded(true);
+      else console.warn('Fetching insights failed', error);
+    };
+
+    const tipTask = fetchTip(target, signal)
+      .then(tip => {
+        next = { ...next, tip };
+        hasNewTip = true;
+        if (!signal.aborted) setInsights(next);
+      }, handleError)
+      .finally(() => { if (!signal.aborted) setLoadingTip(false); });
+
+    const summaryTask = fetchReviewSummary(target, signal)
+      .then(review => {
+        next = { ...next, ...review };
+        hasNewSummary = true;
+        if (!signal.aborted) setInsights(next);
+      }, handleError)
+      .finally(() => { if (!signal.aborted) setLoadingSummary(false); });
+
+    await Promise.all([tipTask, summaryTask]);
+    if (signal.aborted || (!hasNewTip && !hasNewSummary)) return;
+
+    if (hasNewSummary) next = { ...next, fetchedAt: Date.now() };
+    setInsights(next);
+    // Demo answers are shown but not kept, so real ones replace them once a key is set
+    if (getAiTransportName() !== 'mock') await saveInsights(target, next);
+  }, []);
+
+  useEffect(() => {
+    controllerRef.current?.abort();
+    setInsights(null);
+    setQuotaExceeded(false);
+    if (!location) return;
+
+    let cancelled = false;
+    setLoadingTip(true);
+    setLoadingSummary(true);
+
+    loadInsights(location).then(cached => {
+      if (cancelled) return;
+      setInsights(cached);
+      if ((!cached || isInsightsStale(cached)) && navigator.onLine) {
+        fetchFresh(location, cached);
+      } else {
+        setLoadingTip(false);
+        setLoadingSummary(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      controllerRef.current?.abort();
+    };
+    // Keyed by place, not object identity, so toggling "visited" doesn't refetch
+  }, [key]);
+
+  // Catch up once the connection returns
+  useEffect(() => {
+    if (isOffline || !location || loadingSummary) return;
+    if (!insights || isInsightsStale(insights)) fetchFresh(location, insights);
+  }, [isOffline]);
+
+  const refresh = () => {
+    if (location && !isOffline) fetchFresh(location, insights);
+  };
+
+  return {
+    insights,
+    loadingTip,
+    loadingSummary,
+    quotaExceeded,
+    isOffline,
+    isStale: !!insights && isInsightsStale(insights),
+    refresh,
+  };
+};
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { Location } from '../types';
+import { findPlacePhotos, isPlaceholderImage, loadPhotoUpload, placeholderImage } from '../services/photos';
+import { insightsKey } from '../services/insights';
+
+export interface DisplayPhoto {
+  id: string;
+  src: string;
+  thumbSrc: string;
+  source: 'upload' | 'remote' | 'image' | 'placeholder';
+  attribution?: string;
+  pageUrl?: string;
+}
+
+// Everything the card can show for a place, best first: the user's uploads, then
+// the place's own image URL, then photos found online. Falls back to a drawn placeholder.
+export const usePlacePhotos = (location: Location | null) => {
+  const [uploads, setUploads] = useState<DisplayPhoto[]>([]);
+  const [remote, setRemote] = useState<DisplayPhoto[]>([]);
+  const [isLoadingRemote, setIsLoadingRemote] = useState(false);
+
+  const uploadIds = (location?.photos || []).map(p => p.id).join(',');
+  const placeKey = location ? insightsKey(location) : null;
+
+  useEffect(() => {
+    setUploads([]);
+    if (!location?.photos?.length) return;
+
+    let cancelled = false;
+    const urls: string[] = [];
+    Promise.all(location.photos.map(async (photo): Promise<DisplayPhoto | null> => {
+      const stored = await loadPhotoUpload(photo.id);
+      if (!stored || cancelled) return null;
+      const src = URL.createObjectURL(stored.full);
+      const thumbSrc = URL.createObjectURL(stored.thumb);
+      urls.push(src, thumbSrc);
+      return { id: photo.id, src, thumbSrc, source: 'upload' };
+    })).then(loaded => {
+      if (!cancelled) setUploads(loaded.filter((p): p is DisplayPhoto => !!p).reverse());
+    });
+
+    return () => {
+      cancelled = true;
+      urls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [uploadIds]);
+
+  useEffect(() => {
+    setRemote([]);
+    if (!location || !navigator.onLine) return;
+
+    const controller = new AbortController();
+    setIsLoadingRemote(true);
+    findPlacePhotos(location, controller.signal)
+      .then(photos => setRemote(photos.map(photo => ({
+        id: photo.id,
+        src: photo.url,
+        thumbSrc: photo.thumbUrl,
+        source: 'remote' as const,
+        attribution: photo.attribution,
+        pageUrl: photo.pageUrl,
+      }))))
+      .catch(error => {
+        if (error?.name !== 'AbortError') console.warn('Photo lookup failed', error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoadingRemote(false);
+      });
+
+    return () => controller.abort();
+  }, [placeKey]);
+
+  const photos: DisplayPhoto[] = [...uploads];
+  if (location && !isPlaceholderImage(location.image) && !remote.some(p => p.src === location.image)) {
+    photos.push({ id: 'image', src: location.image, thumbSrc: location.image, source: 'image' });
+  }
+  photos.push(...remote);
+  if (location && photos.length === 0) {
+    const placeholder = placeholderImage(location);
+    photos.push({ id: 'placeholder', src: placeholder, thumbSrc: placeholder, source: 'placeholder' });
+  }
+
+  return { photos, isLoadingRemote };
+};
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { SharedList, decodeSharedList, readShareFragment } from '../services/sharing';
+
+// The list in a "#share=…" link, decoded when the page opens or the hash changes
+export const useSharedList = () => {
+  const [list, setList] = useState<SharedList | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      const encoded = readShareFragment(window.location.hash);
+      if (!encoded) return;
+      decodeSharedList(encoded)
+        .then(decoded => {
+          if (cancelled) return;
+          setList(decoded);
+          setError(null);
+        })
+        .catch(e => {
+          if (cancelled) return;
+          console.warn('Could not open share link', e);
+          setList(null);
+          setError(e?.message || 'This share link could not be opened');
+        });
+    };
+
+    load();
+    window.addEventListener('hashchange', load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('hashchange', load);
+    };
+  }, []);
+
+  // Drops the list and the fragment, so a reload does not bring it back
+  const close = () => {
+    setList(null);
+    setError(null);
+    const { pathname, search } = window.location;
+    window.history.replaceState(window.history.state, '', `${pathname}${search}`);
+  };
+
+  return { list, error, close };
+};
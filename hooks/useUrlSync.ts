@@ -0,0 +1,17 @@
+import { useEffect } from 'react';
+import { UrlState, serializeUrlState } from '../services/sharing';
+
+// Mirrors the state into the query string. replaceState keeps panning and filtering
+// out of the back button's history; the short delay spares the browser a write per frame.
+export const useUrlSync = (state: UrlState) => {
+  const query = serializeUrlState(state);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const { pathname, search, hash } = window.location;
+      if (search === query) return;
+      window.history.replaceState(window.history.state, '', `${pathname}${query}${hash}`);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+};
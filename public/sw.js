@@ -0,0 +1,109 @@
+// Service worker: keeps the app shell, its CDN dependencies and map tiles available
+// offline. API calls (Gemini, geocoders, Overpass) pass straight through; the app
+// queues those itself while offline, see services/offline/network.ts.
+
+const SHELL_CACHE = 'hidden-gems-shell-v1';
+const CDN_CACHE = 'hidden-gems-cdn-v2';
+// Filled by "Download this area" (services/offline/tiles.ts); only the app removes entries
+const TILE_CACHE = 'hidden-gems-tiles-v1';
+// Tiles seen while browsing, so the last view still renders on a flaky connection
+const BROWSED_TILE_CACHE = 'hidden-gems-browsed-tiles-v1';
+const MAX_BROWSED_TILES = 500;
+
+const KNOWN_CACHES = [SHELL_CACHE, CDN_CACHE, TILE_CACHE, BROWSED_TILE_CACHE];
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+// The import map's modules load from here. Its URLs are version ranges, so what they
+// resolve to changes under the same URL.
+const MODULE_HOST = 'esm.sh';
+// Tailwind and Leaflet's stylesheet load from these
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'unpkg.com'];
+const TILE_HOST = 'tile.openstreetmap.org';
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => !KNOWN_CACHES.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const trimCache = async (name, maxEntries) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  // Keys come back in insertion order, so the oldest go first
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+// Downloaded areas first, then recently browsed tiles, then the network
+const handleTile = async request => {
+  const cached = await caches.match(request.url);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Opaque responses can't be checked and count against quota far above their size
+  if (response.ok) {
+    const cache = await caches.open(BROWSED_TILE_CACHE);
+    await cache.put(request.url, response.clone());
+    trimCache(BROWSED_TILE_CACHE, MAX_BROWSED_TILES);
+  }
+  return response;
+};
+
+// Fresh when online (so new builds and dev edits show up), cached when not
+const networkFirst = async (request, cacheKey = request, cacheName = SHELL_CACHE) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(cacheKey, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(cacheKey);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// These change rarely enough that a cached copy is served and refreshed behind it
+const staleWhileRevalidate = async request => {
+  const cache = await caches.open(CDN_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    });
+  if (cached) {
+    refresh.catch(() => {});
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.hostname === TILE_HOST) {
+    event.respondWith(handleTile(request));
+  } else if (request.mode === 'navigate') {
+    // Every route is the single-page app
+    event.respondWith(networkFirst(request, '/'));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  } else if (url.hostname === MODULE_HOST) {
+    // A stale module could pair with a newer one it imports, so the network wins when up
+    event.respondWith(networkFirst(request, request, CDN_CACHE));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
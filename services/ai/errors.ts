@@ -0,0 +1,41 @@
+import { AiError } from './types';
+
+const statusOf = (error: any): number | undefined => {
+  if (typeof error?.status === 'number') return error.status;
+  // Older SDK builds only put the HTTP status in the message text
+  const match = String(error?.message || '').match(/\b([45]\d\d)\b/);
+  return match ? Number(match[1]) : undefined;
+};
+
+// A Retry-After header (seconds) or, from the Gemini API, a RetryInfo retryDelay such as "31s"
+const retryAfterOf = (error: any, message: string): number | undefined => {
+  const header = error?.headers?.get?.('retry-after') ?? error?.headers?.['retry-after'];
+  const seconds = header !== undefined && header !== null
+    ? Number(header)
+    : Number(message.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/)?.[1] ?? NaN);
+  return Number.isFinite(seconds) && seconds >= 0 ? Math.ceil(seconds * 1000) : undefined;
+};
+
+// Maps whatever the SDK or fetch threw onto one of our error kinds. Aborts are
+// passed through untouched so callers can keep ignoring them by name.
+export const toAiError = (error: any): AiError | Error => {
+  if (error instanceof AiError || error?.name === 'AbortError') return error;
+
+  const message = String(error?.message || error);
+  const status = statusOf(error);
+
+  if (status === 429 || /quota|RESOURCE_EXHAUSTED/i.test(message)) {
+    return new AiError('AI quota exceeded', 'quota', status, retryAfterOf(error, message));
+  }
+  if (status !== undefined && status >= 500) {
+    return new AiError(`AI service error (${status})`, 'server', status);
+  }
+  if (status !== undefined && status >= 400) {
+    return new AiError(`AI request rejected (${status}): ${message}`, 'bad-request', status);
+  }
+  // fetch rejects with a TypeError when the network is down or CORS blocks the call
+  if (error instanceof TypeError || /network|fetch|offline/i.test(message)) {
+    return new AiError('Could not reach the AI service', 'network');
+  }
+  return new AiError(message, 'server');
+};
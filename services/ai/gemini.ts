@@ -0,0 +1,79 @@
+import { GoogleGenAI, GenerateContentResponse } from '@google/genai';
+import { AiFunctionCall, AiSource, AiTransport, AiTransportResponse } from './types';
+
+export const extractSources = (response: GenerateContentResponse): AiSource[] =>
+  (response.candidates?.[0]?.groundingMetadata?.groundingChunks || [])
+    .map(chunk => chunk.web)
+    .filter((web): web is { uri: string; title: string } => !!web?.uri && !!web?.title)
+    .map(({ uri, title }) => ({ uri, title }));
+
+const extractFunctionCalls = (response: GenerateContentResponse): AiFunctionCall[] =>
+  (response.functionCalls || []).map(call => ({
+    name: call.name || '',
+    args: (call.args || {}) as Record<string, unknown>,
+  }));
+
+export const toTransportResponse = (response: GenerateContentResponse): AiTransportResponse => {
+  const usage = response.usageMetadata;
+  return {
+    text: response.text || '',
+    functionCalls: extractFunctionCalls(response),
+    sources: extractSources(response),
+    usage: {
+      promptTokens: usage?.promptTokenCount || 0,
+      outputTokens: usage?.candidatesTokenCount || 0,
+      totalTokens: usage?.totalTokenCount || 0,
+    },
+  };
+};
+
+export const createGeminiTransport = (apiKey: string): AiTransport => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+
+    async generate({ model, contents, config, signal }) {
+      const response = await ai.models.generateContent({
+        model,
+        contents,
+        config: { ...config, abortSignal: signal },
+      });
+      return toTransportResponse(response);
+    },
+
+    // Grounding sources and function calls can arrive on any chunk; usage comes with the last
+    async generateStream({ model, contents, config, signal }, onText) {
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents,
+        config: { ...config, abortSignal: signal },
+      });
+      let text = '';
+      let last: GenerateContentResponse | undefined;
+      const functionCalls: AiFunctionCall[] = [];
+      const sources = new Map<string, AiSource>();
+      for await (const chunk of stream) {
+        const piece = chunk.text || '';
+        if (piece) {
+          text += piece;
+          onText(piece);
+        }
+        functionCalls.push(...extractFunctionCalls(chunk));
+        extractSources(chunk).forEach(source => sources.set(source.uri, source));
+        last = chunk;
+      }
+      const usage = last?.usageMetadata;
+      return {
+        text,
+        functionCalls,
+        sources: [...sources.values()],
+        usage: {
+          promptTokens: usage?.promptTokenCount || 0,
+          outputTokens: usage?.candidatesTokenCount || 0,
+          totalTokens: usage?.totalTokenCount || 0,
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,165 @@
+import { STORES } from '../storage/idb';
+import { createTtlCache } from '../storage/ttlCache';
+import { AiError, AiRequest, AiResponse, AiTextListener, AiTransport, AiTransportResponse } from './types';
+import { getModelForTask } from './models';
+import { toAiError } from './errors';
+import { createGeminiTransport } from './gemini';
+import { createMockTransport } from './mock';
+import { recordCacheHit, recordUsage } from './usage';
+import { waitUntilOnline } from '../offline/network';
+
+export * from './types';
+export { DEFAULT_AI_MODELS, configureAiModels, formatModelName, getModelForTask } from './models';
+export { toAiError } from './errors';
+export { createGeminiTransport, extractSources, toTransportResponse } from './gemini';
+export { createMockTransport } from './mock';
+export type { MockAiHandler } from './mock';
+export { getSessionUsage, resetSessionUsage, subscribeToUsage } from './usage';
+export type { SessionUsage } from './usage';
+
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+// A rate limit that lifts later than this is reported rather than waited out
+const MAX_RETRY_AFTER_MS = 30 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const cache = createTtlCache(STORES.aiCache, DAY_MS);
+
+// Without an API key the app still runs end to end on canned answers
+let transport: AiTransport = process.env.API_KEY
+  ? createGeminiTransport(process.env.API_KEY)
+  : createMockTransport();
+
+if (transport.name === 'mock') {
+  console.info('No GEMINI_API_KEY set, AI features are using offline demo answers');
+}
+
+export const setAiTransport = (next: AiTransport) => {
+  transport = next;
+};
+
+export const getAiTransportName = () => transport.name;
+
+// FNV-1a; only needs to spread keys, not resist collisions on purpose
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+// Keyed by transport too, so demo answers never stand in for real ones once a key is set
+const cacheKeyFor = ({ task, contents, config, cache: options }: AiRequest, model: string) => {
+  const { abortSignal, ...stableConfig } = config || {};
+  const place = options?.place?.trim().toLowerCase() || '-';
+  return `${transport.name}:${task}:${place}:${hash(JSON.stringify({ model, contents, config: stableConfig }))}`;
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// The server's own wait when it gave one, otherwise exponential backoff with jitter
+const retryDelayFor = (error: AiError, attempt: number) =>
+  error.retryAfterMs ?? BASE_BACKOFF_MS * 2 ** attempt + Math.random() * 250;
+
+const canRetry = (error: AiError | Error, attempt: number): error is AiError =>
+  error instanceof AiError && error.isRetryable && (error.retryAfterMs ?? 0) <= MAX_RETRY_AFTER_MS
+  && attempt < MAX_ATTEMPTS - 1;
+
+// Single entry point for every model call: picks the task's model, serves cached
+// answers, retries transient failures with exponential backoff and records usage.
+// Failures surface as AiError (or an AbortError when cancelled).
+export const generate = async (request: AiRequest): Promise<AiResponse> => {
+  const model = getModelForTask(request.task);
+  const cacheKey = request.cache ? cacheKeyFor(request, model) : null;
+
+  if (cacheKey) {
+    const cached = await cache.get<AiTransportResponse>(cacheKey);
+    if (cached) {
+      recordCacheHit();
+      return { ...cached, model, fromCache: true };
+    }
+  }
+
+  // Cached answers work offline; anything else waits for the connection
+  await waitUntilOnline(request.signal);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await transport.generate({
+        task: request.task,
+        model,
+        contents: request.contents,
+        config: request.config,
+        signal: request.signal,
+      });
+      recordUsage(request.task, response.usage);
+      if (cacheKey && request.cache && response.text) {
+        await cache.set(cacheKey, response, request.cache.ttlMs);
+      }
+      return { ...response, model, fromCache: false };
+    } catch (raw) {
+      const error = toAiError(raw);
+      if (!canRetry(error, attempt) || request.signal?.aborted) throw error;
+
+      const delay = retryDelayFor(error, attempt);
+      console.warn(`AI ${request.task} request failed (${error.kind}), retrying in ${Math.round(delay)} ms`);
+      await wait(delay, request.signal);
+    }
+  }
+};
+
+// generate for answers shown as they are written. Never cached; a failure is only
+// retried while no text has reached the listener, so the reader never sees a repeat.
+export const generateStream = async (request: AiRequest, onText: AiTextListener): Promise<AiResponse> => {
+  const model = getModelForTask(request.task);
+  await waitUntilOnline(request.signal);
+
+  let received = false;
+  const listener: AiTextListener = chunk => {
+    received = true;
+    onText(chunk);
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await transport.generateStream({
+        task: request.task,
+        model,
+        contents: request.contents,
+        config: request.config,
+        signal: request.signal,
+      }, listener);
+      recordUsage(request.task, response.usage);
+      return { ...response, model, fromCache: false };
+    } catch (raw) {
+      const error = toAiError(raw);
+      if (received || !canRetry(error, attempt) || request.signal?.aborted) throw error;
+
+      const delay = retryDelayFor(error, attempt);
+      console.warn(`AI ${request.task} stream failed (${error.kind}), retrying in ${Math.round(delay)} ms`);
+      await wait(delay, request.signal);
+    }
+  }
+};
+
+// Parses a JSON-mode response, turning malformed output into an AiError
+export const parseJsonResponse = <T>(response: AiResponse): T => {
+  try {
+    return JSON.parse(response.text || '{}') as T;
+  } catch {
+    throw new AiError('The AI returned malformed JSON', 'invalid-response');
+  }
+};
@@ -0,0 +1,84 @@
+import type { Schema } from '@google/genai';
+import { AiTransport, AiTransportRequest, AiTransportResponse } from './types';
+
+export type MockAiHandler = (
+  request: AiTransportRequest
+) => Partial<AiTransportResponse> | string | Promise<Partial<AiTransportResponse> | string>;
+
+// Rough token count; good enough for the usage readout in offline mode
+const estimateTokens = (value: unknown) => Math.ceil(JSON.stringify(value ?? '').length / 4);
+
+// Builds a value that satisfies a response schema so JSON callers get something parseable
+const sampleFromSchema = (schema: Schema | undefined, label = 'value'): unknown => {
+  if (!schema || schema.nullable) return null;
+  switch (schema.type) {
+    case 'OBJECT':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, child]) => [key, sampleFromSchema(child, key)])
+      );
+    case 'ARRAY':
+      return [];
+    case 'NUMBER':
+    case 'INTEGER':
+      return 0;
+    case 'BOOLEAN':
+      return false;
+    default:
+      return schema.enum?.[0] ?? `Sample ${label}`;
+  }
+};
+
+const defaultHandler: MockAiHandler = ({ task, config }) => {
+  if (config?.responseMimeType === 'application/json') {
+    return JSON.stringify(sampleFromSchema(config.responseSchema as Schema | undefined));
+  }
+  return `Offline demo answer for the "${task}" task. Set GEMINI_API_KEY to use Gemini.`;
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('The operation was aborted.', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    }, { once: true });
+  });
+
+// Network-free transport. With no handler it answers every task with placeholder text
+// (or schema-shaped JSON), which lets the whole app run without an API key; tests pass
+// a handler to script exact responses. Streams arrive a few words at a time.
+export const createMockTransport = (handler: MockAiHandler = defaultHandler, latencyMs = 300): AiTransport => {
+  const respond = async (request: AiTransportRequest): Promise<AiTransportResponse> => {
+    if (latencyMs > 0) await delay(latencyMs, request.signal);
+
+    const result = await handler(request);
+    const partial = typeof result === 'string' ? { text: result } : result;
+    const text = partial.text || '';
+    const promptTokens = estimateTokens(request.contents);
+    const outputTokens = estimateTokens(text);
+
+    return {
+      text,
+      functionCalls: partial.functionCalls || [],
+      sources: partial.sources || [],
+      usage: partial.usage || { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens },
+    };
+  };
+
+  return {
+    name: 'mock',
+
+    generate: respond,
+
+    async generateStream(request, onText) {
+      const response = await respond(request);
+      const chunks = response.text.match(/\S+\s*(\S+\s*){0,2}|\s+/g) || [];
+      for (const chunk of chunks) {
+        if (latencyMs > 0) await delay(latencyMs / 6, request.signal);
+        onText(chunk);
+      }
+      return response;
+    },
+  };
+};
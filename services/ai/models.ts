@@ -0,0 +1,24 @@
+import { AiTask } from './types';
+
+// Grounded search and chat need the stronger model; the one-line tip and chat
+// summaries are cheap enough for Flash Lite
+export const DEFAULT_AI_MODELS: Record<AiTask, string> = {
+  search: 'gemini-3-flash-preview',
+  autofill: 'gemini-3-flash-preview',
+  tip: 'gemini-2.5-flash-lite',
+  insights: 'gemini-3-flash-preview',
+  chat: 'gemini-3-flash-preview',
+  summarize: 'gemini-2.5-flash-lite',
+};
+
+let models: Record<AiTask, string> = { ...DEFAULT_AI_MODELS };
+
+export const getModelForTask = (task: AiTask) => models[task];
+
+export const configureAiModels = (overrides: Partial<Record<AiTask, string>>) => {
+  models = { ...models, ...overrides };
+};
+
+// Human-readable name for the footer, e.g. "gemini-3-flash-preview" -> "Gemini 3 Flash Preview"
+export const formatModelName = (model: string) =>
+  model.split('-').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join(' ');
@@ -0,0 +1,84 @@
+import type { ContentListUnion, GenerateContentConfig } from '@google/genai';
+
+// Each task can run on its own model, see models.ts
+export type AiTask = 'search' | 'autofill' | 'tip' | 'insights' | 'chat' | 'summarize';
+
+export interface AiSource {
+  uri: string;
+  title: string;
+}
+
+export interface AiFunctionCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface AiRequest {
+  task: AiTask;
+  contents: ContentListUnion;
+  config?: GenerateContentConfig;
+  // Opt-in response cache, keyed by the prompt plus the place it is about
+  cache?: { place?: string; ttlMs: number };
+  signal?: AbortSignal;
+}
+
+// What a transport returns: the parts of a model response the app uses
+export interface AiTransportResponse {
+  text: string;
+  functionCalls: AiFunctionCall[];
+  sources: AiSource[];
+  usage: TokenUsage;
+}
+
+export interface AiResponse extends AiTransportResponse {
+  model: string;
+  fromCache: boolean;
+}
+
+export interface AiTransportRequest {
+  task: AiTask;
+  model: string;
+  contents: ContentListUnion;
+  config?: GenerateContentConfig;
+  signal?: AbortSignal;
+}
+
+// Receives each piece of text as it arrives
+export type AiTextListener = (chunk: string) => void;
+
+export interface AiTransport {
+  readonly name: string;
+  generate(request: AiTransportRequest): Promise<AiTransportResponse>;
+  // Same as generate, reporting the text as it streams in; resolves to the whole response
+  generateStream(request: AiTransportRequest, onText: AiTextListener): Promise<AiTransportResponse>;
+}
+
+export type AiErrorKind = 'quota' | 'bad-request' | 'network' | 'server' | 'invalid-response';
+
+export class AiError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: AiErrorKind,
+    public readonly status?: number,
+    // How long the server asked us to wait before trying again, when it said
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'AiError';
+  }
+
+  // Outages tend to clear up and a rejected prompt will be rejected again. A rate limit
+  // is only worth retrying when the server says when; a spent daily quota never says.
+  get isRetryable() {
+    if (this.kind === 'quota') return this.retryAfterMs !== undefined;
+    return this.kind === 'network' || this.kind === 'server';
+  }
+}
+
+export const isQuotaError = (error: unknown) => error instanceof AiError && error.kind === 'quota';
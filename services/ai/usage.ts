@@ -0,0 +1,60 @@
+import { AiTask, TokenUsage } from './types';
+
+export interface SessionUsage extends TokenUsage {
+  requests: number;
+  cacheHits: number;
+  byTask: Partial<Record<AiTask, TokenUsage>>;
+}
+
+const emptyUsage = (): SessionUsage => ({
+  promptTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  requests: 0,
+  cacheHits: 0,
+  byTask: {},
+});
+
+// Token usage for this page load only; nothing is persisted
+let usage = emptyUsage();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const recordUsage = (task: AiTask, tokens: TokenUsage) => {
+  const previous = usage.byTask[task] || { promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+  usage = {
+    ...usage,
+    promptTokens: usage.promptTokens + tokens.promptTokens,
+    outputTokens: usage.outputTokens + tokens.outputTokens,
+    totalTokens: usage.totalTokens + tokens.totalTokens,
+    requests: usage.requests + 1,
+    byTask: {
+      ...usage.byTask,
+      [task]: {
+        promptTokens: previous.promptTokens + tokens.promptTokens,
+        outputTokens: previous.outputTokens + tokens.outputTokens,
+        totalTokens: previous.totalTokens + tokens.totalTokens,
+      },
+    },
+  };
+  notify();
+};
+
+export const recordCacheHit = () => {
+  usage = { ...usage, cacheHits: usage.cacheHits + 1 };
+  notify();
+};
+
+// Snapshot identity only changes on updates, so it works with useSyncExternalStore
+export const getSessionUsage = () => usage;
+
+export const subscribeToUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const resetSessionUsage = () => {
+  usage = emptyUsage();
+  notify();
+};
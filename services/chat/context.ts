@@ -0,0 +1,113 @@
+import { Bounds, Coordinate, Location } from '../../types';
+import { normalizeName } from '../../utils/geo';
+import { estimateTokens } from './history';
+
+// What the app can tell the assistant about the user's own state
+export interface ChatContext {
+  locations: Location[];
+  mapCenter: Coordinate | null;
+  mapBounds: Bounds | null;
+  selected: Location | null;
+}
+
+// Which parts of it the user has agreed to share
+export interface ChatContextSharing {
+  savedPlaces: boolean;
+  mapArea: boolean;
+  selection: boolean;
+}
+
+export const DEFAULT_CONTEXT_SHARING: ChatContextSharing = { savedPlaces: true, mapArea: true, selection: true };
+
+export const CONTEXT_SHARING_OPTIONS: { key: keyof ChatContextSharing; label: string }[] = [
+  { key: 'savedPlaces', label: 'Saved list' },
+  { key: 'mapArea', label: 'Map area' },
+  { key: 'selection', label: 'Selected place' },
+];
+
+const SHARING_KEY = 'hidden_gems_chat_context';
+// The saved list is the bulk of the context; past this the rest is left out
+const SAVED_LIST_TOKEN_BUDGET = 1500;
+
+export const loadContextSharing = (): ChatContextSharing => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SHARING_KEY) || 'null');
+    return { ...DEFAULT_CONTEXT_SHARING, ...(saved && typeof saved === 'object' ? saved : {}) };
+  } catch {
+    return DEFAULT_CONTEXT_SHARING;
+  }
+};
+
+export const saveContextSharing = (sharing: ChatContextSharing) => {
+  try {
+    localStorage.setItem(SHARING_KEY, JSON.stringify(sharing));
+  } catch {
+    // Private mode: the choice lasts until the tab closes
+  }
+};
+
+const coordinateText = ({ lat, lng }: Coordinate) => `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+
+// "- Tiong Bahru Bakery (Hidden Gem cafe, visited, #brunch #pastry)"
+const placeLine = (location: Location) => {
+  const details = [
+    `${location.category} ${location.placeType.toLowerCase()}`,
+    location.visited ? 'visited' : 'not visited yet',
+    location.rating && `rated ${location.rating.stars}/5`,
+    location.tags?.length ? location.tags.map(t => `#${t.replace(/\s+/g, '-')}`).join(' ') : '',
+  ].filter(Boolean);
+  return `- ${location.name} (${details.join(', ')})`;
+};
+
+// The shared parts of the context as prompt text; empty when nothing is shared
+export const describeChatContext = (context: ChatContext, sharing: ChatContextSharing): string => {
+  const sections: string[] = [];
+
+  if (sharing.savedPlaces && context.locations.length > 0) {
+    const lines: string[] = [];
+    let used = 0;
+    for (const location of context.locations) {
+      const line = placeLine(location);
+      used += estimateTokens(line);
+      if (used > SAVED_LIST_TOKEN_BUDGET) break;
+      lines.push(line);
+    }
+    const omitted = context.locations.length - lines.length;
+    sections.push(
+      `The user's saved list (${context.locations.length} ${context.locations.length === 1 ? 'place' : 'places'}). Do not recommend these again unless the user asks ` +
+      `about them by name; suggest new places instead, and you may compare with these to match their taste.\n` +
+      lines.join('\n') +
+      (omitted > 0 ? `\n(and ${omitted} more)` : '')
+    );
+  }
+
+  if (sharing.mapArea && context.mapCenter) {
+    const bounds = context.mapBounds;
+    sections.push(
+      `The map is centred on ${coordinateText(context.mapCenter)}` +
+      (bounds ? `, showing ${coordinateText({ lat: bounds.south, lng: bounds.west })} to ${coordinateText({ lat: bounds.north, lng: bounds.east })}` : '') +
+      `. "Here", "nearby" and "around" mean this area unless the user names another.`
+    );
+  }
+
+  if (sharing.selection && context.selected) {
+    const { selected } = context;
+    sections.push(
+      `The user has ${selected.name} open on the map (${selected.placeType.toLowerCase()}` +
+      `${selected.address ? `, ${selected.address}` : ''}, at ${coordinateText(selected.coordinate)}). "This place" or "there" may mean it.`
+    );
+  }
+
+  return sections.join('\n\n');
+};
+
+// The saved place a chat suggestion refers to, if any. Suggestions have no coordinates
+// yet, so names decide: equal, or one containing the other ("Atlas" and "Atlas Bar").
+export const findSavedPlace = (place: Partial<Location>, locations: Location[]): Location | null => {
+  const name = normalizeName(place.name || '');
+  if (name.length < 3) return null;
+  return locations.find(location => {
+    const saved = normalizeName(location.name);
+    return saved === name || (Math.min(saved.length, name.length) >= 5 && (saved.includes(name) || name.includes(saved)));
+  }) ?? null;
+};
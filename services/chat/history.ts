@@ -0,0 +1,95 @@
+import type { Content } from '@google/genai';
+import { generate } from '../ai';
+import { ChatMessage, Conversation } from './types';
+
+// Recent turns sent word for word with each question
+export const HISTORY_TOKEN_BUDGET = 3000;
+// Once the turns not yet summarised pass this, the oldest are folded into the summary
+// until what is left fits the history budget again
+export const SUMMARY_TRIGGER_TOKENS = 4500;
+
+// About four characters a token for English; only used to stay inside the budgets
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const messageTokens = (message: ChatMessage) =>
+  estimateTokens(message.text) +
+  (message.placeSuggestions || []).reduce((sum, p) => sum + estimateTokens(`${p.name} ${p.address || ''}`), 0);
+
+// The places shown as cards are part of what the model said; without them "the second
+// one" has nothing to point at
+const messageText = (message: ChatMessage) => {
+  const places = (message.placeSuggestions || []).filter(p => p.name);
+  if (places.length === 0) return message.text;
+  return `${message.text}\n\n[Places shown to the user: ${places.map(p => p.address ? `${p.name} (${p.address})` : p.name).join('; ')}]`;
+};
+
+const unsummarized = (conversation: Conversation) =>
+  conversation.messages.slice(conversation.summarizedCount).filter(m => !m.isError);
+
+// The newest turns that fit the budget, oldest first and starting on a user turn as
+// the API expects. The latest message is always included.
+export const toChatContents = (conversation: Conversation, budget = HISTORY_TOKEN_BUDGET): Content[] => {
+  const messages = unsummarized(conversation);
+  const kept: ChatMessage[] = [];
+  let used = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    used += messageTokens(messages[i]);
+    if (kept.length > 0 && used > budget) break;
+    kept.unshift(messages[i]);
+  }
+  while (kept.length > 1 && kept[0].role !== 'user') kept.shift();
+  return kept.map(m => ({ role: m.role, parts: [{ text: messageText(m) }] }));
+};
+
+// Where the summary should end: everything before the newest turns that fit the
+// history budget. Null while the conversation is still short enough to send whole.
+export const summaryCutoff = (conversation: Conversation): number | null => {
+  const { messages, summarizedCount } = conversation;
+  const pending = messages.slice(summarizedCount);
+  const total = pending.filter(m => !m.isError).reduce((sum, m) => sum + messageTokens(m), 0);
+  if (total <= SUMMARY_TRIGGER_TOKENS) return null;
+
+  let cutoff = messages.length;
+  let kept = 0;
+  while (cutoff > summarizedCount) {
+    const message = messages[cutoff - 1];
+    const tokens = message.isError ? 0 : messageTokens(message);
+    if (kept + tokens > HISTORY_TOKEN_BUDGET) break;
+    kept += tokens;
+    cutoff--;
+  }
+  // Start the kept part on a user turn so a question and its answer stay together
+  while (cutoff < messages.length && messages[cutoff].role !== 'user') cutoff++;
+  return cutoff > summarizedCount ? cutoff : null;
+};
+
+// Folds the oldest turns into the running summary. Resolves to null when nothing needs
+// folding yet; the caller merges the result into the newest copy of the conversation.
+export const summarizeOlderTurns = async (
+  conversation: Conversation,
+  signal?: AbortSignal
+): Promise<{ summary: string; summarizedCount: number } | null> => {
+  const cutoff = summaryCutoff(conversation);
+  if (cutoff === null) return null;
+
+  const transcript = conversation.messages
+    .slice(conversation.summarizedCount, cutoff)
+    .filter(m => !m.isError)
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${messageText(m)}`)
+    .join('\n\n');
+  const response = await generate({
+    task: 'summarize',
+    contents: `You keep the memory of a travel chat about Singapore. Update the summary below with the new turns.
+      Keep what later questions may refer back to: places recommended (with areas or addresses), the user's tastes,
+      budget, dates, companions, and what they liked or ruled out. Drop small talk. Stay under 150 words.
+
+      SUMMARY SO FAR:
+      ${conversation.summary || '(none)'}
+
+      NEW TURNS:
+      ${transcript}`,
+    signal,
+  });
+  const summary = response.text.trim();
+  return summary ? { summary, summarizedCount: cutoff } : null;
+};
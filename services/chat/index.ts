@@ -0,0 +1,101 @@
+import { generateStream } from '../ai';
+import { toChatContents } from './history';
+import { PLACES_FORMAT_INSTRUCTION, parseReplyPlaces, visibleReplyText } from './places';
+import { ChatMessage, Conversation } from './types';
+
+export * from './types';
+export { HISTORY_TOKEN_BUDGET, SUMMARY_TRIGGER_TOKENS, estimateTokens, summarizeOlderTurns, summaryCutoff, toChatContents } from './history';
+export { deleteConversation, listConversations, saveConversation } from './store';
+export {
+  CONTEXT_SHARING_OPTIONS,
+  DEFAULT_CONTEXT_SHARING,
+  describeChatContext,
+  findSavedPlace,
+  loadContextSharing,
+  saveContextSharing,
+} from './context';
+export type { ChatContext, ChatContextSharing } from './context';
+export { createChatPinLayer, locatePlaces, parseReplyPlaces, visibleReplyText } from './places';
+
+const TITLE_LENGTH = 48;
+const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createConversation = (): Conversation => {
+  const now = new Date().toISOString();
+  return { id: newId('chat'), title: 'New chat', messages: [], summary: '', summarizedCount: 0, createdAt: now, updatedAt: now };
+};
+
+export const createMessage = (role: ChatMessage['role'], text: string, extra?: Partial<ChatMessage>): ChatMessage => ({
+  id: newId('msg'),
+  role,
+  text,
+  createdAt: new Date().toISOString(),
+  ...extra,
+});
+
+// The first question, cut at a word boundary, names the conversation in the list
+export const titleFromMessage = (text: string) => {
+  const oneLine = text.trim().replace(/\s+/g, ' ');
+  if (oneLine.length <= TITLE_LENGTH) return oneLine;
+  return `${oneLine.slice(0, TITLE_LENGTH).replace(/\s+\S*$/, '')}…`;
+};
+
+// The conversation with a message added, named after its first question
+export const appendMessage = (conversation: Conversation, message: ChatMessage): Conversation => ({
+  ...conversation,
+  title: conversation.messages.length === 0 && message.role === 'user' ? titleFromMessage(message.text) : conversation.title,
+  messages: [...conversation.messages, message],
+  updatedAt: message.createdAt,
+});
+
+// The conversation with one message changed, e.g. its cards pinned after geocoding
+export const updateMessage = (conversation: Conversation, id: string, patch: Partial<ChatMessage>): Conversation => ({
+  ...conversation,
+  messages: conversation.messages.map(m => m.id === id ? { ...m, ...patch } : m),
+});
+
+const systemInstructionFor = (conversation: Conversation, context: string) => `You are a travel assistant for Singapore who knows its hidden gems.
+Provide the response in a clear, informative text format.
+If recommending places, mention their names, what they are (cafe, park, etc.), and why they are good.
+If specific addresses are found, mention them.
+${PLACES_FORMAT_INSTRUCTION}
+Follow-up questions may refer back to earlier answers ("near there", "the second one"); resolve them from the conversation.${
+  context ? `\n\nWhat the app shares about the user right now:\n${context}` : ''
+}${
+  conversation.summary ? `\n\nSummary of the earlier conversation:\n${conversation.summary}` : ''
+}`;
+
+export interface AskAssistantOptions {
+  // Whatever app context the user shares, see describeChatContext
+  context?: string;
+  signal?: AbortSignal;
+  // The answer so far, each time more of it streams in
+  onText?: (text: string) => void;
+}
+
+// The assistant's reply to the conversation's latest message: one grounded call, streamed
+// as it is written, that sees the recent turns (and a summary of older ones) and returns
+// both the answer and its places as cards. The cards have no coordinates yet, see
+// locatePlaces. Failures surface as AiError, or an AbortError when cancelled; the caller
+// keeps whatever onText delivered before that.
+export const askAssistant = async (
+  conversation: Conversation,
+  { context = '', signal, onText }: AskAssistantOptions = {}
+): Promise<ChatMessage> => {
+  let streamed = '';
+  const searchResponse = await generateStream({
+    task: 'chat',
+    contents: toChatContents(conversation),
+    config: {
+      tools: [{ googleSearch: {} }],
+      systemInstruction: systemInstructionFor(conversation, context),
+    },
+    signal,
+  }, chunk => {
+    streamed += chunk;
+    onText?.(visibleReplyText(streamed));
+  });
+
+  const text = visibleReplyText(searchResponse.text) || "I couldn't find any specific recommendations.";
+  return createMessage('model', text, { sources: searchResponse.sources, placeSuggestions: parseReplyPlaces(searchResponse.text) });
+};
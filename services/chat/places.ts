@@ -0,0 +1,114 @@
+import { Location } from '../../types';
+import { normalizeName } from '../../utils/geo';
+import { SINGAPORE_BBOX, geocodePlace } from '../geocoding';
+import { CATEGORIES, PLACE_TYPES } from '../storage/validation';
+import { ChatMessage, ChatPinLayer, Conversation } from './types';
+
+// Grounded answers can't use a response schema, so the model closes its answer with the
+// places as JSON between these tags. One call gives both the prose and the cards.
+const PLACES_START = '<places>';
+const PLACES_END = '</places>';
+const MAX_PLACES = 8;
+
+export const PLACES_FORMAT_INSTRUCTION = `If you recommend or mention specific places, end your answer with every one of them as a JSON array between ${PLACES_START} and ${PLACES_END}, after all the prose, like:
+${PLACES_START}[{"name": "...", "description": "one sentence", "category": "Hidden Gem", "placeType": "Cafe", "address": "street address with postal code if known"}]${PLACES_END}
+category is "Hidden Gem" (quiet, local, little known) or "Tourist Trap" (crowded, overpriced, touristy); placeType is one of ${PLACE_TYPES.join(', ')}. Leave the block out when there are no places. Never mention the block in the prose.`;
+
+// The prose of a (possibly still streaming) answer: everything before the places block,
+// including a tag that has only partly arrived
+export const visibleReplyText = (text: string) => {
+  const start = text.indexOf(PLACES_START);
+  if (start >= 0) return text.slice(0, start).trimEnd();
+  for (let length = PLACES_START.length - 1; length > 0; length--) {
+    if (text.endsWith(PLACES_START.slice(0, length))) return text.slice(0, -length);
+  }
+  return text;
+};
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Keeps the entries that name a place, fills in what the model got wrong or left out
+// and drops repeats. Anything unparseable yields no cards rather than an error.
+export const parseReplyPlaces = (text: string): Partial<Location>[] => {
+  const start = text.indexOf(PLACES_START);
+  if (start < 0) return [];
+  const end = text.indexOf(PLACES_END, start);
+  const json = text.slice(start + PLACES_START.length, end < 0 ? undefined : end).trim()
+    .replace(/^```(?:json)?\s*|\s*```$/g, '');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    console.warn('Chat reply had an unreadable places block');
+    return [];
+  }
+  if (!Array.isArray(raw)) return [];
+
+  const seen = new Set<string>();
+  const places: Partial<Location>[] = [];
+  for (const entry of raw) {
+    const name = asText(entry?.name);
+    const key = normalizeName(name);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    places.push({
+      name,
+      description: asText(entry.description),
+      category: CATEGORIES.includes(entry.category) ? entry.category : 'Hidden Gem',
+      placeType: PLACE_TYPES.includes(entry.placeType) ? entry.placeType : 'Other',
+      address: asText(entry.address) || undefined,
+    });
+    if (places.length === MAX_PLACES) break;
+  }
+  return places;
+};
+
+const isInSingapore = ({ lat, lng }: { lat: number; lng: number }) =>
+  lat >= SINGAPORE_BBOX.south && lat <= SINGAPORE_BBOX.north && lng >= SINGAPORE_BBOX.west && lng <= SINGAPORE_BBOX.east;
+
+// Pins each suggestion that has no coordinate yet. One at a time, as the geocoders are
+// rate limited; a place that can't be found (or lands outside Singapore) stays unpinned.
+export const locatePlaces = async (places: Partial<Location>[], signal?: AbortSignal): Promise<Partial<Location>[]> => {
+  const located: Partial<Location>[] = [];
+  for (const place of places) {
+    if (place.coordinate || !place.name) {
+      located.push(place);
+      continue;
+    }
+    try {
+      const match = await geocodePlace({ name: place.name, address: place.address }, signal);
+      located.push(match && isInSingapore(match.coordinate)
+        ? { ...place, coordinate: match.coordinate, address: place.address || match.displayName }
+        : place);
+    } catch (error: any) {
+      if (error?.name === 'AbortError') throw error;
+      console.warn(`Could not locate ${place.name}`, error);
+      located.push(place);
+    }
+  }
+  return located;
+};
+
+// The reply's pinned suggestions as temporary map places. Ids are tied to the message,
+// so showing the same reply again gives the same pins.
+export const createChatPinLayer = (conversation: Conversation, message: ChatMessage): ChatPinLayer => ({
+  conversationId: conversation.id,
+  messageId: message.id,
+  title: conversation.title,
+  places: (message.placeSuggestions || []).flatMap((place, i): Location[] =>
+    place.name && place.coordinate
+      ? [{
+          id: `chat-${message.id}-${i}`,
+          name: place.name,
+          description: place.description || '',
+          category: place.category || 'Hidden Gem',
+          placeType: place.placeType || 'Other',
+          coordinate: place.coordinate,
+          image: '',
+          visited: false,
+          ...(place.address && { address: place.address }),
+        }]
+      : []
+  ),
+});
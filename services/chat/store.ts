@@ -0,0 +1,45 @@
+import { STORES, idbDelete, idbGetAll, idbPut, isIndexedDbAvailable } from '../storage/idb';
+import { Conversation } from './types';
+
+// Conversations are a convenience, not user data we must never lose: storage failures
+// are logged and the chat carries on in memory
+
+const isConversation = (value: any): value is Conversation =>
+  typeof value?.id === 'string' &&
+  typeof value.title === 'string' &&
+  Array.isArray(value.messages) &&
+  typeof value.updatedAt === 'string';
+
+// Most recently active first
+export const listConversations = async (): Promise<Conversation[]> => {
+  if (!isIndexedDbAvailable()) return [];
+  try {
+    const entries = await idbGetAll<Conversation>(STORES.chatConversations);
+    return entries
+      .map(e => e.value)
+      .filter(isConversation)
+      .map(c => ({ ...c, summary: c.summary || '', summarizedCount: c.summarizedCount || 0 }))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (error) {
+    console.warn('Could not read saved conversations', error);
+    return [];
+  }
+};
+
+export const saveConversation = async (conversation: Conversation) => {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await idbPut(STORES.chatConversations, conversation.id, conversation);
+  } catch (error) {
+    console.warn('Could not save conversation', error);
+  }
+};
+
+export const deleteConversation = async (id: string) => {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await idbDelete(STORES.chatConversations, id);
+  } catch (error) {
+    console.warn('Could not delete conversation', error);
+  }
+};
@@ -0,0 +1,33 @@
+import { Location } from '../../types';
+import { AiSource } from '../ai';
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  sources?: AiSource[];
+  placeSuggestions?: Partial<Location>[];
+  createdAt: string; // ISO timestamp
+  isError?: boolean; // Shown in the thread but never sent back to the model
+  isStopped?: boolean; // The user cancelled the reply; text is what arrived before that
+}
+
+// One chat thread. Once it grows past the token budget its oldest turns are folded
+// into `summary`, which the model gets in place of them.
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  summary: string;
+  summarizedCount: number; // Leading messages the summary covers
+  createdAt: string;
+  updatedAt: string;
+}
+
+// One reply's suggestions shown on the map until they are added or dismissed
+export interface ChatPinLayer {
+  conversationId: string;
+  messageId: string;
+  title: string; // The conversation's, to say where the pins came from
+  places: Location[];
+}
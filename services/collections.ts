@@ -0,0 +1,49 @@
+import { Collection, Location } from '../types';
+import { COLLECTION_COLORS } from '../constants';
+
+// Pure helpers for collection bookkeeping so App state updates stay one-liners
+
+export const createCollection = (name: string, existing: Collection[]): Collection => ({
+  id: `col-${Date.now()}`,
+  name: name.trim(),
+  color: COLLECTION_COLORS[existing.length % COLLECTION_COLORS.length],
+  locationIds: [],
+});
+
+// Resolves a collection's ids to locations, in the collection's own order
+export const getCollectionLocations = (collection: Collection, locations: Location[]): Location[] => {
+  const byId = new Map(locations.map(l => [l.id, l]));
+  return collection.locationIds
+    .map(id => byId.get(id))
+    .filter((l): l is Location => !!l);
+};
+
+export const addToCollection = (collections: Collection[], collectionId: string, locationIds: string[]): Collection[] =>
+  collections.map(c => c.id === collectionId
+    ? { ...c, locationIds: [...c.locationIds, ...locationIds.filter(id => !c.locationIds.includes(id))] }
+    : c
+  );
+
+export const removeFromCollections = (collections: Collection[], locationIds: string[]): Collection[] =>
+  collections.map(c => c.locationIds.some(id => locationIds.includes(id))
+    ? { ...c, locationIds: c.locationIds.filter(id => !locationIds.includes(id)) }
+    : c
+  );
+
+export const toggleCollectionMembership = (collections: Collection[], collectionId: string, locationId: string): Collection[] =>
+  collections.map(c => {
+    if (c.id !== collectionId) return c;
+    return c.locationIds.includes(locationId)
+      ? { ...c, locationIds: c.locationIds.filter(id => id !== locationId) }
+      : { ...c, locationIds: [...c.locationIds, locationId] };
+  });
+
+export const reorderCollection = (collections: Collection[], collectionId: string, orderedIds: string[]): Collection[] =>
+  collections.map(c => c.id === collectionId ? { ...c, locationIds: orderedIds } : c);
+
+// Colour for a location's marker: the preferred collection wins, otherwise its first collection
+export const getLocationAccent = (locationId: string, collections: Collection[], preferredId?: string | null): string | undefined => {
+  const preferred = preferredId ? collections.find(c => c.id === preferredId) : undefined;
+  if (preferred?.locationIds.includes(locationId)) return preferred.color;
+  return collections.find(c => c.locationIds.includes(locationId))?.color;
+};
@@ -0,0 +1,179 @@
+import { Location } from '../types';
+import { StoreSnapshot } from './storage/schema';
+import { addToCollection, removeFromCollections, reorderCollection } from './collections';
+
+// Every undoable change to the saved list is a Command: a forward and a backward step
+// over the whole store. Steps work on whatever the store holds when they run, so
+// changes made outside the history (new collections, background rating syncs) survive
+// an undo.
+export interface Command {
+  label: string; // Past tense, shown in the toast: "Removed Haji Lane"
+  destructive?: boolean; // Offer an undo toast straight away
+  mergeKey?: string; // Consecutive commands with the same key become one step (a drag fires many reorders)
+  apply: (state: StoreSnapshot) => StoreSnapshot;
+  revert: (state: StoreSnapshot) => StoreSnapshot;
+}
+
+export interface CommandHistory {
+  past: Command[];
+  future: Command[];
+}
+
+export const HISTORY_LIMIT = 50;
+
+// How close together two mergeable commands must be to count as one gesture
+export const MERGE_WINDOW_MS = 2000;
+
+export const emptyHistory = (): CommandHistory => ({ past: [], future: [] });
+
+// A new command drops anything that was undone, as in any editor
+export const recordCommand = (history: CommandHistory, command: Command, lastRecordedAt = 0, now = Date.now()): CommandHistory => {
+  const last = history.past[history.past.length - 1];
+  if (last && command.mergeKey && last.mergeKey === command.mergeKey && now - lastRecordedAt < MERGE_WINDOW_MS) {
+    // Keep the first step's way back and the latest step's way forward
+    const merged: Command = { ...command, revert: last.revert };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+  return { past: [...history.past, command].slice(-HISTORY_LIMIT), future: [] };
+};
+
+// Moves the last command across and returns it with the state it produces, or null
+// when there is nothing to undo
+export const undoCommand = (history: CommandHistory, state: StoreSnapshot) => {
+  const command = history.past[history.past.length - 1];
+  if (!command) return null;
+  return {
+    command,
+    state: command.revert(state),
+    history: { past: history.past.slice(0, -1), future: [command, ...history.future] },
+  };
+};
+
+export const redoCommand = (history: CommandHistory, state: StoreSnapshot) => {
+  const command = history.future[0];
+  if (!command) return null;
+  return {
+    command,
+    state: command.apply(state),
+    history: { past: [...history.past, command], future: history.future.slice(1) },
+  };
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export const addLocationsCommand = (added: Location[], collectionId: string | null, label?: string): Command => {
+  const ids = added.map(l => l.id);
+  return {
+    label: label || (added.length === 1 ? `Added ${added[0].name}` : `Added ${plural(added.length, 'place')}`),
+    apply: state => ({
+      ...state,
+      locations: [...state.locations, ...added],
+      collections: collectionId ? addToCollection(state.collections, collectionId, ids) : state.collections,
+    }),
+    revert: state => ({
+      ...state,
+      locations: state.locations.filter(l => !ids.includes(l.id)),
+      collections: removeFromCollections(state.collections, ids),
+    }),
+  };
+};
+
+export const importLocationsCommand = (imported: Location[], collectionId: string | null): Command => ({
+  ...addLocationsCommand(imported, collectionId, `Imported ${plural(imported.length, 'place')}`),
+  destructive: true,
+});
+
+// Remembers where the place sat in the list and in each collection so undo puts it back exactly
+export const removeLocationCommand = (location: Location, state: StoreSnapshot): Command => {
+  const index = state.locations.findIndex(l => l.id === location.id);
+  const memberships = state.collections
+    .filter(c => c.locationIds.includes(location.id))
+    .map(c => ({ collectionId: c.id, index: c.locationIds.indexOf(location.id) }));
+
+  return {
+    label: `Removed ${location.name}`,
+    destructive: true,
+    apply: current => ({
+      ...current,
+      locations: current.locations.filter(l => l.id !== location.id),
+      collections: removeFromCollections(current.collections, [location.id]),
+    }),
+    revert: current => ({
+      ...current,
+      locations: insertAt(current.locations, index, location),
+      collections: current.collections.map(c => {
+        const membership = memberships.find(m => m.collectionId === c.id);
+        return membership ? { ...c, locationIds: insertAt(c.locationIds, membership.index, location.id) } : c;
+      }),
+    }),
+  };
+};
+
+const insertAt = <T>(list: T[], index: number, item: T): T[] => {
+  const at = index < 0 ? list.length : Math.min(index, list.length);
+  return [...list.slice(0, at), item, ...list.slice(at)];
+};
+
+const describeUpdate = (location: Location, patch: Partial<Location>): string => {
+  const keys = Object.keys(patch);
+  const only = (key: keyof Location) => keys.length === 1 && keys[0] === key;
+  if (only('coordinate')) return `Moved ${location.name}`;
+  if (only('rating')) return patch.rating ? `Rated ${location.name} ★${patch.rating.stars}` : `Cleared rating for ${location.name}`;
+  if (only('tags')) return `Edited tags for ${location.name}`;
+  if (only('notes')) return `Edited notes for ${location.name}`;
+  if (keys.includes('visits')) return `Updated visits to ${location.name}`;
+  if (only('photos')) {
+    return (patch.photos?.length ?? 0) > (location.photos?.length ?? 0)
+      ? `Added photos to ${location.name}`
+      : `Removed a photo from ${location.name}`;
+  }
+  return `Edited ${location.name}`;
+};
+
+const isRiskyUpdate = (location: Location, patch: Partial<Location>) => {
+  const keys = Object.keys(patch);
+  if (keys.length !== 1) return false;
+  if ('coordinate' in patch) return true;
+  return 'photos' in patch && (patch.photos?.length ?? 0) < (location.photos?.length ?? 0);
+};
+
+// Only the patched fields are swapped back and forth, so unrelated edits made in
+// between (e.g. a rating sync) are left alone. Pin drags are easy to do by accident
+// and removed photos are hard to get back, so both get an undo toast.
+export const updateLocationCommand = (location: Location, patch: Partial<Location>, label = describeUpdate(location, patch)): Command => {
+  const previous = Object.fromEntries(
+    (Object.keys(patch) as (keyof Location)[]).map(key => [key, location[key]])
+  ) as Partial<Location>;
+  const patchLocation = (values: Partial<Location>) => (state: StoreSnapshot): StoreSnapshot => ({
+    ...state,
+    locations: state.locations.map(l => l.id === location.id ? { ...l, ...values } : l),
+  });
+  return {
+    label,
+    destructive: isRiskyUpdate(location, patch),
+    apply: patchLocation(patch),
+    revert: patchLocation(previous),
+  };
+};
+
+// Restores the ids' previous relative order; places added since keep their spot at the end
+const applyOrder = (locations: Location[], orderedIds: string[]) => {
+  const rank = new Map(orderedIds.map((id, i) => [id, i]));
+  return [...locations].sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity));
+};
+
+export const reorderLocationsCommand = (previousIds: string[], nextIds: string[]): Command => ({
+  label: 'Reordered list',
+  destructive: true,
+  mergeKey: 'reorder:all',
+  apply: state => ({ ...state, locations: applyOrder(state.locations, nextIds) }),
+  revert: state => ({ ...state, locations: applyOrder(state.locations, previousIds) }),
+});
+
+export const reorderCollectionCommand = (collectionId: string, previousIds: string[], nextIds: string[], name: string): Command => ({
+  label: `Reordered ${name}`,
+  destructive: true,
+  mergeKey: `reorder:${collectionId}`,
+  apply: state => ({ ...state, collections: reorderCollection(state.collections, collectionId, nextIds) }),
+  revert: state => ({ ...state, collections: reorderCollection(state.collections, collectionId, previousIds) }),
+});
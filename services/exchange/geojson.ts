@@ -0,0 +1,59 @@
+import { Location } from '../../types';
+import { EXTENDED_FIELDS, RawImportedPlace, extendedValue } from './types';
+
+export const toGeoJSON = (locations: Location[]): string => {
+  const collection = {
+    type: 'FeatureCollection',
+    features: locations.map(loc => {
+      const properties: Record<string, unknown> = {
+        name: loc.name,
+        description: loc.description,
+      };
+      EXTENDED_FIELDS.forEach(field => {
+        const value = extendedValue(loc, field);
+        if (value !== undefined) properties[field] = value;
+      });
+      return {
+        type: 'Feature',
+        // GeoJSON positions are [longitude, latitude]
+        geometry: { type: 'Point', coordinates: [loc.coordinate.lng, loc.coordinate.lat] },
+        properties,
+      };
+    }),
+  };
+  return JSON.stringify(collection, null, 2);
+};
+
+export const parseGeoJSON = (text: string): RawImportedPlace[] => {
+  const data = JSON.parse(text);
+  const features: any[] =
+    data?.type === 'FeatureCollection' ? data.features :
+    data?.type === 'Feature' ? [data] :
+    null;
+  if (!Array.isArray(features)) throw new Error('Expected a GeoJSON FeatureCollection');
+
+  return features
+    .filter(f => f?.geometry?.type === 'Point' && Array.isArray(f.geometry.coordinates))
+    .map(f => {
+      const props = f.properties || {};
+      const [lng, lat] = f.geometry.coordinates;
+      return {
+        name: typeof props.name === 'string' ? props.name : undefined,
+        description: typeof props.description === 'string' ? props.description : undefined,
+        coordinate: { lat: Number(lat), lng: Number(lng) },
+        category: props.category,
+        placeType: props.placeType,
+        visited: props.visited,
+        rating: props.rating,
+        ratingNote: typeof props.ratingNote === 'string' ? props.ratingNote : undefined,
+        notes: typeof props.notes === 'string' ? props.notes : undefined,
+        tags: typeof props.tags === 'string' ? props.tags.split(',') : props.tags,
+        address: typeof props.address === 'string' ? props.address : undefined,
+        image: typeof props.image === 'string' ? props.image : undefined,
+        openingHours: typeof props.openingHours === 'string' ? props.openingHours : undefined,
+        priceLevel: props.priceLevel,
+        phone: typeof props.phone === 'string' ? props.phone : undefined,
+        website: typeof props.website === 'string' ? props.website : undefined,
+      };
+    });
+};
@@ -0,0 +1,60 @@
+import { Location } from '../../types';
+import { PLACE_TYPES } from '../storage/validation';
+import { EXTENDED_FIELDS, RawImportedPlace, extendedValue, childElements, childText, escapeXml, parseExtendedValue, parseXml } from './types';
+
+// Location fields that have no GPX equivalent go into <extensions> under our own namespace
+const GPX_NAMESPACE = 'urn:hidden-gems:gpx:1';
+
+export const toGPX = (locations: Location[]): string => {
+  const waypoints = locations.map(loc => {
+    const extensions = EXTENDED_FIELDS
+      .filter(field => extendedValue(loc, field) !== undefined)
+      .map(field => `      <hg:${field}>${escapeXml(String(extendedValue(loc, field)))}</hg:${field}>`)
+      .join('\n');
+    return `  <wpt lat="${loc.coordinate.lat}" lon="${loc.coordinate.lng}">
+    <name>${escapeXml(loc.name)}</name>
+    <desc>${escapeXml(loc.description)}</desc>
+    <type>${escapeXml(loc.placeType)}</type>
+    <extensions>
+${extensions}
+    </extensions>
+  </wpt>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Hidden Gems Singapore" xmlns="http://www.topografix.com/GPX/1/1" xmlns:hg="${GPX_NAMESPACE}">
+${waypoints.join('\n')}
+</gpx>
+`;
+};
+
+export const parseGPX = (text: string): RawImportedPlace[] => {
+  const doc = parseXml(text);
+  const waypoints = Array.from(doc.getElementsByTagNameNS('*', 'wpt'));
+
+  return waypoints.map(wpt => {
+    // <type> is free text in GPX; only trust it when it is one of our place types
+    const type = childText(wpt, 'type');
+    const place: RawImportedPlace = {
+      name: childText(wpt, 'name'),
+      description: childText(wpt, 'desc') || childText(wpt, 'cmt'),
+      coordinate: {
+        lat: parseFloat(wpt.getAttribute('lat') || ''),
+        lng: parseFloat(wpt.getAttribute('lon') || ''),
+      },
+      placeType: type && (PLACE_TYPES as string[]).includes(type) ? type : undefined,
+    };
+
+    const extensions = childElements(wpt, 'extensions')[0];
+    if (extensions) {
+      Array.from(extensions.children).forEach(el => {
+        const field = el.localName;
+        const value = el.textContent?.trim();
+        if (value && (EXTENDED_FIELDS as readonly string[]).includes(field)) {
+          (place as any)[field] = parseExtendedValue(field, value);
+        }
+      });
+    }
+    return place;
+  });
+};
@@ -0,0 +1,134 @@
+import { Location } from '../../types';
+import { validateLocation } from '../storage/validation';
+import { haversineDistance, normalizeName } from '../../utils/geo';
+import { normalizeTags } from '../journal';
+import { ExchangeFormat, RawImportedPlace } from './types';
+import { parseGeoJSON, toGeoJSON } from './geojson';
+import { parseKML, toKML } from './kml';
+import { parseGPX, toGPX } from './gpx';
+
+export type { ExchangeFormat } from './types';
+
+// Two places closer than this are treated as the same spot
+export const DUPLICATE_RADIUS_M = 40;
+
+const FORMATS: Record<ExchangeFormat, { extension: string; mimeType: string; label: string }> = {
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json', label: 'GeoJSON' },
+  kml: { extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml', label: 'KML' },
+  gpx: { extension: 'gpx', mimeType: 'application/gpx+xml', label: 'GPX' },
+};
+
+export const EXCHANGE_FORMATS = (Object.keys(FORMATS) as ExchangeFormat[]).map(format => ({
+  format,
+  ...FORMATS[format],
+}));
+
+export const serializeLocations = (locations: Location[], format: ExchangeFormat): string => {
+  switch (format) {
+    case 'geojson': return toGeoJSON(locations);
+    case 'kml': return toKML(locations);
+    case 'gpx': return toGPX(locations);
+  }
+};
+
+export const downloadLocations = (locations: Location[], format: ExchangeFormat, baseName = 'hidden-gems') => {
+  const { extension, mimeType } = FORMATS[format];
+  const blob = new Blob([serializeLocations(locations, format)], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Safari and older Firefox cancel the download if the URL goes away in the same tick
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Picks the parser from the file extension, falling back to sniffing the content
+export const detectFormat = (fileName: string, text: string): ExchangeFormat | null => {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'geojson' || ext === 'json') return 'geojson';
+  if (ext === 'kml') return 'kml';
+  if (ext === 'gpx') return 'gpx';
+
+  const head = text.trimStart().slice(0, 500);
+  if (head.startsWith('{')) return 'geojson';
+  if (/<kml[\s>]/.test(head)) return 'kml';
+  if (/<gpx[\s>]/.test(head)) return 'gpx';
+  return null;
+};
+
+export const parsePlaces = (text: string, format: ExchangeFormat): RawImportedPlace[] => {
+  switch (format) {
+    case 'geojson': return parseGeoJSON(text);
+    case 'kml': return parseKML(text);
+    case 'gpx': return parseGPX(text);
+  }
+};
+
+export interface ImportCandidate {
+  location: Location;
+  problems: string[];
+  duplicateOf?: { id: string; name: string; reason: 'name' | 'proximity' };
+}
+
+// A saved place that is probably the same as `candidate`: same name, or nearly the same spot
+export const findDuplicate = (candidate: Location, pool: Location[]): ImportCandidate['duplicateOf'] => {
+  const name = normalizeName(candidate.name);
+  for (const existing of pool) {
+    if (name && normalizeName(existing.name) === name) {
+      return { id: existing.id, name: existing.name, reason: 'name' };
+    }
+  }
+  for (const existing of pool) {
+    if (haversineDistance(existing.coordinate, candidate.coordinate) <= DUPLICATE_RADIUS_M) {
+      return { id: existing.id, name: existing.name, reason: 'proximity' };
+    }
+  }
+  return undefined;
+};
+
+// Fills in the fields our own exports always carry but other tools' files may not,
+// then validates the result against the Location type and checks for duplicates.
+// Duplicates are checked against the saved list and earlier rows of the same file.
+export const buildImportCandidates = (raw: RawImportedPlace[], existing: Location[]): ImportCandidate[] => {
+  const stamp = Date.now();
+  const accepted: Location[] = [];
+
+  return raw.map((place, i) => {
+    const location = {
+      id: `import-${stamp}-${i}`,
+      name: place.name || '',
+      description: place.description || '',
+      coordinate: place.coordinate,
+      category: place.category ?? 'Hidden Gem',
+      placeType: place.placeType ?? 'Other',
+      image: place.image || '',
+      visited: place.visited ?? false,
+      ...(place.rating !== undefined && {
+        rating: {
+          // Other tools often allow half stars; ours are whole
+          stars: typeof place.rating === 'number' ? Math.round(place.rating) : place.rating,
+          ...(place.ratingNote && { note: place.ratingNote }),
+          ratedAt: new Date(stamp).toISOString(),
+        },
+      }),
+      ...(place.address && { address: place.address }),
+      ...(place.notes && { notes: place.notes }),
+      ...(place.openingHours && { openingHours: place.openingHours }),
+      ...(place.priceLevel !== undefined && { priceLevel: place.priceLevel }),
+      ...(place.phone && { phone: place.phone }),
+      ...(place.website && { website: place.website }),
+      ...(place.tags !== undefined && {
+        tags: Array.isArray(place.tags) && place.tags.every(t => typeof t === 'string') ? normalizeTags(place.tags) : place.tags,
+      }),
+    } as Location;
+
+    const problems = validateLocation(location);
+    const duplicateOf = problems.length === 0 ? findDuplicate(location, [...existing, ...accepted]) : undefined;
+    if (problems.length === 0 && !duplicateOf) accepted.push(location);
+
+    return { location, problems, duplicateOf };
+  });
+};
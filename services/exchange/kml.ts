@@ -0,0 +1,60 @@
+import { Location } from '../../types';
+import { EXTENDED_FIELDS, RawImportedPlace, extendedValue, childElements, childText, escapeXml, parseExtendedValue, parseXml } from './types';
+
+export const toKML = (locations: Location[], documentName = 'Hidden Gems'): string => {
+  const placemarks = locations.map(loc => {
+    const data = EXTENDED_FIELDS
+      .filter(field => extendedValue(loc, field) !== undefined)
+      .map(field => `        <Data name="${field}"><value>${escapeXml(String(extendedValue(loc, field)))}</value></Data>`)
+      .join('\n');
+    return `    <Placemark>
+      <name>${escapeXml(loc.name)}</name>
+      <description>${escapeXml(loc.description)}</description>
+      <ExtendedData>
+${data}
+      </ExtendedData>
+      <Point><coordinates>${loc.coordinate.lng},${loc.coordinate.lat}</coordinates></Point>
+    </Placemark>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(documentName)}</name>
+${placemarks.join('\n')}
+  </Document>
+</kml>
+`;
+};
+
+export const parseKML = (text: string): RawImportedPlace[] => {
+  const doc = parseXml(text);
+  const placemarks = Array.from(doc.getElementsByTagNameNS('*', 'Placemark'));
+
+  return placemarks.flatMap(pm => {
+    const point = pm.getElementsByTagNameNS('*', 'Point')[0];
+    const coordText = point ? childText(point, 'coordinates') : undefined;
+    if (!coordText) return [];
+
+    // KML coordinates are "lng,lat[,alt]"
+    const [lng, lat] = coordText.split(/[\s,]+/).map(Number);
+    const place: RawImportedPlace = {
+      name: childText(pm, 'name'),
+      description: childText(pm, 'description'),
+      coordinate: { lat, lng },
+      address: childText(pm, 'address'),
+    };
+
+    const extended = childElements(pm, 'ExtendedData')[0];
+    if (extended) {
+      childElements(extended, 'Data').forEach(d => {
+        const field = d.getAttribute('name') || '';
+        const value = childText(d, 'value');
+        if (value !== undefined && (EXTENDED_FIELDS as readonly string[]).includes(field)) {
+          (place as any)[field] = parseExtendedValue(field, value);
+        }
+      });
+    }
+    return [place];
+  });
+};
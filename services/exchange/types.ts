@@ -0,0 +1,81 @@
+import { Coordinate, Location } from '../../types';
+import { isPlaceholderImage } from '../photos/types';
+
+export type ExchangeFormat = 'geojson' | 'kml' | 'gpx';
+
+// A place as read from a file, before it is checked against the Location type.
+// Values are kept loosely typed so validation can report exactly what was wrong.
+export interface RawImportedPlace {
+  name?: string;
+  description?: string;
+  coordinate?: Coordinate;
+  category?: unknown;
+  placeType?: unknown;
+  visited?: unknown;
+  rating?: unknown;
+  ratingNote?: string;
+  notes?: string;
+  tags?: unknown;
+  address?: string;
+  image?: string;
+  openingHours?: string;
+  priceLevel?: unknown;
+  phone?: string;
+  website?: string;
+}
+
+// Location fields written to properties / ExtendedData in every format
+export const EXTENDED_FIELDS = [
+  'category', 'placeType', 'visited', 'rating', 'ratingNote', 'notes', 'tags', 'address', 'image',
+  'openingHours', 'priceLevel', 'phone', 'website',
+] as const;
+
+export type ExtendedField = typeof EXTENDED_FIELDS[number];
+
+// Flat value written for a field; the personal rating travels as plain stars plus
+// a note and tags as a comma list so other tools can read them. Review-site scores
+// and the visit log are not exported.
+export const extendedValue = (loc: Location, field: ExtendedField): string | number | boolean | undefined => {
+  if (field === 'rating') return loc.rating?.stars;
+  if (field === 'ratingNote') return loc.rating?.note;
+  if (field === 'tags') return loc.tags?.length ? loc.tags.join(', ') : undefined;
+  // Uploaded photos stay on this device; stock placeholders are not worth carrying over
+  if (field === 'image') return loc.image && !isPlaceholderImage(loc.image) ? loc.image : undefined;
+  return loc[field];
+};
+
+// Converts a text value from XML back into the type the Location field expects
+export const parseExtendedValue = (field: string, value: string): unknown => {
+  if (field === 'tags') return value.split(',');
+  if (field === 'visited') return value === 'true' ? true : value === 'false' ? false : value;
+  if (field === 'rating' || field === 'priceLevel') {
+    const n = Number(value);
+    return value.trim() !== '' && Number.isFinite(n) ? n : value;
+  }
+  return value;
+};
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) throw new Error(`Invalid XML: ${error.textContent?.trim().split('\n')[0] || 'parse error'}`);
+  return doc;
+};
+
+// Namespace-agnostic lookup of direct children, since KML/GPX files vary in prefixes
+export const childElements = (parent: Element, localName: string): Element[] =>
+  Array.from(parent.children).filter(el => el.localName === localName);
+
+export const childText = (parent: Element, localName: string): string | undefined => {
+  const el = childElements(parent, localName)[0];
+  const text = el?.textContent?.trim();
+  return text ? text : undefined;
+};
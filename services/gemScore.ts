@@ -0,0 +1,220 @@
+import { Category, GemScore, GemSignals, Location, PriceLevel } from '../types';
+import { MAJOR_ATTRACTIONS } from '../constants';
+import { formatDistance, haversineDistance } from '../utils/geo';
+import { formatReviewCount } from './ratings';
+import { formatPriceLevel } from './placeDetails';
+
+// Scores at or above the threshold count as a hidden gem, below it as a tourist trap
+export const DEFAULT_GEM_THRESHOLD = 50;
+const THRESHOLD_KEY = 'hidden_gems_gem_threshold';
+
+// Each signal is read as its own 0-100 gem score and the results averaged with these
+// weights. The AI has read the reviews and blogs, so it counts for the most; price
+// says the least about how touristy a place is.
+const WEIGHTS: Record<keyof GemSignals, number> = {
+  ai: 3,
+  reviewCount: 2,
+  touristTags: 1.5,
+  nearestAttraction: 1,
+  priceLevel: 0.5,
+};
+
+// How far each OSM tag pulls a place towards "tourist trap"
+const TOURIST_TAG_PENALTIES: Record<string, number> = {
+  'tourism=attraction': 35,
+  'tourism=theme_park': 40,
+  'tourism=zoo': 30,
+  'tourism=aquarium': 30,
+  'tourism=museum': 15,
+  'tourism=gallery': 10,
+  'tourism=viewpoint': 15,
+  wikipedia: 20, // Famous enough for an encyclopedia entry
+  brand: 25, // A chain outlet
+  translations: 15, // Name signposted in several languages
+};
+
+const PRICE_SCORES: Record<PriceLevel, number> = { 1: 75, 2: 60, 3: 40, 4: 25 };
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+
+// OSM tags on a place that mark it as tourist facing; an empty list means we looked
+// and found none
+export const touristTagsFromOsm = (tags: Record<string, string> | undefined): string[] => {
+  if (!tags) return [];
+  const found: string[] = [];
+  if (tags.tourism && TOURIST_TAG_PENALTIES[`tourism=${tags.tourism}`]) found.push(`tourism=${tags.tourism}`);
+  if (tags.wikipedia || tags.wikidata) found.push('wikipedia');
+  if (tags.brand || tags['brand:wikidata']) found.push('brand');
+  if (Object.keys(tags).filter(key => key.startsWith('name:')).length >= 3) found.push('translations');
+  return found;
+};
+
+export const nearestAttraction = (location: Pick<Location, 'coordinate'>) =>
+  MAJOR_ATTRACTIONS.reduce<{ name: string; distanceM: number } | null>((nearest, attraction) => {
+    const distanceM = Math.round(haversineDistance(location.coordinate, attraction.coordinate));
+    return !nearest || distanceM < nearest.distanceM ? { name: attraction.name, distanceM } : nearest;
+  }, null) ?? undefined;
+
+const reviewCountOf = (location: Location) => {
+  const counts = (location.externalRatings || []).map(r => r.reviewCount).filter((n): n is number => n !== undefined);
+  return counts.length ? Math.max(...counts) : undefined;
+};
+
+// 0 reviews → 95, 100 → 51, 10k → 7
+const reviewScore = (count: number) => clamp(95 - 22 * Math.log10(count + 1));
+
+const distanceScore = (metres: number) => {
+  if (metres < 200) return 10;
+  if (metres < 500) return 30;
+  if (metres < 1000) return 55;
+  if (metres < 2000) return 75;
+  return 90;
+};
+
+const TAG_LABELS: Record<string, string> = {
+  wikipedia: 'on Wikipedia',
+  brand: 'a chain',
+  translations: 'signposted in several languages',
+};
+
+interface Factor {
+  signal: keyof GemSignals;
+  score: number;
+  phrase: string;
+}
+
+const factorsFor = (signals: GemSignals): Factor[] => {
+  const factors: Factor[] = [];
+  if (signals.ai) factors.push({ signal: 'ai', score: clamp(signals.ai.score), phrase: signals.ai.reason });
+  if (signals.reviewCount !== undefined) {
+    const score = reviewScore(signals.reviewCount);
+    const count = formatReviewCount(signals.reviewCount);
+    factors.push({ signal: 'reviewCount', score, phrase: score >= 50 ? `only ${count} reviews` : `${count} reviews` });
+  }
+  if (signals.touristTags) {
+    const penalty = signals.touristTags.reduce((sum, tag) => sum + (TOURIST_TAG_PENALTIES[tag] || 0), 0);
+    const labels = signals.touristTags.map(tag => TAG_LABELS[tag] || `mapped as ${tag.split('=')[1].replace(/_/g, ' ')}`);
+    factors.push({
+      signal: 'touristTags',
+      score: clamp(80 - penalty),
+      phrase: labels.length ? labels.join(', ') : 'nothing touristy on OpenStreetMap',
+    });
+  }
+  if (signals.nearestAttraction) {
+    const { name, distanceM } = signals.nearestAttraction;
+    const score = distanceScore(distanceM);
+    factors.push({
+      signal: 'nearestAttraction',
+      score,
+      phrase: score >= 75 ? 'away from the big sights' : `${formatDistance(distanceM)} from ${name}`,
+    });
+  }
+  if (signals.priceLevel) {
+    factors.push({ signal: 'priceLevel', score: PRICE_SCORES[signals.priceLevel], phrase: `${formatPriceLevel(signals.priceLevel)} prices` });
+  }
+  return factors;
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Weighted average of whatever signals there are; null when there are none. The
+// explanation leads with the AI's reason and adds the two signals that pulled hardest.
+export const computeGemScore = (signals: GemSignals): { score: number; explanation: string } | null => {
+  const factors = factorsFor(signals);
+  if (factors.length === 0) return null;
+
+  let total = 0;
+  let weights = 0;
+  factors.forEach(f => {
+    total += f.score * WEIGHTS[f.signal];
+    weights += WEIGHTS[f.signal];
+  });
+
+  const strongest = factors
+    .filter(f => f.signal !== 'ai')
+    .sort((a, b) => Math.abs(b.score - 50) * WEIGHTS[b.signal] - Math.abs(a.score - 50) * WEIGHTS[a.signal])
+    .slice(0, 2)
+    .map(f => f.phrase);
+  const explanation = [signals.ai?.reason, strongest.length ? capitalize(strongest.join(', ')) : '']
+    .filter(Boolean)
+    .join(' · ');
+
+  return { score: Math.round(total / weights), explanation };
+};
+
+// Signals read off the place itself, layered over ones gathered earlier (tags from
+// the map search, the AI's take) and any new ones passed in
+export const scoreLocation = (location: Location, extra: GemSignals = {}): GemScore | null => {
+  const signals: GemSignals = {
+    ...location.gemScore?.signals,
+    reviewCount: reviewCountOf(location) ?? location.gemScore?.signals.reviewCount,
+    priceLevel: location.priceLevel,
+    nearestAttraction: nearestAttraction(location),
+    ...extra,
+  };
+  (Object.keys(signals) as (keyof GemSignals)[]).forEach(key => {
+    if (signals[key] === undefined) delete signals[key];
+  });
+  const result = computeGemScore(signals);
+  return result && { ...result, signals, scoredAt: new Date().toISOString() };
+};
+
+export const categoryForScore = (score: number, threshold = getGemThreshold()): Category =>
+  score >= threshold ? 'Hidden Gem' : 'Tourist Trap';
+
+// True unless someone picked the category by hand since the place was last scored
+export const followsGemScore = (location: Location, threshold = getGemThreshold()) =>
+  !location.gemScore || location.category === categoryForScore(location.gemScore.score, threshold);
+
+// The category a place should have after the threshold moves; hand-picked ones stay
+export const recategorize = (location: Location, fromThreshold: number, toThreshold: number): Location => {
+  if (!location.gemScore || !followsGemScore(location, fromThreshold)) return location;
+  const category = categoryForScore(location.gemScore.score, toThreshold);
+  return category === location.category ? location : { ...location, category };
+};
+
+// The place with a fresh score, and its category moved to match when it follows the score
+export const rescoreLocation = (location: Location, extra?: GemSignals, threshold = getGemThreshold()): Location => {
+  const gemScore = scoreLocation(location, extra);
+  if (!gemScore) return location;
+  return {
+    ...location,
+    gemScore,
+    category: followsGemScore(location, threshold) ? categoryForScore(gemScore.score, threshold) : location.category,
+  };
+};
+
+// Rose for traps through amber to emerald for gems, for pins and badges
+export const gemScoreColor = (score: number) => `hsl(${Math.round(350 + clamp(score) * 1.6) % 360}, 75%, 55%)`;
+
+const readThreshold = () => {
+  try {
+    const saved = Number(localStorage.getItem(THRESHOLD_KEY));
+    return saved > 0 && saved < 100 ? saved : DEFAULT_GEM_THRESHOLD;
+  } catch {
+    return DEFAULT_GEM_THRESHOLD;
+  }
+};
+
+let threshold: number | null = null;
+const listeners = new Set<() => void>();
+
+export const getGemThreshold = () => {
+  if (threshold === null) threshold = readThreshold();
+  return threshold;
+};
+
+export const setGemThreshold = (value: number) => {
+  threshold = Math.max(1, Math.min(99, Math.round(value)));
+  try {
+    localStorage.setItem(THRESHOLD_KEY, String(threshold));
+  } catch {
+    // Private mode: the setting lasts until the tab closes
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToGemThreshold = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,13 @@
+import { STORES } from '../storage/idb';
+import { TtlCache, createNoopCache, createTtlCache } from '../storage/ttlCache';
+
+// Addresses rarely move; a month keeps repeat lookups off the network without
+// pinning stale answers forever
+export const GEOCODE_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type GeocodeCache = TtlCache;
+
+export const createGeocodeCache = (ttlMs = GEOCODE_CACHE_TTL_MS): GeocodeCache =>
+  createTtlCache(STORES.geocodeCache, ttlMs);
+
+export const createNoopGeocodeCache = createNoopCache;
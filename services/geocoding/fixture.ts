@@ -0,0 +1,36 @@
+import { Coordinate } from '../../types';
+import { haversineDistance, normalizeName } from '../../utils/geo';
+import { GeocodeResult, GeocodingProvider } from './types';
+
+// Reverse lookups only match fixtures this close to the requested point
+const REVERSE_RADIUS_M = 150;
+
+// Offline provider answering from a fixed list of places. Used in tests and demos
+// so geocoding is deterministic and never touches the network.
+export const createFixtureProvider = (places: GeocodeResult[]): GeocodingProvider => ({
+  name: 'fixture',
+
+  async search(query, { limit = 5 }) {
+    const needle = normalizeName(query);
+    return places
+      .filter(p => normalizeName(`${p.name} ${p.displayName}`).includes(needle))
+      .slice(0, limit);
+  },
+
+  async reverse(coordinate: Coordinate) {
+    let best: GeocodeResult | null = null;
+    let bestDistance = REVERSE_RADIUS_M;
+    places.forEach(p => {
+      const d = haversineDistance(coordinate, p.coordinate);
+      if (d <= bestDistance) {
+        best = p;
+        bestDistance = d;
+      }
+    });
+    return best;
+  },
+
+  async lookupPostalCode(postalCode) {
+    return places.find(p => p.postalCode === postalCode) || null;
+  },
+});
@@ -0,0 +1,146 @@
+import { Coordinate } from '../../types';
+import { GeocodeResult, GeocodingProvider, SearchOptions, extractPostalCode } from './types';
+import { GeocodeCache, createGeocodeCache } from './cache';
+import { createNominatimProvider } from './nominatim';
+import { createPhotonProvider } from './photon';
+import { createOneMapProvider } from './oneMap';
+import { pickBestMatch, scoreResult } from './scoring';
+import { waitUntilOnline } from '../offline/network';
+
+export * from './types';
+export { createGeocodeCache, createNoopGeocodeCache } from './cache';
+export type { GeocodeCache } from './cache';
+export { createNominatimProvider } from './nominatim';
+export { createPhotonProvider } from './photon';
+export { createOneMapProvider } from './oneMap';
+export { createFixtureProvider } from './fixture';
+export { createRateLimiter } from './rateLimiter';
+export { pickBestMatch, scoreResult } from './scoring';
+export type { MatchHints } from './scoring';
+
+// What we know about a place we want to pin, typically from the AI or a prefill
+export interface PlaceQuery {
+  name?: string;
+  address?: string;
+}
+
+export interface GeocodingService {
+  search(query: string, options?: SearchOptions, signal?: AbortSignal): Promise<GeocodeResult[]>;
+  reverse(coordinate: Coordinate, signal?: AbortSignal): Promise<GeocodeResult | null>;
+  lookupPostalCode(postalCode: string, signal?: AbortSignal): Promise<GeocodeResult | null>;
+  geocodePlace(place: PlaceQuery, signal?: AbortSignal): Promise<GeocodeResult | null>;
+}
+
+const normalizeQuery = (query: string) => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// ~1 m at the equator; map clicks this close share a reverse lookup
+const roundCoordinate = (value: number) => value.toFixed(5);
+
+const isAbort = (error: any) => error?.name === 'AbortError';
+
+// Asks each provider that supports `capability` in turn, caching every answer, and
+// returns the first non-empty one. A failing provider is skipped, not fatal.
+export const createGeocodingService = (providers: GeocodingProvider[], cache: GeocodeCache = createGeocodeCache()): GeocodingService => {
+  const firstAnswer = async <T>(
+    capability: keyof Omit<GeocodingProvider, 'name'>,
+    cacheKey: string,
+    isEmpty: (value: T) => boolean,
+    call: (provider: GeocodingProvider) => Promise<T>,
+    empty: T,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    for (const provider of providers.filter(p => p[capability])) {
+      const key = `${provider.name}:${capability}:${cacheKey}`;
+      let value = await cache.get<T>(key);
+      if (value === undefined) {
+        // Offline, a lookup waits for the connection instead of failing every provider
+        await waitUntilOnline(signal);
+        try {
+          value = await call(provider);
+        } catch (error) {
+          if (isAbort(error)) throw error;
+          console.warn(`Geocoding via ${provider.name} failed`, error);
+          continue;
+        }
+        await cache.set(key, value);
+      }
+      if (!isEmpty(value)) return value;
+    }
+    return empty;
+  };
+
+  const search = async (query: string, options: SearchOptions = {}, signal?: AbortSignal) => {
+    const limit = options.limit ?? 5;
+    const results = await firstAnswer<GeocodeResult[]>(
+      'search',
+      `${limit}:${normalizeQuery(query)}`,
+      r => r.length === 0,
+      p => p.search!(query, { limit }, signal),
+      [],
+      signal
+    );
+    // Stable sort, so equally good results keep the provider's relevance order
+    return [...results].sort((a, b) =>
+      scoreResult(b, { name: query, preferVenues: true }) - scoreResult(a, { name: query, preferVenues: true })
+    );
+  };
+
+  const reverse = (coordinate: Coordinate, signal?: AbortSignal) =>
+    firstAnswer<GeocodeResult | null>(
+      'reverse',
+      `${roundCoordinate(coordinate.lat)},${roundCoordinate(coordinate.lng)}`,
+      r => !r,
+      p => p.reverse!(coordinate, signal),
+      null,
+      signal
+    );
+
+  const lookupPostalCode = (postalCode: string, signal?: AbortSignal) =>
+    firstAnswer<GeocodeResult | null>(
+      'lookupPostalCode',
+      postalCode,
+      r => !r,
+      p => p.lookupPostalCode!(postalCode, signal),
+      null,
+      signal
+    );
+
+  // Postal code first (pins the exact building), then the full address, then the name
+  const geocodePlace = async ({ name, address }: PlaceQuery, signal?: AbortSignal) => {
+    const postalCode = extractPostalCode(address);
+    if (postalCode) {
+      const byPostalCode = await lookupPostalCode(postalCode, signal);
+      if (byPostalCode) return byPostalCode;
+    }
+
+    if (address && address.trim().length > 5) {
+      const best = pickBestMatch(await search(address, {}, signal), { name, postalCode });
+      if (best) return best;
+    }
+
+    if (name) return pickBestMatch(await search(name, {}, signal), { name, preferVenues: true });
+    return null;
+  };
+
+  return { search, reverse, lookupPostalCode, geocodePlace };
+};
+
+// OneMap only answers postal codes; Nominatim is the main geocoder with Photon behind it
+let service = createGeocodingService([createOneMapProvider(), createNominatimProvider(), createPhotonProvider()]);
+
+// Swap the providers, e.g. for a self-hosted Nominatim or the fixture provider in tests
+export const setGeocodingProviders = (providers: GeocodingProvider[], cache?: GeocodeCache) => {
+  service = createGeocodingService(providers, cache);
+};
+
+export const searchPlaces = (query: string, options?: SearchOptions, signal?: AbortSignal) =>
+  service.search(query, options, signal);
+
+export const reverseGeocode = (coordinate: Coordinate, signal?: AbortSignal) =>
+  service.reverse(coordinate, signal);
+
+export const lookupPostalCode = (postalCode: string, signal?: AbortSignal) =>
+  service.lookupPostalCode(postalCode, signal);
+
+export const geocodePlace = (place: PlaceQuery, signal?: AbortSignal) =>
+  service.geocodePlace(place, signal);
@@ -0,0 +1,89 @@
+import { Coordinate } from '../../types';
+import { GeocodeResult, GeocodingError, GeocodingProvider, inferPlaceType } from './types';
+import { createRateLimiter } from './rateLimiter';
+
+export const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+// The public instance allows at most one request per second
+// (https://operations.osmfoundation.org/policies/nominatim/)
+const NOMINATIM_MIN_INTERVAL_MS = 1000;
+
+interface NominatimOptions {
+  baseUrl?: string;
+  countryCodes?: string[];
+  email?: string; // Identifies heavy users to the operators, as the policy asks
+}
+
+interface NominatimPlace {
+  place_id: number;
+  lat: string;
+  lon: string;
+  display_name: string;
+  name?: string;
+  class?: string;
+  type?: string;
+  category?: string; // jsonv2 name for `class`
+  address?: Record<string, string>;
+}
+
+const toResult = (place: NominatimPlace): GeocodeResult => {
+  const kind = place.class || place.category;
+  const address = place.address || {};
+  return {
+    id: `nominatim:${place.place_id}`,
+    name: place.name || address.amenity || address.building || address.shop || address.tourism ||
+      address.road || place.display_name.split(',')[0],
+    displayName: place.display_name,
+    coordinate: { lat: parseFloat(place.lat), lng: parseFloat(place.lon) },
+    kind,
+    placeType: inferPlaceType(kind, place.type),
+    postalCode: address.postcode,
+    provider: 'nominatim',
+  };
+};
+
+export const createNominatimProvider = ({
+  baseUrl = NOMINATIM_URL,
+  countryCodes = ['sg'],
+  email,
+}: NominatimOptions = {}): GeocodingProvider => {
+  const schedule = createRateLimiter(NOMINATIM_MIN_INTERVAL_MS);
+
+  const request = (path: string, params: Record<string, string>, signal?: AbortSignal) =>
+    schedule(async () => {
+      const query = new URLSearchParams({ format: 'json', addressdetails: '1', ...params });
+      if (email) query.set('email', email);
+      const res = await fetch(`${baseUrl}/${path}?${query}`, { signal });
+      if (!res.ok) throw new GeocodingError(`Nominatim error: ${res.status}`, 'nominatim', res.status);
+      return res.json();
+    }, signal);
+
+  const search = async (query: string, limit: number, signal?: AbortSignal) => {
+    const params: Record<string, string> = { q: query, limit: String(limit) };
+    if (countryCodes.length) params.countrycodes = countryCodes.join(',');
+    const data: NominatimPlace[] = await request('search', params, signal);
+    return (data || []).map(toResult);
+  };
+
+  return {
+    name: 'nominatim',
+
+    search: (query, { limit = 5 }, signal) => search(query, limit, signal),
+
+    async reverse(coordinate: Coordinate, signal) {
+      const data = await request('reverse', {
+        lat: String(coordinate.lat),
+        lon: String(coordinate.lng),
+        zoom: '18',
+      }, signal);
+      // Nominatim answers 200 with an `error` field when nothing is nearby
+      return data && !data.error ? toResult(data) : null;
+    },
+
+    async lookupPostalCode(postalCode, signal) {
+      // Structured `postalcode=` queries miss most Singapore buildings; free text finds them
+      const results = await search(`${postalCode} Singapore`, 1, signal);
+      return results[0] || null;
+    },
+  };
+};
@@ -0,0 +1,54 @@
+import { GeocodeResult, GeocodingError, GeocodingProvider } from './types';
+import { createRateLimiter } from './rateLimiter';
+
+export const ONEMAP_URL = 'https://www.onemap.gov.sg';
+
+// OneMap allows 250 calls a minute; stay well under it
+const ONEMAP_MIN_INTERVAL_MS = 300;
+
+interface OneMapResult {
+  SEARCHVAL: string;
+  BLK_NO: string;
+  ROAD_NAME: string;
+  BUILDING: string;
+  ADDRESS: string;
+  POSTAL: string;
+  LATITUDE: string;
+  LONGITUDE: string;
+}
+
+const NIL = 'NIL';
+
+const toResult = (r: OneMapResult): GeocodeResult => ({
+  id: `onemap:${r.POSTAL}:${r.SEARCHVAL}`,
+  name: r.BUILDING && r.BUILDING !== NIL ? r.BUILDING : `${r.BLK_NO} ${r.ROAD_NAME}`.trim(),
+  displayName: r.ADDRESS,
+  coordinate: { lat: parseFloat(r.LATITUDE), lng: parseFloat(r.LONGITUDE) },
+  kind: 'building',
+  postalCode: r.POSTAL !== NIL ? r.POSTAL : undefined,
+  provider: 'onemap',
+});
+
+// Postal-code and address lookup against a OneMap-style search endpoint. The public
+// search needs no token and resolves every Singapore postal code to its building.
+export const createOneMapProvider = (baseUrl = ONEMAP_URL): GeocodingProvider => {
+  const schedule = createRateLimiter(ONEMAP_MIN_INTERVAL_MS);
+
+  const search = (value: string, signal?: AbortSignal) =>
+    schedule(async () => {
+      const params = new URLSearchParams({ searchVal: value, returnGeom: 'Y', getAddrDetails: 'Y', pageNum: '1' });
+      const res = await fetch(`${baseUrl}/api/common/elastic/search?${params}`, { signal });
+      if (!res.ok) throw new GeocodingError(`OneMap error: ${res.status}`, 'onemap', res.status);
+      const data = await res.json();
+      return ((data.results || []) as OneMapResult[]).map(toResult);
+    }, signal);
+
+  return {
+    name: 'onemap',
+
+    async lookupPostalCode(postalCode, signal) {
+      const results = await search(postalCode, signal);
+      return results.find(r => r.postalCode === postalCode) || null;
+    },
+  };
+};
@@ -0,0 +1,73 @@
+import { Coordinate } from '../../types';
+import { GeocodeResult, GeocodingError, GeocodingProvider, SINGAPORE_BBOX, inferPlaceType } from './types';
+import { createRateLimiter } from './rateLimiter';
+
+export const PHOTON_URL = 'https://photon.komoot.io';
+
+// Photon has no hard limit but asks for fair use; match Nominatim's pace
+const PHOTON_MIN_INTERVAL_MS = 1000;
+
+interface PhotonOptions {
+  baseUrl?: string;
+  bbox?: typeof SINGAPORE_BBOX | null;
+}
+
+interface PhotonFeature {
+  geometry: { coordinates: [number, number] };
+  properties: {
+    osm_id: number;
+    osm_type: string;
+    osm_key?: string;
+    osm_value?: string;
+    name?: string;
+    housenumber?: string;
+    street?: string;
+    postcode?: string;
+    district?: string;
+    city?: string;
+    country?: string;
+  };
+}
+
+const toResult = ({ geometry, properties: p }: PhotonFeature): GeocodeResult => {
+  const street = [p.housenumber, p.street].filter(Boolean).join(' ');
+  const [lng, lat] = geometry.coordinates;
+  return {
+    id: `photon:${p.osm_type}${p.osm_id}`,
+    name: p.name || street || p.district || p.city || 'Unnamed place',
+    displayName: [p.name, street, p.district, p.city, p.postcode, p.country].filter(Boolean).join(', '),
+    coordinate: { lat, lng },
+    kind: p.osm_key,
+    placeType: inferPlaceType(p.osm_key, p.osm_value),
+    postalCode: p.postcode,
+    provider: 'photon',
+  };
+};
+
+// Komoot's OSM geocoder: typo tolerant and good at partial names, which suits search-as-you-type
+export const createPhotonProvider = ({ baseUrl = PHOTON_URL, bbox = SINGAPORE_BBOX }: PhotonOptions = {}): GeocodingProvider => {
+  const schedule = createRateLimiter(PHOTON_MIN_INTERVAL_MS);
+
+  const request = (path: string, params: Record<string, string>, signal?: AbortSignal) =>
+    schedule(async () => {
+      const res = await fetch(`${baseUrl}/${path}?${new URLSearchParams(params)}`, { signal });
+      if (!res.ok) throw new GeocodingError(`Photon error: ${res.status}`, 'photon', res.status);
+      const data = await res.json();
+      return (data.features || []) as PhotonFeature[];
+    }, signal);
+
+  return {
+    name: 'photon',
+
+    async search(query, { limit = 5 }, signal) {
+      const params: Record<string, string> = { q: query, limit: String(limit) };
+      if (bbox) params.bbox = [bbox.west, bbox.south, bbox.east, bbox.north].join(',');
+      return (await request('api', params, signal)).map(toResult);
+    },
+
+    async reverse(coordinate: Coordinate, signal) {
+      const features = await request('reverse', { lat: String(coordinate.lat), lon: String(coordinate.lng) }, signal);
+      return features.length ? toResult(features[0]) : null;
+    },
+  };
+};
@@ -0,0 +1,38 @@
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export type RateLimiter = <T>(task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+
+// Runs tasks one at a time with at least `minIntervalMs` between their starts.
+// A queued task whose signal aborts is dropped without using up a slot.
+export const createRateLimiter = (minIntervalMs: number): RateLimiter => {
+  let queue: Promise<void> = Promise.resolve();
+  let lastStart = 0;
+
+  return <T>(task: () => Promise<T>, signal?: AbortSignal) => {
+    const run = queue.then(async () => {
+      if (signal?.aborted) throw abortError();
+
+      const wait = lastStart + minIntervalMs - Date.now();
+      if (wait > 0) {
+        await new Promise<void>((resolve, reject) => {
+          const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+          }, wait);
+          const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+          };
+          signal?.addEventListener('abort', onAbort, { once: true });
+        });
+      }
+
+      lastStart = Date.now();
+      return task();
+    });
+
+    // The next task waits for this one to settle, whatever the outcome
+    queue = run.then(() => undefined, () => undefined);
+    return run;
+  };
+};
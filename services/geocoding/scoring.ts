@@ -0,0 +1,53 @@
+import { normalizeName } from '../../utils/geo';
+import { GeocodeResult } from './types';
+
+export interface MatchHints {
+  name?: string; // The place we are looking for, e.g. "Tiong Bahru Bakery"
+  postalCode?: string;
+  preferVenues?: boolean; // Rank shops, cafés and attractions above streets and areas
+}
+
+// Feature classes that describe somewhere you can actually go to
+const VENUE_KINDS = new Set(['amenity', 'tourism', 'shop', 'leisure', 'craft']);
+
+const tokens = (text: string) => new Set(normalizeName(text).split(' ').filter(Boolean));
+
+// Higher is better. A postal-code match outweighs everything else because it pins a
+// single building; name similarity comes next, then whether the result is a venue.
+export const scoreResult = (result: GeocodeResult, hints: MatchHints): number => {
+  let score = 0;
+
+  if (hints.postalCode && result.postalCode === hints.postalCode) score += 100;
+
+  if (hints.name) {
+    const wanted = normalizeName(hints.name);
+    const found = normalizeName(result.name);
+    if (found === wanted) {
+      score += 50;
+    } else if (found.includes(wanted) || wanted.includes(found)) {
+      score += 30;
+    } else {
+      const wantedTokens = tokens(hints.name);
+      const shared = [...tokens(result.name)].filter(t => wantedTokens.has(t)).length;
+      score += wantedTokens.size ? (shared / wantedTokens.size) * 20 : 0;
+    }
+  }
+
+  if (hints.preferVenues && (result.placeType || (result.kind && VENUE_KINDS.has(result.kind)))) score += 15;
+
+  return score;
+};
+
+// Best-scoring result; ties keep the provider's own ranking
+export const pickBestMatch = (results: GeocodeResult[], hints: MatchHints): GeocodeResult | null => {
+  let best: GeocodeResult | null = null;
+  let bestScore = -Infinity;
+  results.forEach(result => {
+    const score = scoreResult(result, hints);
+    if (score > bestScore) {
+      best = result;
+      bestScore = score;
+    }
+  });
+  return best;
+};
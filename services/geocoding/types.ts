@@ -0,0 +1,49 @@
+import { Coordinate, PlaceType } from '../../types';
+
+export interface GeocodeResult {
+  id: string; // Provider-scoped, stable across requests
+  name: string; // Short venue or street name
+  displayName: string; // Full formatted address
+  coordinate: Coordinate;
+  kind?: string; // Provider feature class, e.g. 'amenity', 'tourism', 'building'
+  placeType?: PlaceType; // Only set when the provider's tags make it obvious
+  postalCode?: string;
+  provider: string;
+}
+
+export interface SearchOptions {
+  limit?: number;
+}
+
+// Every capability is optional: the service asks each provider that supports an
+// operation in turn until one returns something.
+export interface GeocodingProvider {
+  readonly name: string;
+  search?(query: string, options: SearchOptions, signal?: AbortSignal): Promise<GeocodeResult[]>;
+  reverse?(coordinate: Coordinate, signal?: AbortSignal): Promise<GeocodeResult | null>;
+  lookupPostalCode?(postalCode: string, signal?: AbortSignal): Promise<GeocodeResult | null>;
+}
+
+export class GeocodingError extends Error {
+  constructor(message: string, public readonly provider: string, public readonly status?: number) {
+    super(message);
+    this.name = 'GeocodingError';
+  }
+}
+
+// Bounding box used to keep results in Singapore for providers without a country filter
+export const SINGAPORE_BBOX = { south: 1.13, west: 103.59, north: 1.48, east: 104.1 };
+
+// Singapore postal codes are six digits and identify a single building
+const POSTAL_CODE_PATTERN = /\b(\d{6})\b/;
+
+export const extractPostalCode = (text?: string): string | undefined => text?.match(POSTAL_CODE_PATTERN)?.[1];
+
+// Maps OSM-style class/type tags onto our place types
+export const inferPlaceType = (kind?: string, type?: string): PlaceType | undefined => {
+  if (type === 'restaurant' || type === 'fast_food' || type === 'food_court') return 'Restaurant';
+  if (type === 'cafe') return 'Cafe';
+  if (type === 'bar' || type === 'pub') return 'Bar';
+  if (kind === 'tourism' || kind === 'leisure') return 'Activity';
+  return undefined;
+};
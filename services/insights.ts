@@ -0,0 +1,116 @@
+import { Type } from '@google/genai';
+import { ExternalRating, GemSignals, Location } from '../types';
+import { normalizeName } from '../utils/geo';
+import { STORES, idbGet, idbPut, isIndexedDbAvailable } from './storage/idb';
+import { AiSource, generate, parseJsonResponse } from './ai';
+
+// Reviews drift slowly; after this the card refetches in the background while
+// still showing what it has
+export const INSIGHTS_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface PlaceInsights {
+  tip: string | null;
+  summary: string | null; // Review sentiment in a sentence or two
+  ratings: ExternalRating[]; // Per review site, normalised to 5
+  assessment?: GemSignals['ai']; // The model's hidden gem vs tourist trap read, see services/gemScore
+  sources: AiSource[];
+  fetchedAt: number;
+}
+
+// Keyed by name and rounded position rather than id, so a suggestion keeps its
+// insights after being saved (which gives it a new id)
+export const insightsKey = (location: Location) =>
+  `${normalizeName(location.name)}@${location.coordinate.lat.toFixed(4)},${location.coordinate.lng.toFixed(4)}`;
+
+export const isInsightsStale = (insights: PlaceInsights, now = Date.now()) =>
+  now - insights.fetchedAt > INSIGHTS_TTL_MS;
+
+export const loadInsights = async (location: Location): Promise<PlaceInsights | null> => {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    const saved = await idbGet<PlaceInsights>(STORES.placeInsights, insightsKey(location));
+    // Entries from before structured ratings only had a single parsed number
+    return saved ? { ...saved, ratings: Array.isArray(saved.ratings) ? saved.ratings : [] } : null;
+  } catch (error) {
+    console.warn('Could not read saved insights', error);
+    return null;
+  }
+};
+
+export const saveInsights = async (location: Location, insights: PlaceInsights) => {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await idbPut(STORES.placeInsights, insightsKey(location), insights);
+  } catch (error) {
+    console.warn('Could not save insights', error);
+  }
+};
+
+// Drops anything the model made up a shape for and rescales 10-point sites to 5
+export const normalizeExternalRatings = (raw: unknown, fetchedAt: string): ExternalRating[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((r: any): ExternalRating[] => {
+    const source = typeof r?.source === 'string' ? r.source.trim() : '';
+    const outOf = typeof r?.outOf === 'number' && r.outOf > 0 ? r.outOf : 5;
+    const score = typeof r?.score === 'number' ? (r.score / outOf) * 5 : NaN;
+    if (!source || !Number.isFinite(score) || score < 0 || score > 5) return [];
+    const reviewCount = typeof r.reviewCount === 'number' && r.reviewCount >= 0 ? Math.round(r.reviewCount) : undefined;
+    return [{ source, score: Math.round(score * 10) / 10, ...(reviewCount !== undefined && { reviewCount }), fetchedAt }];
+  });
+};
+
+export const fetchTip = async (location: Location, signal?: AbortSignal): Promise<string> => {
+  const response = await generate({
+    task: 'tip',
+    contents: `Give me exactly one interesting, short, unique travel tip (under 20 words) for visiting ${location.name} in Singapore.`,
+    signal,
+  });
+  return response.text || 'Enjoy your visit!';
+};
+
+export const fetchReviewSummary = async (location: Location, signal?: AbortSignal) => {
+  const response = await generate({
+    task: 'insights',
+    contents: `Search for current ratings and reviews of "${location.name}" in Singapore from sources like Google Maps, TripAdvisor, and food blogs.
+            Provide a very brief summary (1-2 sentences) of the general sentiment (e.g., "Highly rated for brunch", "Mixed reviews on service").
+            List every numeric rating you find, one per source, with its scale and the number of reviews if shown. Do not invent ratings.
+            Then judge how much of a hidden gem it is, from 0 (a tourist trap: crowded, overpriced, aimed at visitors) to 100
+            (a hidden gem: loved by locals, little known to tourists), with the reason in under 12 words. Use null if the
+            sources say too little to tell.`,
+    config: {
+      tools: [{ googleSearch: {} }],
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          summary: { type: Type.STRING },
+          ratings: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                source: { type: Type.STRING, description: 'e.g. "Google Maps", "TripAdvisor"' },
+                score: { type: Type.NUMBER },
+                outOf: { type: Type.NUMBER, description: 'Top of the scale, usually 5' },
+                reviewCount: { type: Type.INTEGER, nullable: true },
+              },
+              required: ['source', 'score', 'outOf'],
+            },
+          },
+          gemScore: { type: Type.INTEGER, nullable: true, description: '0 = tourist trap, 100 = hidden gem' },
+          gemReason: { type: Type.STRING, nullable: true },
+        },
+        required: ['summary', 'ratings'],
+      },
+    },
+    signal,
+  });
+  const result = parseJsonResponse<{ summary?: string; ratings?: unknown; gemScore?: unknown; gemReason?: unknown }>(response);
+  const gemScore = typeof result.gemScore === 'number' && result.gemScore >= 0 && result.gemScore <= 100 ? Math.round(result.gemScore) : null;
+  return {
+    summary: result.summary || 'No reviews found.',
+    ratings: normalizeExternalRatings(result.ratings, new Date().toISOString()),
+    assessment: gemScore === null ? undefined : { score: gemScore, reason: String(result.gemReason || '').trim() || 'Judged from reviews' },
+    sources: response.sources,
+  };
+};
@@ -0,0 +1,171 @@
+import { Coordinate, Location, PlaceType } from '../types';
+import { haversineDistance } from '../utils/geo';
+
+// Straight-line distance underestimates real walking routes through city streets
+const WALKING_DETOUR_FACTOR = 1.3;
+export const DEFAULT_WALKING_SPEED_KMH = 4.5;
+
+export const DEFAULT_DWELL_MINUTES: Record<PlaceType, number> = {
+  Restaurant: 60,
+  Bar: 60,
+  Cafe: 45,
+  Activity: 90,
+  Other: 30,
+};
+
+export interface ItineraryOptions {
+  start?: Coordinate; // Fixed starting point, e.g. hotel or map centre
+  end?: Coordinate; // Fixed finishing point
+  startMinutes: number; // Minutes after midnight
+  walkingSpeedKmh?: number;
+  dwellMinutes?: Record<string, number>; // Per location id, falls back to DEFAULT_DWELL_MINUTES
+}
+
+export interface ItineraryStop {
+  location: Location;
+  legDistance: number; // Metres walked to reach this stop
+  arriveMinutes: number;
+  departMinutes: number;
+}
+
+export interface DayPlan {
+  stops: ItineraryStop[];
+  finishLegDistance: number; // Metres from the last stop to the fixed end point, if any
+  finishMinutes: number;
+  totalDistance: number;
+  path: Coordinate[];
+}
+
+// A point on the route; fixed start/end points carry no location
+interface Node {
+  coordinate: Coordinate;
+  location?: Location;
+}
+
+const pathLength = (points: Coordinate[]) =>
+  points.reduce((sum, point, i) => (i === 0 ? 0 : sum + haversineDistance(points[i - 1], point)), 0);
+
+// Greedy tour: always walk to the closest place not yet visited
+const nearestNeighbourOrder = (points: Coordinate[], start?: Coordinate): number[] => {
+  const remaining = points.map((_, i) => i);
+  const order: number[] = [];
+  let current = start ?? points[0];
+
+  if (!start) {
+    order.push(0);
+    remaining.splice(0, 1);
+  }
+
+  while (remaining.length > 0) {
+    let bestIdx = 0;
+    let bestDist = Infinity;
+    remaining.forEach((pointIdx, i) => {
+      const d = haversineDistance(current, points[pointIdx]);
+      if (d < bestDist) {
+        bestDist = d;
+        bestIdx = i;
+      }
+    });
+    const [next] = remaining.splice(bestIdx, 1);
+    order.push(next);
+    current = points[next];
+  }
+  return order;
+};
+
+// Repeatedly reverses segments of an open path while that shortens it.
+// Indices before `firstMovable` and after `lastMovable` stay pinned.
+const twoOpt = (nodes: Node[], firstMovable: number, lastMovable: number): Node[] => {
+  const route = [...nodes];
+  const dist = (a?: Node, b?: Node) => (a && b ? haversineDistance(a.coordinate, b.coordinate) : 0);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = firstMovable; i < lastMovable; i++) {
+      for (let k = i + 1; k <= lastMovable; k++) {
+        const before = dist(route[i - 1], route[i]) + dist(route[k], route[k + 1]);
+        const after = dist(route[i - 1], route[k]) + dist(route[i], route[k + 1]);
+        if (after < before - 1e-6) {
+          const reversed = route.slice(i, k + 1).reverse();
+          route.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+  }
+  return route;
+};
+
+// Returns the locations in a short visiting order (nearest neighbour seeded, 2-opt refined)
+export const optimizeVisitOrder = (locations: Location[], start?: Coordinate, end?: Coordinate): Location[] => {
+  if (locations.length < 2) return locations;
+
+  const points = locations.map(l => l.coordinate);
+  const seeded = nearestNeighbourOrder(points, start).map(i => locations[i]);
+
+  const nodes: Node[] = [
+    ...(start ? [{ coordinate: start }] : []),
+    ...seeded.map(location => ({ coordinate: location.coordinate, location })),
+    ...(end ? [{ coordinate: end }] : []),
+  ];
+  const firstMovable = start ? 1 : 0;
+  const lastMovable = nodes.length - 1 - (end ? 1 : 0);
+  return twoOpt(nodes, firstMovable, lastMovable)
+    .slice(firstMovable, lastMovable + 1)
+    .map(node => node.location!);
+};
+
+export const walkingMinutes = (metres: number, speedKmh = DEFAULT_WALKING_SPEED_KMH) =>
+  Math.round(((metres * WALKING_DETOUR_FACTOR) / 1000 / speedKmh) * 60);
+
+// Lays the ordered stops out on a clock, adding walking legs and dwell times
+export const buildDayPlan = (ordered: Location[], options: ItineraryOptions): DayPlan => {
+  const speed = options.walkingSpeedKmh ?? DEFAULT_WALKING_SPEED_KMH;
+  const stops: ItineraryStop[] = [];
+  let clock = options.startMinutes;
+  let previous: Coordinate | undefined = options.start;
+  let totalDistance = 0;
+
+  ordered.forEach(location => {
+    const legDistance = previous ? haversineDistance(previous, location.coordinate) : 0;
+    const arriveMinutes = clock + walkingMinutes(legDistance, speed);
+    const dwell = options.dwellMinutes?.[location.id] ?? DEFAULT_DWELL_MINUTES[location.placeType];
+    stops.push({ location, legDistance, arriveMinutes, departMinutes: arriveMinutes + dwell });
+
+    totalDistance += legDistance;
+    clock = arriveMinutes + dwell;
+    previous = location.coordinate;
+  });
+
+  const finishLegDistance = options.end && previous ? haversineDistance(previous, options.end) : 0;
+  totalDistance += finishLegDistance;
+
+  const path = [
+    ...(options.start ? [options.start] : []),
+    ...ordered.map(l => l.coordinate),
+    ...(options.end ? [options.end] : []),
+  ];
+
+  return {
+    stops,
+    finishLegDistance,
+    finishMinutes: clock + walkingMinutes(finishLegDistance, speed),
+    totalDistance,
+    path,
+  };
+};
+
+export const formatClock = (minutes: number) => {
+  const m = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+};
+
+export const parseClock = (value: string): number => {
+  const [h, m] = value.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+// Exposed for comparing the optimised route with the current manual order
+export const routeDistance = (ordered: Location[], start?: Coordinate, end?: Coordinate) =>
+  pathLength([...(start ? [start] : []), ...ordered.map(l => l.coordinate), ...(end ? [end] : [])]);
@@ -0,0 +1,80 @@
+import { Location, Visit } from '../types';
+
+// Local calendar date as YYYY-MM-DD, so a late-night visit isn't logged as tomorrow in UTC
+export const todayIsoDate = (now = new Date()) =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+export const createVisit = (details: Omit<Visit, 'id' | 'date'> & { date?: string } = {}): Visit => ({
+  id: `visit-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  date: details.date || todayIsoDate(),
+  ...details,
+});
+
+// A visit with nothing but a date, as created by the one-tap "Mark Visited"
+export const isBlankVisit = (visit: Visit) =>
+  !visit.note && !visit.companions?.length && visit.rating === undefined &&
+  visit.spend === undefined && visit.wouldReturn === undefined;
+
+// Newest first; ids break ties between visits on the same day
+export const sortVisits = (visits: Visit[] = []) =>
+  [...visits].sort((a, b) => b.date.localeCompare(a.date) || b.id.localeCompare(a.id));
+
+export const formatVisitDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const formatSpend = (amount: number) =>
+  `S$${amount % 1 === 0 ? amount : amount.toFixed(2)}`;
+
+// Tags are free text but compared case-insensitively; "#Date Night " and "date night" are the same tag
+export const normalizeTag = (tag: string) => tag.replace(/^#+/, '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const normalizeTags = (tags: string[]) =>
+  Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+
+export const parseCompanions = (text: string) =>
+  text.split(',').map(name => name.trim()).filter(Boolean);
+
+export interface LocalMatch {
+  location: Location;
+  matchedOn: string; // What the query hit, shown next to the result
+}
+
+// Every word of the query must appear in the name or the journal; descriptions are left
+// out so a generic word like "coffee" still falls through to a web search. "#word" only
+// matches tags.
+export const matchLocation = (location: Location, query: string): LocalMatch | null => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+
+  const fields: [string, string][] = [
+    ['name', location.name],
+    ['tag', (location.tags || []).join(' ')],
+    ['notes', location.notes || ''],
+    ['visit', (location.visits || []).map(v => [v.note, ...(v.companions || [])].join(' ')).join(' ')],
+  ];
+
+  let matchedOn = '';
+  for (const word of words) {
+    const isTag = word.startsWith('#');
+    const needle = normalizeTag(word);
+    if (!needle) continue;
+    const hit = isTag
+      ? (location.tags || []).some(tag => tag.includes(needle)) && fields[1]
+      : fields.find(([, text]) => text.toLowerCase().includes(needle));
+    if (!hit) return null;
+    // Report the most specific hit that isn't just the name
+    if (!matchedOn || matchedOn === 'name') matchedOn = hit[0];
+  }
+  return matchedOn ? { location, matchedOn } : null;
+};
+
+export const searchLocations = (locations: Location[], query: string, limit = 5): LocalMatch[] => {
+  const matches: LocalMatch[] = [];
+  for (const location of locations) {
+    const match = matchLocation(location, query);
+    if (match) matches.push(match);
+  }
+  // Name hits first, as those are most likely what was meant
+  matches.sort((a, b) => Number(b.matchedOn === 'name') - Number(a.matchedOn === 'name'));
+  return matches.slice(0, limit);
+};
@@ -0,0 +1,23 @@
+import { Category, PlaceType } from '../types';
+import { RatingFilter } from './ratings';
+
+export type SortMode = 'manual' | 'distance' | 'personal-rating' | 'external-rating';
+
+export const SORT_MODES: SortMode[] = ['manual', 'distance', 'personal-rating', 'external-rating'];
+
+// What the list drawer is filtered and sorted by. Lives in App so it can be kept in the URL.
+export interface ListFilters {
+  types: PlaceType[];
+  categories: Category[];
+  rating: RatingFilter;
+  sort: SortMode;
+  openNow: boolean; // Only places whose opening hours say they are open right now
+}
+
+export const DEFAULT_LIST_FILTERS: ListFilters = {
+  types: [],
+  categories: [],
+  rating: 'all',
+  sort: 'manual',
+  openNow: false,
+};
@@ -0,0 +1,20 @@
+export { getNetworkStatus, subscribeToNetwork, waitUntilOnline } from './network';
+export type { NetworkStatus } from './network';
+export { registerServiceWorker } from './serviceWorker';
+export {
+  AVERAGE_TILE_BYTES,
+  MAX_OFFLINE_ZOOM,
+  MAX_TILES_PER_AREA,
+  TILE_CACHE,
+  countTiles,
+  deleteOfflineArea,
+  downloadArea,
+  estimateAreaBytes,
+  formatBytes,
+  getStorageEstimate,
+  isTileCachingAvailable,
+  listOfflineAreas,
+  listTiles,
+  tileUrl,
+} from './tiles';
+export type { DownloadProgress, OfflineArea, Tile, TileBounds } from './tiles';
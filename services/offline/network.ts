@@ -0,0 +1,64 @@
+export interface NetworkStatus {
+  isOnline: boolean;
+  queued: number; // Requests waiting for the connection to come back
+}
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+let status: NetworkStatus = {
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  queued: 0,
+};
+const listeners = new Set<() => void>();
+let isListening = false;
+
+const update = (patch: Partial<NetworkStatus>) => {
+  status = { ...status, ...patch };
+  listeners.forEach(listener => listener());
+};
+
+const listen = () => {
+  if (isListening || typeof window === 'undefined') return;
+  isListening = true;
+  window.addEventListener('online', () => update({ isOnline: true }));
+  window.addEventListener('offline', () => update({ isOnline: false }));
+};
+
+// Snapshot identity only changes on updates, so it works with useSyncExternalStore
+export const getNetworkStatus = () => {
+  listen();
+  return status;
+};
+
+export const subscribeToNetwork = (listener: () => void) => {
+  listen();
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Resolves straight away when online; otherwise parks the caller (counted in `queued`)
+// until the browser reports a connection again. Aborting leaves the queue.
+export const waitUntilOnline = (signal?: AbortSignal): Promise<void> => {
+  listen();
+  if (signal?.aborted) return Promise.reject(abortError());
+  if (typeof navigator === 'undefined' || navigator.onLine) return Promise.resolve();
+
+  update({ queued: status.queued + 1 });
+  return new Promise<void>((resolve, reject) => {
+    const done = () => {
+      window.removeEventListener('online', onOnline);
+      signal?.removeEventListener('abort', onAbort);
+      update({ queued: status.queued - 1 });
+    };
+    const onOnline = () => {
+      done();
+      resolve();
+    };
+    const onAbort = () => {
+      done();
+      reject(abortError());
+    };
+    window.addEventListener('online', onOnline);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
@@ -0,0 +1,10 @@
+// Registers public/sw.js, which caches the app shell and map tiles. Registration
+// failing (private mode, file://, old browsers) just means no offline support.
+export const registerServiceWorker = () => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator) || !window.isSecureContext) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.warn('Service worker registration failed', error);
+    });
+  });
+};
@@ -0,0 +1,183 @@
+import { Bounds } from '../../types';
+import { DARK_MAP_URL } from '../../constants';
+import { STORES, idbDelete, idbGetAll, idbPut, isIndexedDbAvailable } from '../storage/idb';
+
+// Shared with public/sw.js, which answers tile requests from these caches
+export const TILE_CACHE = 'hidden-gems-tiles-v1';
+
+// OSM's tile policy discourages bulk downloads, so areas stay neighbourhood sized
+export const MAX_TILES_PER_AREA = 3000;
+export const MAX_OFFLINE_ZOOM = 17;
+// Two connections at most, as the tile policy asks
+const DOWNLOAD_CONCURRENCY = 2;
+// A typical OSM tile over central Singapore; only used for the estimate shown up front
+export const AVERAGE_TILE_BYTES = 15 * 1024;
+
+export type TileBounds = Bounds;
+
+export interface Tile {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface OfflineArea {
+  id: string;
+  name: string;
+  bounds: TileBounds;
+  minZoom: number;
+  maxZoom: number;
+  tileCount: number;
+  bytes: number; // Measured once downloaded
+  savedAt: string; // ISO 8601
+}
+
+export interface DownloadProgress {
+  done: number;
+  total: number;
+  failed: number;
+  bytes: number;
+}
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const tileUrl = ({ z, x, y }: Tile) =>
+  DARK_MAP_URL.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+
+const lngToTileX = (lng: number, z: number) => Math.floor(((lng + 180) / 360) * 2 ** z);
+
+const latToTileY = (lat: number, z: number) => {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z);
+};
+
+const tileRange = (bounds: TileBounds, z: number) => {
+  const max = 2 ** z - 1;
+  const clamp = (n: number) => Math.min(max, Math.max(0, n));
+  return {
+    minX: clamp(lngToTileX(bounds.west, z)),
+    maxX: clamp(lngToTileX(bounds.east, z)),
+    // Tile rows count down from the north
+    minY: clamp(latToTileY(bounds.north, z)),
+    maxY: clamp(latToTileY(bounds.south, z)),
+  };
+};
+
+export const countTiles = (bounds: TileBounds, minZoom: number, maxZoom: number) => {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    count += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return count;
+};
+
+export const listTiles = (bounds: TileBounds, minZoom: number, maxZoom: number): Tile[] => {
+  const tiles: Tile[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+};
+
+export const estimateAreaBytes = (tileCount: number) => tileCount * AVERAGE_TILE_BYTES;
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
+};
+
+export const isTileCachingAvailable = () => typeof caches !== 'undefined';
+
+// Free space the browser will give this origin, when it says
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+};
+
+// Fetches every tile of the area into the tile cache (skipping ones already there) and
+// remembers the area so it can be listed and removed later. Failed tiles are counted,
+// not fatal: the map simply shows a gap there offline.
+export const downloadArea = async (
+  area: Pick<OfflineArea, 'name' | 'bounds' | 'minZoom' | 'maxZoom'>,
+  onProgress?: (progress: DownloadProgress) => void,
+  signal?: AbortSignal
+): Promise<OfflineArea> => {
+  if (!isTileCachingAvailable()) throw new Error('This browser cannot store map tiles for offline use');
+  const tiles = listTiles(area.bounds, area.minZoom, area.maxZoom);
+  if (tiles.length > MAX_TILES_PER_AREA) {
+    throw new Error(`That area needs ${tiles.length} tiles; zoom in or lower the detail to stay under ${MAX_TILES_PER_AREA}`);
+  }
+
+  // Ask the browser not to evict us under storage pressure; it may say no
+  navigator.storage?.persist?.().catch(() => {});
+
+  const cache = await caches.open(TILE_CACHE);
+  const progress: DownloadProgress = { done: 0, total: tiles.length, failed: 0, bytes: 0 };
+  onProgress?.({ ...progress });
+
+  let next = 0;
+  const worker = async () => {
+    while (next < tiles.length) {
+      if (signal?.aborted) throw abortError();
+      const url = tileUrl(tiles[next++]);
+      try {
+        let response = await cache.match(url);
+        if (!response) {
+          const fetched = await fetch(url, { mode: 'cors', signal });
+          if (!fetched.ok) throw new Error(`Tile error: ${fetched.status}`);
+          await cache.put(url, fetched.clone());
+          response = fetched;
+        }
+        progress.bytes += (await response.blob()).size;
+      } catch (error: any) {
+        if (error?.name === 'AbortError') throw error;
+        progress.failed++;
+      }
+      progress.done++;
+      onProgress?.({ ...progress });
+    }
+  };
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+
+  const saved: OfflineArea = {
+    ...area,
+    id: `area-${Date.now()}`,
+    tileCount: tiles.length - progress.failed,
+    bytes: progress.bytes,
+    savedAt: new Date().toISOString(),
+  };
+  if (isIndexedDbAvailable()) await idbPut(STORES.offlineAreas, saved.id, saved);
+  return saved;
+};
+
+export const listOfflineAreas = async (): Promise<OfflineArea[]> => {
+  if (!isIndexedDbAvailable()) return [];
+  const entries = await idbGetAll<OfflineArea>(STORES.offlineAreas);
+  return entries.map(e => e.value).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+// Drops the area and any of its tiles that no other saved area still covers
+export const deleteOfflineArea = async (id: string) => {
+  const areas = await listOfflineAreas();
+  const area = areas.find(a => a.id === id);
+  if (!area) return;
+
+  if (isTileCachingAvailable()) {
+    const kept = new Set(
+      areas.filter(a => a.id !== id).flatMap(a => listTiles(a.bounds, a.minZoom, a.maxZoom).map(tileUrl))
+    );
+    const cache = await caches.open(TILE_CACHE);
+    await Promise.all(
+      listTiles(area.bounds, area.minZoom, area.maxZoom)
+        .map(tileUrl)
+        .filter(url => !kept.has(url))
+        .map(url => cache.delete(url))
+    );
+  }
+  await idbDelete(STORES.offlineAreas, id);
+};
@@ -0,0 +1,222 @@
+// Evaluates OpenStreetMap `opening_hours` values (https://wiki.openstreetmap.org/wiki/Key:opening_hours).
+// Covers what cafés and restaurants actually use: weekday ranges, several time spans,
+// spans past midnight, "off" and 24/7. Anything else (months, sunrise, comments)
+// parses to null, which the UI shows as "hours unknown" rather than guessing.
+// Times are read in the device's time zone, which is Singapore time for anyone using this on the ground.
+
+const DAY_CODES = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+const HOLIDAY_CODES = ['PH', 'SH'];
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+
+// How many days ahead to look for the next opening or closing
+const HORIZON_DAYS = 7;
+// "Closes in 40 min" below this, "closes at 5:30 pm" above
+export const SOON_MINUTES = 60;
+
+interface Span {
+  start: number; // Minutes after the day's midnight
+  end: number; // May pass 24:00 for spans that run past midnight
+}
+
+// Open spans for each weekday, Monday first
+export type WeekSchedule = Span[][];
+
+interface Rule {
+  days: number[];
+  spans: Span[];
+  additional: boolean; // "Mo-Fr 08:00-12:00, Sa 10:00-14:00": adds to earlier rules instead of replacing
+  holidaysOnly: boolean;
+}
+
+const DAY = `(?:${[...DAY_CODES, ...HOLIDAY_CODES].join('|')})`;
+const DAY_RANGE = `${DAY}(?:\\s*-\\s*${DAY})?`;
+const SELECTOR_RE = new RegExp(`^${DAY_RANGE}(?:\\s*,\\s*${DAY_RANGE})*(?![a-z])`, 'i');
+const SPAN_RE = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})/;
+const OFF_RE = /^(off|closed)\b/i;
+
+const dayIndex = (code: string) => DAY_CODES.findIndex(d => d.toLowerCase() === code.toLowerCase());
+
+// "Mo-Fr,Su" → [0, 1, 2, 3, 4, 6]; ranges may wrap ("Fr-Mo"). Holiday codes are dropped,
+// since we do not know the holiday calendar.
+const parseDays = (selector: string) => {
+  const days = new Set<number>();
+  let holidaysOnly = true;
+  selector.split(',').forEach(part => {
+    const [from, to] = part.split('-').map(s => s.trim());
+    if (HOLIDAY_CODES.includes(from.toUpperCase())) return;
+    holidaysOnly = false;
+    const start = dayIndex(from);
+    const end = to ? dayIndex(to) : start;
+    for (let i = start; ; i = (i + 1) % 7) {
+      days.add(i);
+      if (i === end) break;
+    }
+  });
+  return { days: Array.from(days), holidaysOnly };
+};
+
+const toSpan = (match: RegExpMatchArray): Span | null => {
+  const [, h1, m1, h2, m2] = match.map(Number);
+  if (h1 > 24 || h2 > 48 || m1 > 59 || m2 > 59) return null;
+  const start = h1 * 60 + m1;
+  let end = h2 * 60 + m2;
+  if (end <= start) end += MINUTES_PER_DAY; // "18:00-02:00" closes the next morning
+  return { start, end };
+};
+
+// One ";"-separated part, which may hold several ","-joined rules
+const parseRuleGroup = (text: string): Rule[] | null => {
+  const rules: Rule[] = [];
+  let rest = text.trim();
+  let additional = false;
+
+  while (rest) {
+    let days = [0, 1, 2, 3, 4, 5, 6];
+    let holidaysOnly = false;
+    const selector = rest.match(SELECTOR_RE);
+    if (selector) {
+      ({ days, holidaysOnly } = parseDays(selector[0]));
+      rest = rest.slice(selector[0].length).trim().replace(/^:\s*/, '');
+    }
+
+    const spans: Span[] = [];
+    if (OFF_RE.test(rest)) {
+      rest = rest.replace(OFF_RE, '').trim();
+    } else {
+      let match: RegExpMatchArray | null;
+      while ((match = rest.match(SPAN_RE))) {
+        const span = toSpan(match);
+        if (!span) return null;
+        spans.push(span);
+        rest = rest.slice(match[0].length).trim();
+        // A comma followed by another time continues this rule; followed by days, it starts a new one
+        if (rest.startsWith(',') && SPAN_RE.test(rest.slice(1).trim())) rest = rest.slice(1).trim();
+        else break;
+      }
+      if (spans.length === 0) {
+        // A bare day selector ("Sa-Su") means open all day
+        if (!selector || (rest && !rest.startsWith(','))) return null;
+        spans.push({ start: 0, end: MINUTES_PER_DAY });
+      }
+    }
+
+    rules.push({ days, spans, additional, holidaysOnly });
+    if (!rest) break;
+    if (!rest.startsWith(',')) return null;
+    rest = rest.slice(1).trim();
+    additional = true;
+  }
+  return rules;
+};
+
+export const parseOpeningHours = (text: string | undefined): WeekSchedule | null => {
+  const trimmed = text?.trim();
+  if (!trimmed) return null;
+  const week: WeekSchedule = DAY_CODES.map(() => []);
+  if (trimmed === '24/7') return week.map(() => [{ start: 0, end: MINUTES_PER_DAY }]);
+
+  for (const group of trimmed.split(/;|\|\|/).map(s => s.trim()).filter(Boolean)) {
+    const rules = parseRuleGroup(group);
+    if (!rules) return null;
+    for (const rule of rules) {
+      if (rule.holidaysOnly) continue;
+      rule.days.forEach(day => {
+        // Later rules override earlier ones for the days they name
+        week[day] = rule.additional ? [...week[day], ...rule.spans] : [...rule.spans];
+      });
+    }
+  }
+  return week;
+};
+
+export interface OpeningState {
+  isOpen: boolean;
+  changesAt: Date | null; // Next opening or closing; null when it never changes within a week
+}
+
+// Open intervals from yesterday (for spans running past midnight) to a week ahead, merged
+// so "Mo-Su 00:00-24:00" reads as one long opening
+const openIntervals = (schedule: WeekSchedule, now: Date) => {
+  const intervals: { start: number; end: number }[] = [];
+  for (let offset = -1; offset <= HORIZON_DAYS; offset++) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    const weekday = (day.getDay() + 6) % 7;
+    schedule[weekday].forEach(span => {
+      intervals.push({ start: day.getTime() + span.start * MINUTE_MS, end: day.getTime() + span.end * MINUTE_MS });
+    });
+  }
+  intervals.sort((a, b) => a.start - b.start);
+  return intervals.reduce<{ start: number; end: number }[]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) last.end = Math.max(last.end, interval.end);
+    else merged.push({ ...interval });
+    return merged;
+  }, []);
+};
+
+export const getOpeningState = (schedule: WeekSchedule, now = new Date()): OpeningState => {
+  const intervals = openIntervals(schedule, now);
+  const time = now.getTime();
+  const horizonEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate() + HORIZON_DAYS).getTime();
+
+  const current = intervals.find(i => i.start <= time && time < i.end);
+  if (current) return { isOpen: true, changesAt: current.end >= horizonEnd ? null : new Date(current.end) };
+
+  const next = intervals.find(i => i.start > time);
+  return { isOpen: false, changesAt: next ? new Date(next.start) : null };
+};
+
+// Open/closed for a raw opening_hours value; null when there is none or we cannot read it
+export const evaluateOpeningHours = (text: string | undefined, now = new Date()): OpeningState | null => {
+  const schedule = parseOpeningHours(text);
+  return schedule ? getOpeningState(schedule, now) : null;
+};
+
+export const isOpenAt = (text: string | undefined, now = new Date()) => evaluateOpeningHours(text, now)?.isOpen ?? null;
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString('en-SG', { hour: 'numeric', minute: '2-digit' }).replace(/\s/g, ' ').toLowerCase();
+
+// "at 5:30 pm", "tomorrow 8:00 am" or "Mon 8:00 am"
+const formatWhen = (date: Date, now: Date) => {
+  const days = Math.round(
+    (new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() -
+      new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()) / (24 * 60 * MINUTE_MS)
+  );
+  if (days === 0) return `at ${formatClock(date)}`;
+  if (days === 1) return `tomorrow ${formatClock(date)}`;
+  return `${date.toLocaleDateString('en-SG', { weekday: 'short' })} ${formatClock(date)}`;
+};
+
+export const minutesUntil = (date: Date, now = new Date()) => Math.max(0, Math.ceil((date.getTime() - now.getTime()) / MINUTE_MS));
+
+// "Open now · closes in 40 min", "Closed · opens tomorrow 8:00 am", "Open 24 hours"
+export const describeOpeningState = (state: OpeningState, now = new Date()) => {
+  if (!state.changesAt) return state.isOpen ? 'Open 24 hours' : 'Closed this week';
+  const minutes = minutesUntil(state.changesAt, now);
+  const when = minutes <= SOON_MINUTES ? `in ${minutes} min` : formatWhen(state.changesAt, now);
+  return state.isOpen ? `Open now · closes ${when}` : `Closed · opens ${when}`;
+};
+
+// Short weekly listing for the card, e.g. ["Mon–Fri 8:00 am–3:00 pm", "Sat–Sun closed"]
+export const summarizeSchedule = (schedule: WeekSchedule): string[] => {
+  const labels = DAY_CODES.map((_, i) => new Date(2024, 0, 1 + i).toLocaleDateString('en-SG', { weekday: 'short' }));
+  const describeDay = (spans: Span[]) => {
+    if (spans.length === 0) return 'closed';
+    if (spans.length === 1 && spans[0].start === 0 && spans[0].end >= MINUTES_PER_DAY) return 'open 24 hours';
+    const clock = (minutes: number) => formatClock(new Date(2024, 0, 1, 0, minutes));
+    return spans.map(s => `${clock(s.start)}–${clock(s.end)}`).join(', ');
+  };
+
+  const lines: string[] = [];
+  let startDay = 0;
+  for (let i = 1; i <= 7; i++) {
+    const text = describeDay(schedule[startDay]);
+    if (i < 7 && describeDay(schedule[i]) === text) continue;
+    const days = startDay === i - 1 ? labels[startDay] : `${labels[startDay]}–${labels[i - 1]}`;
+    lines.push(`${days} ${text}`);
+    startDay = i;
+  }
+  return lines;
+};
@@ -0,0 +1,136 @@
+import { Bounds, Coordinate, Location, PlaceType } from '../../types';
+import { haversineDistance, isSamePlace } from '../../utils/geo';
+import { createRateLimiter } from '../geocoding/rateLimiter';
+import { waitUntilOnline } from '../offline/network';
+import { imageFromOsmTags } from '../photos/types';
+import { detailsFromOsmTags } from '../placeDetails';
+import { rescoreLocation, touristTagsFromOsm } from '../gemScore';
+import { buildAreaQuery, matchFeature } from './query';
+
+export { OSM_FEATURES, buildAreaQuery, matchFeature } from './query';
+export type { OsmFeature } from './query';
+
+export const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+
+// Elements asked for per query; a busy downtown view easily holds more, in which case
+// the area is split into quarters that later pages search one by one
+export const AREA_SEARCH_LIMIT = 300;
+// Areas narrower than this (about 450 m) are not split further; one that still holds
+// more than a query returns is reported as truncated, i.e. zoom in
+const MIN_SPLIT_SPAN = 0.004;
+// Suggestions put on the map at a time, so a dense area does not bury the saved pins
+export const AREA_SEARCH_PAGE_SIZE = 25;
+// The public Overpass instance asks for modest use; area searches are spaced out too
+const OVERPASS_MIN_INTERVAL_MS = 1000;
+
+export class OverpassError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'OverpassError';
+  }
+}
+
+export interface AreaSearchOptions {
+  types?: PlaceType[]; // Empty or missing: every kind we know
+  exclude?: Location[]; // Places already on the list, dropped from the results
+  baseUrl?: string;
+}
+
+export interface AreaSearchResult {
+  places: Location[]; // Nearest to the middle of the area first
+  moreAreas: Bounds[]; // Parts the query could not cover in full, for the next pages
+  truncated: boolean; // Cut short with nothing left to split
+}
+
+const schedule = createRateLimiter(OVERPASS_MIN_INTERVAL_MS);
+
+const isRooftop = (tags: Record<string, string>) =>
+  tags.rooftop === 'yes' || tags.location === 'roof' || tags.location === 'rooftop';
+
+// "Rooftop bar · cocktails", "Hawker centre" or "Restaurant · thai"
+const describe = (label: string, tags: Record<string, string>) => {
+  const kind = isRooftop(tags) ? `Rooftop ${label.toLowerCase()}` : label;
+  const cuisine = tags.cuisine?.split(';').map(c => c.trim().replace(/_/g, ' ')).filter(Boolean).slice(0, 2).join(', ');
+  return cuisine ? `${kind} · ${cuisine}` : kind;
+};
+
+const toLocation = (el: any): Location | null => {
+  const tags: Record<string, string> = el.tags || {};
+  const feature = matchFeature(tags);
+  // Ways and relations have no position of their own; `out center` adds one
+  const lat = el.lat ?? el.center?.lat;
+  const lng = el.lon ?? el.center?.lon;
+  if (!feature || !tags.name || !Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  const place: Location = {
+    id: `sugg-${el.type}-${el.id}`,
+    name: tags.name,
+    coordinate: { lat, lng },
+    description: `${describe(feature.label, tags)}. Found nearby; add it to your list to keep it.`,
+    category: 'Hidden Gem', // Until scored below
+    placeType: feature.placeType,
+    image: imageFromOsmTags(tags) || '',
+    visited: false,
+    ...detailsFromOsmTags(tags),
+  };
+  // The tags are only at hand now, so they go into the score's signals for later rescoring
+  return rescoreLocation(place, { touristTags: touristTagsFromOsm(tags) });
+};
+
+// The four quarters of an area
+export const splitBounds = ({ north, south, east, west }: Bounds): Bounds[] => {
+  const midLat = (north + south) / 2;
+  const midLng = (east + west) / 2;
+  return [
+    { north, south: midLat, east: midLng, west },
+    { north, south: midLat, east, west: midLng },
+    { north: midLat, south, east: midLng, west },
+    { north: midLat, south, east, west: midLng },
+  ];
+};
+
+// Named places of the chosen kinds inside the bounds, with duplicates merged: the
+// same café is often mapped both as a building and as a node at its door. When the
+// area holds more than one query returns, its quarters come back as moreAreas.
+export const searchAreaPlaces = async (
+  bounds: Bounds,
+  { types = [], exclude = [], baseUrl = OVERPASS_URL }: AreaSearchOptions = {},
+  signal?: AbortSignal
+): Promise<AreaSearchResult> => {
+  const query = buildAreaQuery(bounds, types, AREA_SEARCH_LIMIT);
+  if (!query) return { places: [], moreAreas: [], truncated: false };
+
+  await waitUntilOnline(signal);
+  const data = await schedule(async () => {
+    const res = await fetch(baseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: `data=${encodeURIComponent(query)}`,
+      signal,
+    });
+    if (!res.ok) throw new OverpassError(`Overpass error: ${res.status}`, res.status);
+    return res.json();
+  }, signal);
+
+  const elements: any[] = Array.isArray(data?.elements) ? data.elements : [];
+  const center: Coordinate = { lat: (bounds.north + bounds.south) / 2, lng: (bounds.east + bounds.west) / 2 };
+  const places: Location[] = [];
+  elements
+    .map(toLocation)
+    .filter((place): place is Location => place !== null)
+    // Nodes first: they usually carry the shop's own tags, the outline only the building's
+    .sort((a, b) => Number(b.id.startsWith('sugg-node')) - Number(a.id.startsWith('sugg-node')))
+    .forEach(place => {
+      if (exclude.some(saved => isSamePlace(saved, place))) return;
+      if (places.some(found => isSamePlace(found, place))) return;
+      places.push(place);
+    });
+
+  places.sort((a, b) => haversineDistance(center, a.coordinate) - haversineDistance(center, b.coordinate));
+  const hitLimit = elements.length >= AREA_SEARCH_LIMIT;
+  const canSplit = bounds.north - bounds.south > MIN_SPLIT_SPAN && bounds.east - bounds.west > MIN_SPLIT_SPAN;
+  return {
+    places,
+    moreAreas: hitLimit && canSplit ? splitBounds(bounds) : [],
+    truncated: hitLimit && !canSplit,
+  };
+};
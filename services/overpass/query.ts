@@ -0,0 +1,70 @@
+import { Bounds, PlaceType } from '../../types';
+
+// One OSM key and the values of it we treat as a kind of place worth suggesting
+export interface OsmFeature {
+  key: string;
+  placeType: PlaceType;
+  labels: Record<string, string>; // Tag value → how we describe it on the card
+}
+
+// What "Search this area" looks for, grouped by the list's place types
+export const OSM_FEATURES: OsmFeature[] = [
+  {
+    key: 'amenity',
+    placeType: 'Restaurant',
+    labels: { restaurant: 'Restaurant', food_court: 'Hawker centre', fast_food: 'Quick eats', marketplace: 'Market' },
+  },
+  { key: 'amenity', placeType: 'Cafe', labels: { cafe: 'Café', ice_cream: 'Dessert bar' } },
+  { key: 'shop', placeType: 'Cafe', labels: { bakery: 'Bakery', coffee: 'Coffee roaster', tea: 'Tea house' } },
+  { key: 'amenity', placeType: 'Bar', labels: { bar: 'Bar', pub: 'Pub', biergarten: 'Beer garden', nightclub: 'Club' } },
+  {
+    key: 'tourism',
+    placeType: 'Activity',
+    labels: {
+      attraction: 'Attraction',
+      museum: 'Museum',
+      gallery: 'Gallery',
+      viewpoint: 'Viewpoint',
+      zoo: 'Zoo',
+      aquarium: 'Aquarium',
+      theme_park: 'Theme park',
+    },
+  },
+  { key: 'leisure', placeType: 'Activity', labels: { park: 'Park', garden: 'Garden', nature_reserve: 'Nature reserve' } },
+  { key: 'amenity', placeType: 'Activity', labels: { arts_centre: 'Arts centre', theatre: 'Theatre' } },
+];
+
+// The feature an element matched, checking the most specific kinds first
+export const matchFeature = (tags: Record<string, string>): { placeType: PlaceType; label: string } | null => {
+  for (const feature of OSM_FEATURES) {
+    const label = feature.labels[tags[feature.key]];
+    if (label) return { placeType: feature.placeType, label };
+  }
+  return null;
+};
+
+const escapeValue = (value: string) => value.replace(/[.*+?^${}()|[\]\\"]/g, '\\$&');
+
+// Overpass QL for named nodes, ways and relations of the chosen place types (all when
+// none are chosen). Ways and relations come back with a centre point. Returns null
+// when the chosen types have nothing to look for, e.g. only "Other".
+export const buildAreaQuery = (bounds: Bounds, types: PlaceType[], limit: number): string | null => {
+  const features = OSM_FEATURES.filter(f => types.length === 0 || types.includes(f.placeType));
+  if (features.length === 0) return null;
+
+  // One statement per key, so "amenity" is matched once for all of its values
+  const valuesByKey = new Map<string, string[]>();
+  features.forEach(f => valuesByKey.set(f.key, [...(valuesByKey.get(f.key) || []), ...Object.keys(f.labels)]));
+  const statements = Array.from(valuesByKey, ([key, values]) =>
+    `nwr["name"]["${key}"~"^(${values.map(escapeValue).join('|')})$"];`
+  );
+
+  const { south, west, north, east } = bounds;
+  return `
+    [out:json][timeout:25][bbox:${south},${west},${north},${east}];
+    (
+      ${statements.join('\n      ')}
+    );
+    out center tags ${limit};
+  `;
+};
@@ -0,0 +1,81 @@
+import { Location } from '../../types';
+import { STORES } from '../storage/idb';
+import { TtlCache, createTtlCache } from '../storage/ttlCache';
+import { insightsKey } from '../insights';
+import { PhotoProvider, RemotePhoto } from './types';
+import { createOsmPhotoProvider } from './osm';
+import { createWikimediaProvider } from './wikimedia';
+
+export * from './types';
+export { createOsmPhotoProvider } from './osm';
+export { createWikimediaProvider } from './wikimedia';
+export { loadPhotoUpload, prunePhotoUploads, resizeImage, savePhotoUpload } from './uploads';
+
+// New photos of a place turn up slowly; two weeks keeps the card from asking every visit
+export const PHOTO_LOOKUP_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+export interface PhotoService {
+  findPhotos(location: Location, signal?: AbortSignal): Promise<RemotePhoto[]>;
+}
+
+const isAbort = (error: any) => error?.name === 'AbortError';
+
+// Asks every provider, in order, and merges their answers. The first provider is the
+// most specific (photos tagged on the place itself), so its photos lead.
+export const createPhotoService = (
+  providers: PhotoProvider[],
+  cache: TtlCache = createTtlCache(STORES.photoLookups, PHOTO_LOOKUP_TTL_MS)
+): PhotoService => ({
+  async findPhotos(location, signal) {
+    const placeKey = insightsKey(location);
+    const answers = await Promise.all(providers.map(async provider => {
+      const key = `${provider.name}:${placeKey}`;
+      const cached = await cache.get<RemotePhoto[]>(key);
+      if (cached) return cached;
+      try {
+        const photos = await provider.findPhotos(location, signal);
+        await cache.set(key, photos);
+        return photos;
+      } catch (error) {
+        if (isAbort(error)) throw error;
+        console.warn(`Photo lookup via ${provider.name} failed`, error);
+        return [];
+      }
+    }));
+
+    const seen = new Set<string>();
+    return answers.flat().filter(photo => {
+      if (seen.has(photo.url)) return false;
+      seen.add(photo.url);
+      return true;
+    });
+  },
+});
+
+let service = createPhotoService([createOsmPhotoProvider(), createWikimediaProvider()]);
+
+// Swap providers (e.g. for an offline demo or a paid image API)
+export const setPhotoProviders = (providers: PhotoProvider[], cache?: TtlCache) => {
+  service = createPhotoService(providers, cache);
+};
+
+export const findPlacePhotos = (location: Location, signal?: AbortSignal) => service.findPhotos(location, signal);
+
+const PLACEHOLDER_EMOJI: Record<Location['placeType'], string> = {
+  Restaurant: '🍜',
+  Bar: '🍸',
+  Cafe: '☕',
+  Activity: '🎟️',
+  Other: '📍',
+};
+
+// Drawn locally when a place has no photo at all, tinted like its category
+export const placeholderImage = (location: Pick<Location, 'category' | 'placeType'>) => {
+  const [from, to] = location.category === 'Hidden Gem' ? ['#064e3b', '#18181b'] : ['#4c0519', '#18181b'];
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="600" height="400" viewBox="0 0 600 400">
+    <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs>
+    <rect width="600" height="400" fill="url(#g)"/>
+    <text x="300" y="190" font-size="96" text-anchor="middle" dominant-baseline="middle" opacity="0.6">${PLACEHOLDER_EMOJI[location.placeType] || '📍'}</text>
+  </svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
@@ -0,0 +1,55 @@
+import { Location } from '../../types';
+import { normalizeName } from '../../utils/geo';
+import { createRateLimiter } from '../geocoding/rateLimiter';
+import { OVERPASS_URL } from '../overpass';
+import { PhotoProvider, PhotoProviderError, RemotePhoto, imageFromOsmTags } from './types';
+
+// The public Overpass instance asks for modest use; one lookup at a time is plenty here
+const OVERPASS_MIN_INTERVAL_MS = 1000;
+
+interface OsmPhotoOptions {
+  baseUrl?: string;
+  radiusM?: number;
+}
+
+// The photo mappers attached to the place itself in OpenStreetMap: only features with
+// the same name within a short radius count, so a neighbour's photo is never shown
+export const createOsmPhotoProvider = ({ baseUrl = OVERPASS_URL, radiusM = 60 }: OsmPhotoOptions = {}): PhotoProvider => {
+  const schedule = createRateLimiter(OVERPASS_MIN_INTERVAL_MS);
+
+  return {
+    name: 'osm',
+    findPhotos: (location: Location, signal?: AbortSignal) =>
+      schedule(async () => {
+        const { lat, lng } = location.coordinate;
+        const query = `
+          [out:json][timeout:10];
+          nwr(around:${radiusM},${lat},${lng})["name"][~"^(image|wikimedia_commons)$"~"."];
+          out tags 20;
+        `;
+        const res = await fetch(baseUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          body: `data=${encodeURIComponent(query)}`,
+          signal,
+        });
+        if (!res.ok) throw new PhotoProviderError(`Overpass error: ${res.status}`, 'osm', res.status);
+        const data = await res.json();
+
+        const target = normalizeName(location.name);
+        return (data?.elements || [])
+          .filter((el: any) => normalizeName(el.tags?.name || '') === target)
+          .flatMap((el: any): RemotePhoto[] => {
+            const url = imageFromOsmTags(el.tags);
+            if (!url) return [];
+            return [{
+              id: `osm:${el.type}/${el.id}`,
+              url,
+              thumbUrl: imageFromOsmTags(el.tags, 240) || url,
+              pageUrl: `https://www.openstreetmap.org/${el.type}/${el.id}`,
+              provider: 'osm',
+            }];
+          });
+      }, signal),
+  };
+};
@@ -0,0 +1,43 @@
+import { Location } from '../../types';
+
+// A photo found online for a place. Commons images need their author and licence shown.
+export interface RemotePhoto {
+  id: string; // Provider-scoped
+  url: string; // Sized for the card's hero image
+  thumbUrl: string;
+  attribution?: string; // e.g. "Jane Tan, CC BY-SA 4.0"
+  pageUrl?: string; // Where the photo is described
+  provider: string;
+}
+
+export interface PhotoProvider {
+  readonly name: string;
+  findPhotos(location: Location, signal?: AbortSignal): Promise<RemotePhoto[]>;
+}
+
+export class PhotoProviderError extends Error {
+  constructor(message: string, public readonly provider: string, public readonly status?: number) {
+    super(message);
+    this.name = 'PhotoProviderError';
+  }
+}
+
+// Places created before real photos were picked up random stock art from picsum
+export const isPlaceholderImage = (url: string | undefined) => !url || /^https?:\/\/([^/]+\.)?picsum\.photos\//i.test(url);
+
+export const commonsFileUrl = (fileName: string, width: number) =>
+  `https://commons.wikimedia.org/wiki/Special:FilePath/${encodeURIComponent(fileName.replace(/^File:/i, ''))}?width=${width}`;
+
+// Reads OSM's `wikimedia_commons` ("File:Foo.jpg") and `image` (a URL) tags into a photo
+// URL we can display; other `image` values (web pages, Commons categories) are skipped
+export const imageFromOsmTags = (tags: Record<string, string> | undefined, width = 800): string | undefined => {
+  if (!tags) return undefined;
+  const commons = tags.wikimedia_commons;
+  if (commons && /^File:/i.test(commons)) return commonsFileUrl(commons, width);
+
+  const image = tags.image;
+  if (!image || !/^https?:\/\//i.test(image)) return undefined;
+  const commonsPage = image.match(/commons\.wikimedia\.org\/wiki\/(File:[^?#]+)/i);
+  if (commonsPage) return commonsFileUrl(decodeURIComponent(commonsPage[1]), width);
+  return /\.(jpe?g|png|webp|gif)(\?.*)?$/i.test(image) ? image : undefined;
+};
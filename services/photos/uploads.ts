@@ -0,0 +1,80 @@
+import { Location, PlacePhoto } from '../../types';
+import { STORES, idbDelete, idbGet, idbGetAllKeys, idbPut, isIndexedDbAvailable } from '../storage/idb';
+
+// Phone photos are often 12 MP; this keeps the card sharp while sparing storage quota
+export const FULL_MAX_SIZE = 1600;
+export const THUMB_MAX_SIZE = 320;
+
+interface StoredPhoto {
+  full: Blob;
+  thumb: Blob;
+}
+
+const loadBitmap = async (file: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    // Applies the EXIF orientation, so portrait photos aren't stored sideways
+    return createImageBitmap(file, { imageOrientation: 'from-image' } as ImageBitmapOptions);
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const encode = (canvas: HTMLCanvasElement, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode image'))), 'image/jpeg', quality)
+  );
+
+// Scales down (never up) to fit `maxSize` on the longer side and re-encodes as JPEG
+export const resizeImage = async (file: Blob, maxSize: number, quality = 0.85) => {
+  const source = await loadBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(source.width * scale);
+  canvas.height = Math.round(source.height * scale);
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  if ('close' in source) source.close();
+  return { blob: await encode(canvas, quality), width: canvas.width, height: canvas.height };
+};
+
+// Stores an upload and its thumbnail; the returned record is what goes on the Location
+export const savePhotoUpload = async (file: Blob): Promise<PlacePhoto> => {
+  if (!isIndexedDbAvailable()) throw new Error('Photos need IndexedDB, which this browser does not provide');
+  const [full, thumb] = await Promise.all([
+    resizeImage(file, FULL_MAX_SIZE),
+    resizeImage(file, THUMB_MAX_SIZE, 0.75),
+  ]);
+  const photo: PlacePhoto = {
+    id: `photo-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    addedAt: new Date().toISOString(),
+    width: full.width,
+    height: full.height,
+  };
+  await idbPut(STORES.photos, photo.id, { full: full.blob, thumb: thumb.blob } satisfies StoredPhoto);
+  return photo;
+};
+
+export const loadPhotoUpload = async (id: string): Promise<StoredPhoto | null> => {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    return (await idbGet<StoredPhoto>(STORES.photos, id)) || null;
+  } catch (error) {
+    console.warn('Could not read photo', error);
+    return null;
+  }
+};
+
+// Removing a photo (or its place) only drops the reference, so undo can bring it back.
+// Blobs nothing points at any more are cleared out on the next start.
+export const prunePhotoUploads = async (locations: Location[]) => {
+  if (!isIndexedDbAvailable()) return;
+  const referenced = new Set(locations.flatMap(l => (l.photos || []).map(p => p.id)));
+  const keys = await idbGetAllKeys(STORES.photos);
+  await Promise.all(keys.filter(key => !referenced.has(String(key))).map(key => idbDelete(STORES.photos, key)));
+};
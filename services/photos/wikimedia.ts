@@ -0,0 +1,69 @@
+import { Location } from '../../types';
+import { normalizeName } from '../../utils/geo';
+import { PhotoProvider, PhotoProviderError, RemotePhoto } from './types';
+
+export const COMMONS_API_URL = 'https://commons.wikimedia.org/w/api.php';
+
+interface WikimediaOptions {
+  radiusM?: number;
+  limit?: number;
+  width?: number;
+}
+
+const DISPLAYABLE_MIME = /^image\/(jpeg|png|webp)$/;
+
+// Commons metadata comes as HTML ("<a href=...>Jane</a>")
+const stripHtml = (html = '') => html.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+
+// Photos geotagged near the place, from the Commons file namespace. Files whose title
+// mentions the place come first; the rest keep Commons' nearest-first order.
+export const createWikimediaProvider = ({ radiusM = 150, limit = 6, width = 800 }: WikimediaOptions = {}): PhotoProvider => ({
+  name: 'wikimedia',
+  async findPhotos(location: Location, signal?: AbortSignal) {
+    const params = new URLSearchParams({
+      action: 'query',
+      format: 'json',
+      origin: '*',
+      generator: 'geosearch',
+      ggsnamespace: '6',
+      ggsprimary: 'all',
+      ggsradius: String(radiusM),
+      ggscoord: `${location.coordinate.lat}|${location.coordinate.lng}`,
+      ggslimit: String(limit * 3), // Some hits are maps, PDFs or SVGs
+      prop: 'imageinfo',
+      iiprop: 'url|mime|extmetadata',
+      iiurlwidth: String(width),
+      iiextmetadatafilter: 'Artist|LicenseShortName',
+    });
+    const res = await fetch(`${COMMONS_API_URL}?${params}`, { signal });
+    if (!res.ok) throw new PhotoProviderError(`Wikimedia Commons error: ${res.status}`, 'wikimedia', res.status);
+    const data = await res.json();
+
+    const pages: any[] = Object.values(data?.query?.pages || {});
+    const nameWords = normalizeName(location.name).split(' ').filter(w => w.length > 2);
+    const mentionsPlace = (title: string) => {
+      const normalized = normalizeName(title);
+      return nameWords.length > 0 && nameWords.every(w => normalized.includes(w));
+    };
+
+    return pages
+      .filter(page => DISPLAYABLE_MIME.test(page.imageinfo?.[0]?.mime || ''))
+      .sort((a, b) => Number(mentionsPlace(b.title)) - Number(mentionsPlace(a.title)) || (a.index ?? 0) - (b.index ?? 0))
+      .slice(0, limit)
+      .map((page): RemotePhoto => {
+        const info = page.imageinfo[0];
+        const meta = info.extmetadata || {};
+        const attribution = [stripHtml(meta.Artist?.value), meta.LicenseShortName?.value].filter(Boolean).join(', ');
+        const url = info.thumburl || info.url;
+        return {
+          id: `wikimedia:${page.pageid}`,
+          url,
+          // Commons serves any width by rewriting the size prefix of the thumbnail path
+          thumbUrl: url.replace(`/${width}px-`, '/240px-'),
+          attribution: attribution || undefined,
+          pageUrl: info.descriptionurl,
+          provider: 'wikimedia',
+        };
+      });
+  },
+});
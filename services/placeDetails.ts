@@ -0,0 +1,47 @@
+import { Location, PriceLevel } from '../types';
+
+export const PRICE_LEVELS: { level: PriceLevel; label: string; hint: string }[] = [
+  { level: 1, label: '$', hint: 'Under S$15 a head' },
+  { level: 2, label: '$$', hint: 'S$15–40 a head' },
+  { level: 3, label: '$$$', hint: 'S$40–100 a head' },
+  { level: 4, label: '$$$$', hint: 'Over S$100 a head' },
+];
+
+export const isPriceLevel = (value: unknown): value is PriceLevel =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 4;
+
+export const formatPriceLevel = (level: PriceLevel) => '$'.repeat(level);
+
+// Websites are often tagged or typed without a scheme ("www.example.sg")
+export const normalizeWebsite = (url: string) => {
+  const trimmed = url.trim();
+  if (!trimmed) return '';
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+// Host without "www.", for showing a link compactly
+export const websiteLabel = (url: string) => {
+  try {
+    return new URL(normalizeWebsite(url)).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// tel: links only want digits and a leading +
+export const phoneHref = (phone: string) => `tel:${phone.replace(/[^\d+]/g, '')}`;
+
+type PlaceDetails = Pick<Location, 'openingHours' | 'phone' | 'website'>;
+
+// Hours and contact details from OpenStreetMap tags. OSM has no agreed price tag, so
+// price level only comes from AI autofill or the user.
+export const detailsFromOsmTags = (tags: Record<string, string> | undefined): PlaceDetails => {
+  if (!tags) return {};
+  const phone = (tags.phone || tags['contact:phone'])?.split(';')[0].trim();
+  const website = tags.website || tags['contact:website'];
+  return {
+    ...(tags.opening_hours && { openingHours: tags.opening_hours.trim() }),
+    ...(phone && { phone }),
+    ...(website && { website: normalizeWebsite(website) }),
+  };
+};
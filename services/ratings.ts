@@ -0,0 +1,54 @@
+import { ExternalRating, Location } from '../types';
+
+// Review-site scores combined into one number. Sites with more reviews count for
+// more, but only logarithmically so one giant site doesn't drown out the rest.
+export const averageExternalScore = (ratings: ExternalRating[] | undefined): number | null => {
+  if (!ratings || ratings.length === 0) return null;
+  let total = 0;
+  let weights = 0;
+  ratings.forEach(r => {
+    const weight = Math.log10((r.reviewCount ?? 0) + 10);
+    total += r.score * weight;
+    weights += weight;
+  });
+  return total / weights;
+};
+
+export const externalScore = (location: Location) => averageExternalScore(location.externalRatings);
+
+export const personalStars = (location: Location) => location.rating?.stars ?? null;
+
+// "87", "1.2k", "15k"
+export const formatReviewCount = (count: number): string => {
+  if (count < 1000) return String(count);
+  const thousands = count / 1000;
+  return `${thousands < 10 ? thousands.toFixed(1).replace(/\.0$/, '') : Math.round(thousands)}k`;
+};
+
+// Unrated places sort last either way
+export const compareByRating = (score: (location: Location) => number | null) =>
+  (a: Location, b: Location) => (score(b) ?? -1) - (score(a) ?? -1);
+
+export type RatingFilter = 'all' | 'mine-4' | 'mine-3' | 'unrated' | 'web-4.5' | 'web-4';
+
+export const RATING_FILTERS: { value: RatingFilter; label: string }[] = [
+  { value: 'all', label: 'Any rating' },
+  { value: 'mine-4', label: 'My ★4+' },
+  { value: 'mine-3', label: 'My ★3+' },
+  { value: 'unrated', label: 'Not rated by me' },
+  { value: 'web-4.5', label: 'Web 4.5+' },
+  { value: 'web-4', label: 'Web 4.0+' },
+];
+
+export const matchesRatingFilter = (location: Location, filter: RatingFilter): boolean => {
+  const mine = personalStars(location);
+  const web = externalScore(location);
+  switch (filter) {
+    case 'mine-4': return mine !== null && mine >= 4;
+    case 'mine-3': return mine !== null && mine >= 3;
+    case 'unrated': return mine === null;
+    case 'web-4.5': return web !== null && web >= 4.5;
+    case 'web-4': return web !== null && web >= 4;
+    default: return true;
+  }
+};
@@ -0,0 +1,32 @@
+import { Coordinate } from '../../types';
+import { TravelMode } from './types';
+
+export interface ExternalMapLink {
+  label: string;
+  url: string;
+}
+
+const GOOGLE_MODES: Record<TravelMode, string> = { walking: 'walking', cycling: 'bicycling', driving: 'driving' };
+const APPLE_MODES: Record<TravelMode, string> = { walking: 'w', cycling: 'c', driving: 'd' };
+const OSM_ENGINES: Record<TravelMode, string> = { walking: 'fossgis_osrm_foot', cycling: 'fossgis_osrm_bike', driving: 'fossgis_osrm_car' };
+
+// Links that hand the trip off to a native or web map app
+export const getExternalMapLinks = (destination: Coordinate, mode: TravelMode, origin?: Coordinate | null): ExternalMapLink[] => {
+  const dest = `${destination.lat},${destination.lng}`;
+  const from = origin ? `${origin.lat},${origin.lng}` : '';
+
+  return [
+    {
+      label: 'Google Maps',
+      url: `https://www.google.com/maps/dir/?api=1&destination=${dest}&travelmode=${GOOGLE_MODES[mode]}${from ? `&origin=${from}` : ''}`,
+    },
+    {
+      label: 'Apple Maps',
+      url: `https://maps.apple.com/?daddr=${dest}&dirflg=${APPLE_MODES[mode]}${from ? `&saddr=${from}` : ''}`,
+    },
+    {
+      label: 'OpenStreetMap',
+      url: `https://www.openstreetmap.org/directions?engine=${OSM_ENGINES[mode]}&route=${encodeURIComponent(`${from};${dest}`)}`,
+    },
+  ];
+};
@@ -0,0 +1,39 @@
+import { Coordinate } from '../../types';
+import { Route, RoutingProvider, TravelMode } from './types';
+import { createOsrmProvider } from './osrm';
+import { createStraightLineProvider } from './straightLine';
+
+export * from './types';
+export { createOsrmProvider } from './osrm';
+export { createStraightLineProvider } from './straightLine';
+export { getExternalMapLinks } from './deepLinks';
+export { resolveRouteOrigin } from './origin';
+export type { RouteOrigin } from './origin';
+
+let primaryProvider: RoutingProvider = createOsrmProvider();
+const fallbackProvider = createStraightLineProvider();
+
+// Swap the routing backend, e.g. for a self-hosted OSRM or the straight-line stand-in in tests
+export const setRoutingProvider = (provider: RoutingProvider) => {
+  primaryProvider = provider;
+};
+
+// Asks the configured provider for a route and falls back to an approximate
+// straight line when it fails, so the card always has something to show.
+export const getRoute = async (from: Coordinate, to: Coordinate, mode: TravelMode, signal?: AbortSignal): Promise<Route> => {
+  try {
+    return await primaryProvider.route(from, to, mode, signal);
+  } catch (error: any) {
+    if (error?.name === 'AbortError') throw error;
+    console.warn(`Routing via ${primaryProvider.name} failed, using straight-line estimate`, error);
+    return fallbackProvider.route(from, to, mode, signal);
+  }
+};
+
+export const formatDuration = (seconds: number): string => {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+};
@@ -0,0 +1,21 @@
+import { Coordinate } from '../../types';
+
+export interface RouteOrigin {
+  coordinate: Coordinate;
+  source: 'device' | 'map-centre';
+}
+
+// One-shot device position with the map centre as fallback when permission is
+// denied, the fix takes too long, or geolocation is unavailable.
+export const resolveRouteOrigin = (fallback: Coordinate, timeoutMs = 5000): Promise<RouteOrigin> =>
+  new Promise(resolve => {
+    if (!('geolocation' in navigator)) {
+      resolve({ coordinate: fallback, source: 'map-centre' });
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      pos => resolve({ coordinate: { lat: pos.coords.latitude, lng: pos.coords.longitude }, source: 'device' }),
+      () => resolve({ coordinate: fallback, source: 'map-centre' }),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+    );
+  });
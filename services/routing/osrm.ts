@@ -0,0 +1,79 @@
+import { Coordinate } from '../../types';
+import { Route, RouteStep, RoutingError, RoutingProvider, TravelMode } from './types';
+
+// The public FOSSGIS servers run one OSRM instance per profile
+export const FOSSGIS_OSRM_URLS: Record<TravelMode, string> = {
+  walking: 'https://routing.openstreetmap.de/routed-foot',
+  cycling: 'https://routing.openstreetmap.de/routed-bike',
+  driving: 'https://routing.openstreetmap.de/routed-car',
+};
+
+// OSRM's profile path segment; some servers ignore it and route by instance instead
+const OSRM_PROFILES: Record<TravelMode, string> = {
+  walking: 'foot',
+  cycling: 'bike',
+  driving: 'driving',
+};
+
+interface OsrmStep {
+  distance: number;
+  duration: number;
+  name: string;
+  maneuver: { type: string; modifier?: string };
+}
+
+const describeStep = (step: OsrmStep): string => {
+  const { type, modifier } = step.maneuver;
+  const road = step.name ? ` onto ${step.name}` : '';
+  switch (type) {
+    case 'depart': return `Head ${modifier || 'out'}${step.name ? ` on ${step.name}` : ''}`;
+    case 'arrive': return 'Arrive at your destination';
+    case 'roundabout':
+    case 'rotary': return `Take the roundabout${road}`;
+    case 'merge': return `Merge${road}`;
+    case 'fork': return `Keep ${modifier || 'ahead'} at the fork${road}`;
+    case 'end of road': return `${modifier ? `Turn ${modifier}` : 'Turn'} at the end of the road${road}`;
+    case 'continue':
+    case 'new name': return `Continue${road || ' straight'}`;
+    default:
+      if (modifier === 'straight') return `Continue straight${road}`;
+      return modifier ? `Turn ${modifier}${road}` : `Continue${road}`;
+  }
+};
+
+// Works with any OSRM-compatible HTTP API (self-hosted, FOSSGIS, Mapbox-style proxies)
+export const createOsrmProvider = (baseUrls: Record<TravelMode, string> = FOSSGIS_OSRM_URLS): RoutingProvider => ({
+  name: 'osrm',
+
+  async route(from: Coordinate, to: Coordinate, mode: TravelMode, signal?: AbortSignal): Promise<Route> {
+    const coords = `${from.lng},${from.lat};${to.lng},${to.lat}`;
+    const url = `${baseUrls[mode]}/route/v1/${OSRM_PROFILES[mode]}/${coords}?overview=full&geometries=geojson&steps=true`;
+
+    const res = await fetch(url, { signal });
+    if (!res.ok) throw new RoutingError(`Routing server error: ${res.status}`, 'osrm');
+
+    const data = await res.json();
+    if (data.code !== 'Ok' || !data.routes?.length) {
+      throw new RoutingError(data.message || 'No route found', 'osrm');
+    }
+
+    const best = data.routes[0];
+    const steps: RouteStep[] = (best.legs || []).flatMap((leg: any) =>
+      (leg.steps || []).map((step: OsrmStep) => ({
+        instruction: describeStep(step),
+        distance: step.distance,
+        duration: step.duration,
+      }))
+    );
+
+    return {
+      mode,
+      distance: best.distance,
+      duration: best.duration,
+      // GeoJSON coordinates are [lng, lat]
+      geometry: best.geometry.coordinates.map(([lng, lat]: [number, number]) => ({ lat, lng })),
+      steps,
+      provider: 'osrm',
+    };
+  },
+});
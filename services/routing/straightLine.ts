@@ -0,0 +1,33 @@
+import { Coordinate } from '../../types';
+import { haversineDistance } from '../../utils/geo';
+import { Route, RoutingProvider, TravelMode } from './types';
+
+// Average urban speeds in km/h, including stops at crossings and lights
+const SPEEDS_KMH: Record<TravelMode, number> = {
+  walking: 4.5,
+  cycling: 14,
+  driving: 25,
+};
+const DETOUR_FACTOR = 1.3;
+
+// Offline stand-in: no network, deterministic output. Used in tests and as the
+// fallback when the routing server cannot be reached.
+export const createStraightLineProvider = (): RoutingProvider => ({
+  name: 'straight-line',
+
+  async route(from: Coordinate, to: Coordinate, mode: TravelMode): Promise<Route> {
+    const distance = haversineDistance(from, to) * DETOUR_FACTOR;
+    const duration = (distance / 1000 / SPEEDS_KMH[mode]) * 3600;
+    return {
+      mode,
+      distance,
+      duration,
+      geometry: [from, to],
+      steps: [
+        { instruction: 'Head towards your destination (approximate route)', distance, duration },
+        { instruction: 'Arrive at your destination', distance: 0, duration: 0 },
+      ],
+      provider: 'straight-line',
+    };
+  },
+});
@@ -0,0 +1,30 @@
+import { Coordinate } from '../../types';
+
+export type TravelMode = 'walking' | 'cycling' | 'driving';
+
+export interface RouteStep {
+  instruction: string;
+  distance: number; // Metres
+  duration: number; // Seconds
+}
+
+export interface Route {
+  mode: TravelMode;
+  distance: number; // Metres
+  duration: number; // Seconds
+  geometry: Coordinate[];
+  steps: RouteStep[];
+  provider: string;
+}
+
+export interface RoutingProvider {
+  readonly name: string;
+  route(from: Coordinate, to: Coordinate, mode: TravelMode, signal?: AbortSignal): Promise<Route>;
+}
+
+export class RoutingError extends Error {
+  constructor(message: string, public readonly provider: string) {
+    super(message);
+    this.name = 'RoutingError';
+  }
+}
@@ -0,0 +1,12 @@
+export { parseUrlState, serializeUrlState } from './urlState';
+export type { UrlState } from './urlState';
+export {
+  MAX_SHARED_PLACES,
+  SHARE_FRAGMENT_KEY,
+  ShareLinkError,
+  buildShareUrl,
+  decodeSharedList,
+  encodeSharedList,
+  readShareFragment,
+} from './shareLink';
+export type { SharedList } from './shareLink';
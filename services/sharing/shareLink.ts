@@ -0,0 +1,142 @@
+import { Location } from '../../types';
+import { CATEGORIES, PLACE_TYPES, validateLocation } from '../storage/validation';
+import { normalizeTag } from '../journal';
+
+// A list someone shared with us, decoded from the link. Places carry `shared-` ids
+// and are never saved until the reader adds them.
+export interface SharedList {
+  title: string;
+  places: Location[];
+}
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+export const SHARE_FRAGMENT_KEY = 'share';
+const FORMAT_VERSION = 1;
+// Descriptions are the bulk of a link; chat apps start mangling URLs past a few KB
+const MAX_DESCRIPTION_LENGTH = 160;
+// Places shared per link, for the same reason
+export const MAX_SHARED_PLACES = 60;
+
+// Payload prefixes: deflated where the browser can compress, plain JSON otherwise
+const DEFLATED = 'z';
+const PLAIN = 'j';
+
+// One row per place: [name, lat e5, lng e5, category, type, description?, address?, tags?, stars?]
+type SharedRow = [string, number, number, number, number, string?, string?, string?, number?];
+
+interface SharedPayload {
+  v: number;
+  t: string;
+  p: SharedRow[];
+}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const canCompress = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toRow = (location: Location): SharedRow => {
+  const row: SharedRow = [
+    location.name,
+    Math.round(location.coordinate.lat * 1e5),
+    Math.round(location.coordinate.lng * 1e5),
+    CATEGORIES.indexOf(location.category),
+    PLACE_TYPES.indexOf(location.placeType),
+    location.description.slice(0, MAX_DESCRIPTION_LENGTH),
+    location.address || '',
+    (location.tags || []).join(','),
+    location.rating?.stars ?? 0,
+  ];
+  // Trailing empty fields cost bytes and carry nothing
+  while (row.length > 5 && !row[row.length - 1]) row.pop();
+  return row;
+};
+
+const fromRow = (row: SharedRow, i: number): Location => {
+  const [name, lat, lng, category, placeType, description, address, tags, stars] = row;
+  return {
+    id: `shared-${i}`,
+    name: String(name || ''),
+    coordinate: { lat: Number(lat) / 1e5, lng: Number(lng) / 1e5 },
+    category: CATEGORIES[category] ?? 'Hidden Gem',
+    placeType: PLACE_TYPES[placeType] ?? 'Other',
+    description: String(description || ''),
+    image: '',
+    visited: false,
+    ...(address && { address: String(address) }),
+    ...(tags && { tags: String(tags).split(',').map(normalizeTag).filter(Boolean) }),
+    // The sharer's own stars, shown as theirs; they are not copied when adding
+    ...(Number.isInteger(stars) && stars! >= 1 && stars! <= 5 && { rating: { stars: stars!, ratedAt: new Date(0).toISOString() } }),
+  };
+};
+
+// Packs a list into the text after "#share=". Private parts (notes, visits, photos)
+// never leave the device.
+export const encodeSharedList = async (title: string, locations: Location[]): Promise<string> => {
+  if (locations.length === 0) throw new ShareLinkError('There is nothing to share');
+  if (locations.length > MAX_SHARED_PLACES) {
+    throw new ShareLinkError(`Links can hold up to ${MAX_SHARED_PLACES} places; share a smaller collection`);
+  }
+  const payload: SharedPayload = { v: FORMAT_VERSION, t: title, p: locations.map(toRow) };
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  if (!canCompress()) return PLAIN + toBase64Url(bytes);
+  return DEFLATED + toBase64Url(await pipeThrough(bytes, new CompressionStream('deflate-raw')));
+};
+
+export const decodeSharedList = async (encoded: string): Promise<SharedList> => {
+  let payload: SharedPayload;
+  try {
+    let bytes = fromBase64Url(encoded.slice(1));
+    if (encoded[0] === DEFLATED) {
+      if (!canCompress()) throw new ShareLinkError('This browser cannot open compressed share links');
+      bytes = await pipeThrough(bytes, new DecompressionStream('deflate-raw'));
+    } else if (encoded[0] !== PLAIN) {
+      throw new ShareLinkError('This share link is not in a format we recognise');
+    }
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error) {
+    if (error instanceof ShareLinkError) throw error;
+    throw new ShareLinkError('This share link is damaged or incomplete');
+  }
+
+  if (payload?.v !== FORMAT_VERSION || !Array.isArray(payload.p)) {
+    throw new ShareLinkError('This share link was made by a newer version of the app');
+  }
+  // Rows that do not make a valid place are dropped rather than failing the whole list
+  const places = payload.p
+    .filter(Array.isArray)
+    .map(fromRow)
+    .filter(place => validateLocation(place).length === 0);
+  if (places.length === 0) throw new ShareLinkError('This share link has no places in it');
+  return { title: String(payload.t || 'Shared places'), places };
+};
+
+// Full link to the current page with the list in the fragment, which browsers never
+// send to a server, so it works from any static host
+export const buildShareUrl = async (title: string, locations: Location[]) => {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}#${SHARE_FRAGMENT_KEY}=${await encodeSharedList(title, locations)}`;
+};
+
+// The encoded list in a location hash, if it has one
+export const readShareFragment = (hash: string): string | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return params.get(SHARE_FRAGMENT_KEY);
+};
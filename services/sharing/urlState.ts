@@ -0,0 +1,77 @@
+import { Category, MapViewState, PlaceType } from '../../types';
+import { CATEGORIES, PLACE_TYPES } from '../storage/validation';
+import { RATING_FILTERS, RatingFilter } from '../ratings';
+import { DEFAULT_LIST_FILTERS, ListFilters, SORT_MODES, SortMode } from '../listFilters';
+
+// The parts of the screen worth keeping in the address bar, so a reload or a
+// bookmark comes back to the same place. Anything missing falls back to the default.
+export interface UrlState {
+  placeId: string | null;
+  view: MapViewState | null;
+  query: string;
+  collectionId: string | null;
+  filters: ListFilters;
+}
+
+const PARAMS = {
+  place: 'place',
+  view: 'map',
+  query: 'q',
+  collection: 'collection',
+  types: 'type',
+  categories: 'cat',
+  rating: 'rating',
+  sort: 'sort',
+  openNow: 'open',
+} as const;
+
+const RATING_VALUES = RATING_FILTERS.map(f => f.value);
+
+const parseList = <T extends string>(value: string | null, allowed: readonly T[]): T[] =>
+  (value || '').split(',').filter((v): v is T => (allowed as readonly string[]).includes(v));
+
+// "1.35210,103.81980,14" → centre and zoom; anything malformed is ignored
+const parseView = (value: string | null): MapViewState | null => {
+  const [lat, lng, zoom] = (value || '').split(',').map(Number);
+  if (![lat, lng, zoom].every(Number.isFinite)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180 || zoom < 1 || zoom > 20) return null;
+  return { center: { lat, lng }, zoom };
+};
+
+export const parseUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search);
+  const rating = params.get(PARAMS.rating) as RatingFilter | null;
+  const sort = params.get(PARAMS.sort) as SortMode | null;
+  return {
+    placeId: params.get(PARAMS.place),
+    view: parseView(params.get(PARAMS.view)),
+    query: params.get(PARAMS.query) || '',
+    collectionId: params.get(PARAMS.collection),
+    filters: {
+      types: parseList<PlaceType>(params.get(PARAMS.types), PLACE_TYPES),
+      categories: parseList<Category>(params.get(PARAMS.categories), CATEGORIES),
+      rating: rating && RATING_VALUES.includes(rating) ? rating : DEFAULT_LIST_FILTERS.rating,
+      sort: sort && SORT_MODES.includes(sort) ? sort : DEFAULT_LIST_FILTERS.sort,
+      openNow: params.get(PARAMS.openNow) === '1',
+    },
+  };
+};
+
+// Query string (with its "?", or empty) for the state; defaults are left out to keep it short
+export const serializeUrlState = (state: UrlState): string => {
+  const params = new URLSearchParams();
+  if (state.placeId) params.set(PARAMS.place, state.placeId);
+  if (state.view) {
+    const { center, zoom } = state.view;
+    params.set(PARAMS.view, `${center.lat.toFixed(5)},${center.lng.toFixed(5)},${Math.round(zoom)}`);
+  }
+  if (state.query) params.set(PARAMS.query, state.query);
+  if (state.collectionId) params.set(PARAMS.collection, state.collectionId);
+  if (state.filters.types.length) params.set(PARAMS.types, state.filters.types.join(','));
+  if (state.filters.categories.length) params.set(PARAMS.categories, state.filters.categories.join(','));
+  if (state.filters.rating !== DEFAULT_LIST_FILTERS.rating) params.set(PARAMS.rating, state.filters.rating);
+  if (state.filters.sort !== DEFAULT_LIST_FILTERS.sort) params.set(PARAMS.sort, state.filters.sort);
+  if (state.filters.openNow) params.set(PARAMS.openNow, '1');
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
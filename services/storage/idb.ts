@@ -0,0 +1,97 @@
+// Small promise wrapper around IndexedDB, shared by every subsystem that persists data.
+// To add an object store, list it in STORES and bump DB_VERSION: missing stores are
+// created on upgrade and existing ones are left untouched.
+export const DB_NAME = 'hidden_gems';
+export const DB_VERSION = 7;
+
+export const STORES = {
+  appState: 'app_state',
+  quarantine: 'quarantine',
+  geocodeCache: 'geocode_cache',
+  aiCache: 'ai_cache',
+  placeInsights: 'place_insights',
+  photos: 'photos',
+  photoLookups: 'photo_lookups',
+  offlineAreas: 'offline_areas',
+  chatConversations: 'chat_conversations',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!isIndexedDbAvailable()) {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another open tab'));
+    });
+    // Allow a retry on the next call instead of caching the failure forever
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+
+export const idbGet = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readonly');
+  return requestToPromise(tx.objectStore(store).get(key)) as Promise<T | undefined>;
+};
+
+export const idbGetAll = async <T>(store: StoreName): Promise<{ key: IDBValidKey; value: T }[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readonly');
+  const objectStore = tx.objectStore(store);
+  const [keys, values] = await Promise.all([
+    requestToPromise(objectStore.getAllKeys()),
+    requestToPromise(objectStore.getAll()),
+  ]);
+  return keys.map((key, i) => ({ key, value: values[i] as T }));
+};
+
+export const idbGetAllKeys = async (store: StoreName): Promise<IDBValidKey[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readonly');
+  return requestToPromise(tx.objectStore(store).getAllKeys());
+};
+
+export const idbPut = async (store: StoreName, key: IDBValidKey, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).put(value, key);
+  await transactionDone(tx);
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).delete(key);
+  await transactionDone(tx);
+};
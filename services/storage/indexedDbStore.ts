@@ -0,0 +1,35 @@
+import { LocationStore, StoreLoadResult } from './locationStore';
+import { QuarantineEntry, StoreSnapshot, createEnvelope, decodePersisted, emptySnapshot } from './schema';
+import { STORES, idbGet, idbPut } from './idb';
+import { LOCAL_STORAGE_KEY, decodeLocalStorageValue } from './localStorageStore';
+
+const SNAPSHOT_KEY = 'snapshot';
+
+const writeQuarantine = async (entry: QuarantineEntry): Promise<string> => {
+  const key = `quarantine-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+  await idbPut(STORES.quarantine, key, entry);
+  return key;
+};
+
+export const createIndexedDbStore = (): LocationStore => ({
+  kind: 'indexeddb',
+
+  async load(): Promise<StoreLoadResult> {
+    const raw = await idbGet<unknown>(STORES.appState, SNAPSHOT_KEY);
+    if (raw !== undefined) {
+      return { ...(await decodePersisted(raw, writeQuarantine)), isFirstRun: false };
+    }
+
+    // Nothing in IndexedDB yet: pick up data saved by the older localStorage-only build
+    const legacy = await decodeLocalStorageValue(LOCAL_STORAGE_KEY, writeQuarantine);
+    if (legacy) return { ...legacy, isFirstRun: false };
+
+    return { snapshot: emptySnapshot(), issues: [], isFirstRun: true };
+  },
+
+  async save(snapshot: StoreSnapshot) {
+    await idbPut(STORES.appState, SNAPSHOT_KEY, createEnvelope(snapshot));
+    // Once IndexedDB holds the data the legacy copy is redundant
+    localStorage.removeItem(LOCAL_STORAGE_KEY);
+  },
+});
@@ -0,0 +1,49 @@
+import { LocationStore, StoreLoadResult } from './locationStore';
+import { QuarantineEntry, StoreSnapshot, createEnvelope, decodePersisted, emptySnapshot } from './schema';
+
+export const LOCAL_STORAGE_KEY = 'hidden_gems_locations';
+const QUARANTINE_PREFIX = 'hidden_gems_quarantine_';
+
+const writeQuarantine = async (entry: QuarantineEntry): Promise<string> => {
+  const key = `${QUARANTINE_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+  try {
+    localStorage.setItem(key, JSON.stringify(entry));
+    return key;
+  } catch (error) {
+    // Storage is full: the data cannot be preserved, but the issue is still reported
+    console.error('Could not quarantine unreadable data', error);
+    return '';
+  }
+};
+
+// Reads a localStorage value into something decodePersisted understands. Unparseable
+// strings are passed through as-is so they get quarantined rather than lost.
+export const readLocalStorageValue = (key: string): { found: boolean; raw: unknown } => {
+  const text = localStorage.getItem(key);
+  if (text === null) return { found: false, raw: null };
+  try {
+    return { found: true, raw: JSON.parse(text) };
+  } catch {
+    return { found: true, raw: text };
+  }
+};
+
+export const decodeLocalStorageValue = async (key: string, quarantine: (entry: QuarantineEntry) => Promise<string>) => {
+  const { found, raw } = readLocalStorageValue(key);
+  if (!found) return null;
+  return decodePersisted(raw, quarantine);
+};
+
+export const createLocalStorageStore = (): LocationStore => ({
+  kind: 'localstorage',
+
+  async load(): Promise<StoreLoadResult> {
+    const result = await decodeLocalStorageValue(LOCAL_STORAGE_KEY, writeQuarantine);
+    if (!result) return { snapshot: emptySnapshot(), issues: [], isFirstRun: true };
+    return { ...result, isFirstRun: false };
+  },
+
+  async save(snapshot: StoreSnapshot) {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(createEnvelope(snapshot)));
+  },
+});
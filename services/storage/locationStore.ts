@@ -0,0 +1,30 @@
+import { StorageIssue, StoreSnapshot } from './schema';
+import { openDatabase } from './idb';
+import { createIndexedDbStore } from './indexedDbStore';
+import { createLocalStorageStore } from './localStorageStore';
+
+export interface StoreLoadResult {
+  snapshot: StoreSnapshot;
+  issues: StorageIssue[];
+  // True when nothing has ever been saved, so the caller can seed demo data
+  isFirstRun: boolean;
+  migratedFrom?: number;
+}
+
+export interface LocationStore {
+  readonly kind: 'indexeddb' | 'localstorage';
+  load(): Promise<StoreLoadResult>;
+  save(snapshot: StoreSnapshot): Promise<void>;
+}
+
+// Prefer IndexedDB (no 5MB cap, structured clone) and fall back to localStorage
+// when it is unavailable, e.g. in some private browsing modes.
+export const openLocationStore = async (): Promise<LocationStore> => {
+  try {
+    await openDatabase();
+    return createIndexedDbStore();
+  } catch (error) {
+    console.warn('IndexedDB unavailable, falling back to localStorage', error);
+    return createLocalStorageStore();
+  }
+};
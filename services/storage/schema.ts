@@ -0,0 +1,196 @@
+import { Collection, Location } from '../../types';
+import { validateCollection, validateLocation } from './validation';
+
+// Bump SCHEMA_VERSION whenever the persisted shape changes and register a migration
+// that upgrades data from the previous version. Migrations run in order on load.
+export const SCHEMA_VERSION = 3;
+
+export interface StoreSnapshot {
+  locations: Location[];
+  collections: Collection[];
+}
+
+export interface PersistedEnvelope {
+  version: number;
+  savedAt: string;
+  data: StoreSnapshot;
+}
+
+type Migration = (data: any) => any;
+
+// Keyed by the version each migration upgrades *to*.
+const MIGRATIONS: Record<number, Migration> = {
+  // v0 was the original unversioned format: a bare Location[] in localStorage
+  1: (legacy: unknown) => {
+    if (!Array.isArray(legacy)) throw new Error('Expected a list of locations');
+    return { locations: legacy };
+  },
+  // v2 added named collections; existing users start with none
+  2: (data: any) => ({ ...data, collections: [] }),
+  // v3 turned the bare numeric rating into a personal star rating; non-numbers are dropped
+  3: (data: any) => ({
+    ...data,
+    locations: !Array.isArray(data.locations) ? data.locations : data.locations.map((loc: any) => {
+      if (!loc || typeof loc !== 'object' || loc.rating === undefined) return loc;
+      const { rating, ...rest } = loc;
+      if (typeof rating !== 'number' || !Number.isFinite(rating)) return rest;
+      return {
+        ...rest,
+        rating: { stars: Math.min(5, Math.max(1, Math.round(rating))), ratedAt: new Date().toISOString() },
+      };
+    }),
+  }),
+};
+
+export type StorageIssueKind = 'corrupt' | 'unsupported-version' | 'invalid-records';
+
+export interface StorageIssue {
+  kind: StorageIssueKind;
+  message: string;
+  quarantineKey?: string; // Where the unreadable data was copied; '' when that failed
+  count?: number;
+}
+
+export interface QuarantineEntry {
+  reason: string;
+  quarantinedAt: string;
+  payload: unknown;
+}
+
+// Backend-specific hook that keeps a copy of unreadable data and returns its key, or ''
+// when the copy could not be written
+export type QuarantineWriter = (entry: QuarantineEntry) => Promise<string>;
+
+export interface DecodeResult {
+  snapshot: StoreSnapshot;
+  issues: StorageIssue[];
+  migratedFrom?: number;
+}
+
+export const emptySnapshot = (): StoreSnapshot => ({ locations: [], collections: [] });
+
+export const createEnvelope = (snapshot: StoreSnapshot): PersistedEnvelope => ({
+  version: SCHEMA_VERSION,
+  savedAt: new Date().toISOString(),
+  data: snapshot,
+});
+
+const quarantineWhole = async (
+  payload: unknown,
+  kind: StorageIssueKind,
+  reason: string,
+  quarantine: QuarantineWriter
+): Promise<DecodeResult> => {
+  const quarantineKey = await quarantine({ reason, quarantinedAt: new Date().toISOString(), payload });
+  return {
+    snapshot: emptySnapshot(),
+    issues: [{ kind, message: reason, quarantineKey }],
+  };
+};
+
+// Turns whatever was read from storage into a current-version snapshot. Anything that
+// cannot be read is handed to `quarantine` and reported, never silently dropped.
+export const decodePersisted = async (raw: unknown, quarantine: QuarantineWriter): Promise<DecodeResult> => {
+  let version: number;
+  let data: any;
+
+  if (Array.isArray(raw)) {
+    version = 0;
+    data = raw;
+  } else if (raw && typeof raw === 'object' && typeof (raw as any).version === 'number') {
+    version = (raw as PersistedEnvelope).version;
+    data = (raw as PersistedEnvelope).data;
+  } else {
+    return quarantineWhole(raw, 'corrupt', 'Saved data is not in a recognised format.', quarantine);
+  }
+
+  if (version > SCHEMA_VERSION) {
+    return quarantineWhole(
+      raw,
+      'unsupported-version',
+      `Saved data was written by a newer version of the app (schema v${version}).`,
+      quarantine
+    );
+  }
+
+  const migratedFrom = version < SCHEMA_VERSION ? version : undefined;
+  try {
+    for (let v = version + 1; v <= SCHEMA_VERSION; v++) {
+      const migrate = MIGRATIONS[v];
+      if (!migrate) throw new Error(`No migration registered for schema v${v}`);
+      data = migrate(data);
+    }
+  } catch (error: any) {
+    return quarantineWhole(
+      raw,
+      'corrupt',
+      `Saved data could not be upgraded from schema v${version}: ${error.message}`,
+      quarantine
+    );
+  }
+
+  if (!data || !Array.isArray(data.locations) || !Array.isArray(data.collections)) {
+    return quarantineWhole(raw, 'corrupt', 'Saved data is missing its location or collection list.', quarantine);
+  }
+
+  // Keep every valid record and quarantine the rest individually
+  const locations: Location[] = [];
+  // A set-aside place keeps its collection memberships, so restoring it puts it back in them
+  const rejected: { record: unknown; problems: string[]; collectionIds?: string[] }[] = [];
+  data.locations.forEach((record: unknown) => {
+    const problems = validateLocation(record);
+    if (problems.length === 0) locations.push(record as Location);
+    else rejected.push({ record, problems });
+  });
+
+  // Collections are checked the same way; references to places that are gone or set
+  // aside are pruned (the latter are kept with the set-aside record)
+  const knownIds = new Set(locations.map(l => l.id));
+  const collections: Collection[] = [];
+  const rejectedCollections: { record: unknown; problems: string[] }[] = [];
+  data.collections.forEach((record: unknown) => {
+    const problems = validateCollection(record);
+    if (problems.length > 0) {
+      rejectedCollections.push({ record, problems });
+      return;
+    }
+    const collection = record as Collection;
+    collections.push({ ...collection, locationIds: collection.locationIds.filter(id => knownIds.has(id)) });
+  });
+
+  const issues: StorageIssue[] = [];
+  if (rejected.length > 0) {
+    rejected.forEach(entry => {
+      const id = (entry.record as any)?.id;
+      const collectionIds = collections.filter(c => typeof id === 'string' && c.locationIds.includes(id)).map(c => c.id);
+      if (collectionIds.length > 0) entry.collectionIds = collectionIds;
+    });
+    const quarantineKey = await quarantine({
+      reason: 'Invalid location records',
+      quarantinedAt: new Date().toISOString(),
+      payload: rejected,
+    });
+    issues.push({
+      kind: 'invalid-records',
+      message: `${rejected.length} saved place${rejected.length === 1 ? '' : 's'} could not be read and ${rejected.length === 1 ? 'was' : 'were'} set aside.`,
+      quarantineKey,
+      count: rejected.length,
+    });
+  }
+
+  if (rejectedCollections.length > 0) {
+    const quarantineKey = await quarantine({
+      reason: 'Invalid collection records',
+      quarantinedAt: new Date().toISOString(),
+      payload: rejectedCollections,
+    });
+    issues.push({
+      kind: 'invalid-records',
+      message: `${rejectedCollections.length} saved collection${rejectedCollections.length === 1 ? '' : 's'} could not be read and ${rejectedCollections.length === 1 ? 'was' : 'were'} set aside.`,
+      quarantineKey,
+      count: rejectedCollections.length,
+    });
+  }
+
+  return { snapshot: { ...data, locations, collections }, issues, migratedFrom };
+};
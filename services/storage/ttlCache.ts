@@ -0,0 +1,57 @@
+import { StoreName, idbDelete, idbGet, idbPut, isIndexedDbAvailable } from './idb';
+
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export interface TtlCache {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+}
+
+// Memory first, IndexedDB behind it so answers survive reloads. A cache miss only
+// costs a network request, so storage failures are logged and otherwise ignored.
+export const createTtlCache = (store: StoreName, defaultTtlMs: number): TtlCache => {
+  const memory = new Map<string, CacheEntry<unknown>>();
+  const isFresh = (entry: CacheEntry<unknown>) => entry.expiresAt > Date.now();
+
+  return {
+    async get<T>(key: string) {
+      const cached = memory.get(key);
+      if (cached && isFresh(cached)) return cached.value as T;
+      if (!isIndexedDbAvailable()) return undefined;
+
+      try {
+        const stored = await idbGet<CacheEntry<T>>(store, key);
+        if (!stored) return undefined;
+        if (!isFresh(stored)) {
+          idbDelete(store, key).catch(() => {});
+          return undefined;
+        }
+        memory.set(key, stored);
+        return stored.value;
+      } catch (error) {
+        console.warn(`Cache read from ${store} failed`, error);
+        return undefined;
+      }
+    },
+
+    async set<T>(key: string, value: T, ttlMs = defaultTtlMs) {
+      const entry: CacheEntry<T> = { value, expiresAt: Date.now() + ttlMs };
+      memory.set(key, entry);
+      if (!isIndexedDbAvailable()) return;
+      try {
+        await idbPut(store, key, entry);
+      } catch (error) {
+        console.warn(`Cache write to ${store} failed`, error);
+      }
+    },
+  };
+};
+
+// Cache that never stores anything, for tests and offline stand-ins
+export const createNoopCache = (): TtlCache => ({
+  async get() { return undefined; },
+  async set() {},
+});
@@ -0,0 +1,120 @@
+import { Category, Collection, Location, PlaceType } from '../../types';
+import { isPriceLevel } from '../placeDetails';
+
+export const CATEGORIES: Category[] = ['Hidden Gem', 'Tourist Trap'];
+export const PLACE_TYPES: PlaceType[] = ['Restaurant', 'Bar', 'Cafe', 'Activity', 'Other'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const validatePersonalRating = (value: unknown): string[] => {
+  if (!isObject(value)) return ['invalid rating'];
+  const problems: string[] = [];
+  if (!Number.isInteger(value.stars) || value.stars < 1 || value.stars > 5) problems.push('rating must be 1-5 stars');
+  if (value.note !== undefined && typeof value.note !== 'string') problems.push('invalid rating note');
+  if (!isIsoDate(value.ratedAt)) problems.push('invalid rating date');
+  return problems;
+};
+
+const isValidExternalRating = (value: unknown) =>
+  isObject(value) &&
+  typeof value.source === 'string' &&
+  isFiniteNumber(value.score) && value.score >= 0 && value.score <= 5 &&
+  (value.reviewCount === undefined || isFiniteNumber(value.reviewCount)) &&
+  isIsoDate(value.fetchedAt);
+
+const isIsoCalendarDate = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+const isValidVisit = (value: unknown) =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  isIsoCalendarDate(value.date) &&
+  (value.companions === undefined || (Array.isArray(value.companions) && value.companions.every((c: unknown) => typeof c === 'string'))) &&
+  (value.note === undefined || typeof value.note === 'string') &&
+  (value.rating === undefined || (Number.isInteger(value.rating) && value.rating >= 1 && value.rating <= 5)) &&
+  (value.spend === undefined || (isFiniteNumber(value.spend) && value.spend >= 0)) &&
+  (value.wouldReturn === undefined || typeof value.wouldReturn === 'boolean');
+
+const isValidPhoto = (value: unknown) =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  isIsoDate(value.addedAt) &&
+  isFiniteNumber(value.width) &&
+  isFiniteNumber(value.height);
+
+const isValidGemScore = (value: unknown) =>
+  isObject(value) &&
+  isFiniteNumber(value.score) && value.score >= 0 && value.score <= 100 &&
+  typeof value.explanation === 'string' &&
+  isObject(value.signals) &&
+  isIsoDate(value.scoredAt);
+
+// Returns a list of human readable problems; an empty list means the value is a valid Location.
+export const validateLocation = (value: unknown): string[] => {
+  if (!isObject(value)) return ['not an object'];
+
+  const problems: string[] = [];
+  if (typeof value.id !== 'string' || !value.id) problems.push('missing id');
+  if (typeof value.name !== 'string' || !value.name.trim()) problems.push('missing name');
+  if (typeof value.description !== 'string') problems.push('missing description');
+  if (typeof value.image !== 'string') problems.push('missing image');
+  if (!CATEGORIES.includes(value.category)) problems.push(`unknown category "${value.category}"`);
+  if (!PLACE_TYPES.includes(value.placeType)) problems.push(`unknown place type "${value.placeType}"`);
+
+  const coord = value.coordinate;
+  if (!isObject(coord) || !isFiniteNumber(coord.lat) || !isFiniteNumber(coord.lng)) {
+    problems.push('invalid coordinate');
+  } else if (Math.abs(coord.lat) > 90 || Math.abs(coord.lng) > 180) {
+    problems.push('coordinate out of range');
+  }
+
+  if (value.address !== undefined && typeof value.address !== 'string') problems.push('invalid address');
+  if (value.visited !== undefined && typeof value.visited !== 'boolean') problems.push('invalid visited flag');
+  if (value.rating !== undefined) problems.push(...validatePersonalRating(value.rating));
+  if (value.externalRatings !== undefined) {
+    if (!Array.isArray(value.externalRatings)) problems.push('invalid external ratings');
+    else if (value.externalRatings.some((r: unknown) => !isValidExternalRating(r))) problems.push('invalid external rating');
+  }
+  if (value.notes !== undefined && typeof value.notes !== 'string') problems.push('invalid notes');
+  if (value.tags !== undefined && (!Array.isArray(value.tags) || value.tags.some((t: unknown) => typeof t !== 'string'))) {
+    problems.push('invalid tags');
+  }
+  if (value.photos !== undefined && (!Array.isArray(value.photos) || value.photos.some((p: unknown) => !isValidPhoto(p)))) {
+    problems.push('invalid photos');
+  }
+  ['openingHours', 'phone', 'website'].forEach(field => {
+    if (value[field] !== undefined && typeof value[field] !== 'string') problems.push(`invalid ${field}`);
+  });
+  if (value.priceLevel !== undefined && !isPriceLevel(value.priceLevel)) problems.push('invalid price level');
+  if (value.gemScore !== undefined && !isValidGemScore(value.gemScore)) problems.push('invalid gem score');
+  if (value.visits !== undefined) {
+    if (!Array.isArray(value.visits)) problems.push('invalid visit log');
+    else if (value.visits.some((v: unknown) => !isValidVisit(v))) problems.push('invalid visit');
+  }
+
+  return problems;
+};
+
+export const isValidLocation = (value: unknown): value is Location => validateLocation(value).length === 0;
+
+export const validateCollection = (value: unknown): string[] => {
+  if (!isObject(value)) return ['not an object'];
+
+  const problems: string[] = [];
+  if (typeof value.id !== 'string' || !value.id) problems.push('missing id');
+  if (typeof value.name !== 'string' || !value.name.trim()) problems.push('missing name');
+  if (typeof value.color !== 'string') problems.push('missing color');
+  if (!Array.isArray(value.locationIds) || value.locationIds.some((id: unknown) => typeof id !== 'string')) {
+    problems.push('invalid location list');
+  }
+  return problems;
+};
+
+export const isValidCollection = (value: unknown): value is Collection => validateCollection(value).length === 0;
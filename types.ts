@@ -2,6 +2,9 @@ export type Category = 'Hidden Gem' | 'Tourist Trap';
 
 export type PlaceType = 'Restaurant' | 'Bar' | 'Cafe' | 'Activity' | 'Other';
 
+// 1 ($) to 4 ($$$$), see PRICE_LEVELS in services/placeDetails
+export type PriceLevel = 1 | 2 | 3 | 4;
+
 export interface Coordinate {
   lat: number;
   lng: number;
@@ -14,10 +17,87 @@ export interface Location {
   description: string;
   category: Category;
   placeType: PlaceType;
-  image: string;
+  image: string; // Remote image URL; older places hold a random placeholder, see services/photos
   address?: string; // Optional address field for geocoding accuracy
-  visited?: boolean;
-  rating?: number; // Optional manual rating
+  visited?: boolean; // Still on the to-visit list when false, even after earlier visits
+  rating?: PersonalRating; // The user's own verdict
+  externalRatings?: ExternalRating[]; // Review-site scores found by the AI
+  notes?: string; // Free-text notes about the place itself
+  tags?: string[]; // User-defined, lower case (e.g. "date night", "kid friendly")
+  visits?: Visit[];
+  photos?: PlacePhoto[]; // The user's own uploads, newest last
+  openingHours?: string; // OpenStreetMap opening_hours syntax, e.g. "Mo-Fr 08:00-15:00; Sa,Su off"
+  priceLevel?: PriceLevel;
+  phone?: string;
+  website?: string;
+  gemScore?: GemScore;
+}
+
+// How much of a hidden gem a place is, from 0 (tourist trap) to 100, see services/gemScore
+export interface GemScore {
+  score: number;
+  explanation: string; // One line on what drove the score
+  signals: GemSignals; // Kept so the score can be redone as new signals arrive
+  scoredAt: string; // ISO timestamp
+}
+
+export interface GemSignals {
+  reviewCount?: number; // Most reviews on any one review site
+  touristTags?: string[]; // OSM tags that point at a tourist-facing place, e.g. "tourism=attraction"
+  nearestAttraction?: { name: string; distanceM: number }; // See MAJOR_ATTRACTIONS in constants
+  priceLevel?: PriceLevel;
+  ai?: { score: number; reason: string }; // The model's own 0-100 read of reviews and blogs
+}
+
+// A photo the user uploaded. The image and its thumbnail are blobs in IndexedDB under `id`.
+export interface PlacePhoto {
+  id: string;
+  addedAt: string; // ISO timestamp
+  width: number;
+  height: number;
+}
+
+// One trip to a place, logged from the card or by marking it visited
+export interface Visit {
+  id: string;
+  date: string; // Local calendar date, YYYY-MM-DD
+  companions?: string[];
+  note?: string; // What we ordered, what to skip...
+  rating?: number; // 1-5 stars for this particular visit
+  spend?: number; // Total spent in SGD
+  wouldReturn?: boolean;
+}
+
+// Our own 1-5 star rating with an optional short note
+export interface PersonalRating {
+  stars: number;
+  note?: string;
+  ratedAt: string; // ISO timestamp
+}
+
+// A score from a review site such as Google Maps or TripAdvisor, normalised to 5
+export interface ExternalRating {
+  source: string;
+  score: number;
+  reviewCount?: number;
+  fetchedAt: string; // ISO timestamp
+}
+
+// A named, ordered subset of saved locations (e.g. "Weekend in Tiong Bahru").
+// A location can belong to any number of collections.
+export interface Collection {
+  id: string;
+  name: string;
+  color: string; // Hex colour used to style this collection's markers
+  locationIds: string[]; // Ordered, so each collection keeps its own sequence
+}
+
+// A lat/lng box, e.g. the visible map
+export interface Bounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
 }
 
 export interface MapViewState {
@@ -0,0 +1,65 @@
+// Screen-space grid clustering. Points are projected to world pixels at the current
+// zoom, so a cell (and therefore a cluster key) stays stable while panning.
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface ClusterInput<T> {
+  item: T;
+  point: PixelPoint;
+}
+
+export interface Cluster<T> {
+  key: string; // Grid cell, unique per zoom level
+  items: T[];
+  center: PixelPoint; // Centroid of the members in world pixels
+}
+
+export const DEFAULT_CLUSTER_CELL_PX = 60;
+
+export const clusterByGrid = <T>(inputs: ClusterInput<T>[], cellSize = DEFAULT_CLUSTER_CELL_PX): Cluster<T>[] => {
+  const cells = new Map<string, { items: T[]; sumX: number; sumY: number }>();
+
+  inputs.forEach(({ item, point }) => {
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.items.push(item);
+      cell.sumX += point.x;
+      cell.sumY += point.y;
+    } else {
+      cells.set(key, { items: [item], sumX: point.x, sumY: point.y });
+    }
+  });
+
+  return Array.from(cells, ([key, cell]) => ({
+    key,
+    items: cell.items,
+    center: { x: cell.sumX / cell.items.length, y: cell.sumY / cell.items.length },
+  }));
+};
+
+// Pixel offsets fanning `count` markers out around a cluster centre: a ring for
+// small clusters, an Archimedean spiral once a ring would get too crowded.
+export const spiderfyOffsets = (count: number): PixelPoint[] => {
+  if (count <= 8) {
+    const radius = 28 + count * 4;
+    return Array.from({ length: count }, (_, i) => {
+      const angle = (i / count) * 2 * Math.PI - Math.PI / 2;
+      return { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+    });
+  }
+
+  const FOOT_SEPARATION = 30;
+  const offsets: PixelPoint[] = [];
+  let angle = 0;
+  let radius = 24;
+  for (let i = 0; i < count; i++) {
+    angle += FOOT_SEPARATION / radius;
+    offsets.push({ x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+    radius += (2 * Math.PI * 5) / angle;
+  }
+  return offsets;
+};
@@ -0,0 +1,36 @@
+import { Coordinate } from '../types';
+
+const EARTH_RADIUS_M = 6371000;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+// Great-circle distance in metres
+export const haversineDistance = (a: Coordinate, b: Coordinate): number => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const formatDistance = (metres: number): string => {
+  if (metres < 1000) return `${Math.round(metres / 10) * 10} m`;
+  return `${(metres / 1000).toFixed(metres < 10000 ? 1 : 0)} km`;
+};
+
+// Lower-cases and strips punctuation and accents so "Tiong Bahru Bakery!" matches "tiong bahru bakery"
+// and "Café" matches "Cafe"
+export const normalizeName = (name: string) =>
+  name.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Same name within a couple of blocks (a building's outline and its entrance node are
+// often mapped apart), or practically the same spot with one name containing the other
+// ("Maxwell Food Centre" and "Maxwell Hawker Food Centre" do not count, "Atlas" and "Atlas Bar" do)
+export const isSamePlace = (a: { name: string; coordinate: Coordinate }, b: { name: string; coordinate: Coordinate }) => {
+  const nameA = normalizeName(a.name);
+  const nameB = normalizeName(b.name);
+  if (!nameA || !nameB) return false;
+  const distance = haversineDistance(a.coordinate, b.coordinate);
+  if (nameA === nameB) return distance <= 250;
+  return distance <= 30 && (nameA.includes(nameB) || nameB.includes(nameA));
+};
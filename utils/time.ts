@@ -0,0 +1,13 @@
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// "just now", "5 min ago", "3 h ago", "2 days ago"
+export const formatTimeAgo = (timestamp: number, now = Date.now()): string => {
+  const elapsed = Math.max(0, now - timestamp);
+  if (elapsed < MINUTE_MS) return 'just now';
+  if (elapsed < HOUR_MS) return `${Math.floor(elapsed / MINUTE_MS)} min ago`;
+  if (elapsed < DAY_MS) return `${Math.floor(elapsed / HOUR_MS)} h ago`;
+  const days = Math.floor(elapsed / DAY_MS);
+  return days === 1 ? 'yesterday' : `${days} days ago`;
+};